@@ -0,0 +1,281 @@
+// Runs the detection benchmark headless in Node against a folder of labelled
+// frames, using the same OpenCV.js and Tesseract wasm builds as the app.
+// The benchmark itself lives in src/utils/benchmark.ts and is loaded through
+// Vite, so it runs the app's own detection code unchanged.
+//
+// The folder holds PNG frames and a ground-truth.json of the form:
+//
+//   {
+//     "calibration": null,
+//     "frames": [
+//       { "file": "0001.png", "vehicles": [
+//         { "box": { "x": 120, "y": 80, "width": 340, "height": 260 },
+//           "plate": "MH 12 AB 1234", "vehicleType": "Car" }
+//       ] }
+//     ]
+//   }
+//
+// Plate reading needs the language data from `npm run vision-assets`.
+//
+// Usage: npm run benchmark -- path/to/frames [--truth file.json] [--out dir] [--iou 0.5]
+//                              [--profile auto|standard|lowLight|nightGlare|rain] [--no-plates]
+
+import { createRequire } from 'module';
+import { access, mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import zlib from 'zlib';
+import { createServer } from 'vite';
+
+const require = createRequire(import.meta.url);
+
+const TESSDATA_DIR = path.resolve('public/vision/tessdata');
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const parseArgs = (args) => {
+  const options = { folder: null, truth: null, out: 'benchmark-results', iou: undefined, profile: undefined, readPlates: true };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--truth') options.truth = args[++i];
+    else if (arg === '--out') options.out = args[++i];
+    else if (arg === '--iou') options.iou = Number(args[++i]);
+    else if (arg === '--profile') options.profile = args[++i];
+    else if (arg === '--no-plates') options.readPlates = false;
+    else options.folder = arg;
+  }
+
+  return options;
+};
+
+// Node has no canvas; the detection code only needs to hold pixels in these
+class NodeImageData {
+  constructor(data, width, height) {
+    this.data = data;
+    this.width = width;
+    this.height = height;
+  }
+}
+
+class NodeOffscreenCanvas {
+  constructor(width, height) {
+    this.width = width;
+    this.height = height;
+    this.imageData = new NodeImageData(new Uint8ClampedArray(width * height * 4), width, height);
+  }
+
+  getContext() {
+    return {
+      putImageData: (imageData) => {
+        this.imageData = imageData;
+      },
+    };
+  }
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (buffer) => {
+  let crc = 0xffffffff;
+  for (const byte of buffer) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type, data) => {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+};
+
+// Tesseract in Node reads encoded images, so plate crops are handed over as PNG
+const encodePng = ({ data, width, height }) => {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 6; // RGBA
+
+  const rows = Buffer.alloc((width * 4 + 1) * height);
+  for (let y = 0; y < height; y++) {
+    Buffer.from(data.buffer, data.byteOffset + y * width * 4, width * 4).copy(rows, y * (width * 4 + 1) + 1);
+  }
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlib.deflateSync(rows)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+};
+
+const paeth = (a, b, c) => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+};
+
+// 8-bit, non-interlaced PNGs of any colour type, which is what frame extractors write
+const decodePng = (buffer) => {
+  if (!buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    throw new Error('Not a PNG file');
+  }
+
+  let width = 0;
+  let height = 0;
+  let colorType = 0;
+  let palette = null;
+  const idat = [];
+
+  for (let offset = 8; offset < buffer.length;) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('ascii', offset + 4, offset + 8);
+    const data = buffer.subarray(offset + 8, offset + 8 + length);
+    offset += length + 12;
+
+    if (type === 'IHDR') {
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+      colorType = data[9];
+      if (data[8] !== 8 || data[12] !== 0) {
+        throw new Error('Only 8-bit, non-interlaced PNGs are supported');
+      }
+    } else if (type === 'PLTE') {
+      palette = data;
+    } else if (type === 'IDAT') {
+      idat.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  const channels = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 }[colorType];
+  const stride = width * channels;
+  const raw = zlib.inflateSync(Buffer.concat(idat));
+  const pixels = Buffer.alloc(stride * height);
+
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const row = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    for (let x = 0; x < stride; x++) {
+      const left = x >= channels ? pixels[y * stride + x - channels] : 0;
+      const up = y > 0 ? pixels[(y - 1) * stride + x] : 0;
+      const upLeft = x >= channels && y > 0 ? pixels[(y - 1) * stride + x - channels] : 0;
+      const predictor = [0, left, up, (left + up) >> 1, paeth(left, up, upLeft)][filter];
+      pixels[y * stride + x] = (row[x] + predictor) & 0xff;
+    }
+  }
+
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const p = pixels.subarray(i * channels, (i + 1) * channels);
+    const [r, g, b, a] = colorType === 0 ? [p[0], p[0], p[0], 255]
+      : colorType === 2 ? [p[0], p[1], p[2], 255]
+      : colorType === 3 ? [palette[p[0] * 3], palette[p[0] * 3 + 1], palette[p[0] * 3 + 2], 255]
+      : colorType === 4 ? [p[0], p[0], p[0], p[1]]
+      : [p[0], p[1], p[2], p[3]];
+    rgba.set([r, g, b, a], i * 4);
+  }
+
+  return new NodeImageData(rgba, width, height);
+};
+
+// The app evaluates OpenCV with `self` as its global; loadOpenCV skips the download once it is set
+const loadOpenCV = async () => {
+  globalThis.self = globalThis;
+  globalThis.ImageData = NodeImageData;
+  globalThis.OffscreenCanvas = NodeOffscreenCanvas;
+
+  const cv = require('opencv.js');
+  if (!cv.Mat) {
+    await new Promise((resolve) => {
+      cv.onRuntimeInitialized = resolve;
+    });
+  }
+  globalThis.cv = cv;
+};
+
+const main = async () => {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options.folder) {
+    console.error('Usage: npm run benchmark -- path/to/frames [--truth file.json] [--out dir] [--iou 0.5] [--profile name] [--no-plates]');
+    process.exit(1);
+  }
+
+  const truthFile = options.truth || path.join(options.folder, 'ground-truth.json');
+  const groundTruth = JSON.parse(await readFile(truthFile, 'utf8'));
+
+  // Plate reading would otherwise fail on every vehicle and report 0% accuracy
+  if (options.readPlates) {
+    try {
+      await access(path.join(TESSDATA_DIR, 'eng.traineddata.gz'));
+    } catch {
+      console.error('Tesseract language data is missing: run `npm run vision-assets`, or pass --no-plates');
+      process.exit(1);
+    }
+  }
+
+  await loadOpenCV();
+
+  const vite = await createServer({
+    appType: 'custom',
+    logLevel: 'error',
+    server: { middlewareMode: true, hmr: false },
+    // Nothing is served to a browser, so there are no dependencies to pre-bundle
+    optimizeDeps: { noDiscovery: true, entries: [] },
+  });
+
+  try {
+    const { configureTesseractRuntime } = await vite.ssrLoadModule('/src/utils/ocr.ts');
+    const { runBenchmark, renderBenchmarkHtml } = await vite.ssrLoadModule('/src/utils/benchmark.ts');
+
+    configureTesseractRuntime({
+      workerOptions: { langPath: TESSDATA_DIR, cacheMethod: 'none' },
+      prepareImage: (canvas) => encodePng(canvas.imageData),
+    });
+
+    const report = await runBenchmark(
+      groundTruth,
+      async (file) => decodePng(await readFile(path.join(options.folder, file))),
+      {
+        iouThreshold: options.iou,
+        readPlates: options.readPlates,
+        preprocessing: options.profile,
+        onFrame: (frame, index, total) => {
+          console.log(`[${index + 1}/${total}] ${frame.file}: ${frame.matched}/${frame.labelled} matched, ${Math.round(frame.latencyMs.total)} ms${frame.error ? ` (${frame.error})` : ''}`);
+        },
+      }
+    );
+
+    await mkdir(options.out, { recursive: true });
+    const baseName = path.join(options.out, `benchmark-${report.createdAt.replace(/[:.]/g, '-')}`);
+    await writeFile(`${baseName}.json`, JSON.stringify(report, null, 2));
+    await writeFile(`${baseName}.html`, renderBenchmarkHtml(report));
+
+    const { detection, plates, classification } = report;
+    console.log(`Detection   precision ${(detection.precision * 100).toFixed(1)}%, recall ${(detection.recall * 100).toFixed(1)}%`);
+    if (plates) {
+      console.log(`Plates      exact ${(plates.exactAccuracy * 100).toFixed(1)}%, characters ${(plates.characterAccuracy * 100).toFixed(1)}%`);
+    }
+    console.log(`Classes     accuracy ${(classification.accuracy * 100).toFixed(1)}%`);
+    console.log(`Report      ${baseName}.json, ${baseName}.html`);
+  } finally {
+    await vite.close();
+  }
+
+  // The Tesseract worker thread would otherwise keep the process alive
+  process.exit(0);
+};
+
+main().catch((error) => {
+  console.error('Error running benchmark:', error);
+  process.exit(1);
+});
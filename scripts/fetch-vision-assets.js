@@ -0,0 +1,75 @@
+// Downloads the vision assets that are not shipped in node_modules into public/,
+// so the app can be served to roadside machines without internet access.
+// OpenCV and the Tesseract worker/core are bundled from node_modules by Vite.
+//
+// No helmet classifier is published for download; a deployment's own model is
+// fetched along with the rest when HELMET_MODEL_URL points at its model.json.
+//
+// Usage: [HELMET_MODEL_URL=https://.../model.json] npm run vision-assets
+
+import { mkdir, readFile, stat, writeFile } from 'fs/promises';
+import path from 'path';
+
+const PUBLIC_DIR = path.resolve('public');
+
+const TESSDATA_URL = 'https://cdn.jsdelivr.net/npm/@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz';
+const COCO_SSD_URL = 'https://storage.googleapis.com/tfjs-models/savedmodel/ssdlite_mobilenet_v2/model.json';
+const HELMET_MODEL_URL = process.env.HELMET_MODEL_URL;
+
+const exists = async (file) => {
+  try {
+    await stat(file);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const download = async (url, file) => {
+  if (await exists(file)) {
+    console.log(`Skipping ${path.relative(PUBLIC_DIR, file)} (already present)`);
+    return;
+  }
+
+  console.log(`Downloading ${url}`);
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`${url} returned ${response.status}`);
+  }
+
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, Buffer.from(await response.arrayBuffer()));
+};
+
+const fetchModel = async (modelUrl, name) => {
+  const modelDir = path.join(PUBLIC_DIR, 'models', name);
+  const modelFile = path.join(modelDir, 'model.json');
+
+  await download(modelUrl, modelFile);
+
+  // The weight shards are listed in the model's manifest, relative to model.json
+  const model = JSON.parse(await readFile(modelFile, 'utf8'));
+  const shards = model.weightsManifest.flatMap(group => group.paths);
+
+  for (const shard of shards) {
+    await download(new URL(shard, modelUrl).href, path.join(modelDir, shard));
+  }
+};
+
+const main = async () => {
+  await download(TESSDATA_URL, path.join(PUBLIC_DIR, 'vision', 'tessdata', 'eng.traineddata.gz'));
+  await fetchModel(COCO_SSD_URL, 'coco-ssd');
+
+  if (HELMET_MODEL_URL) {
+    await fetchModel(HELMET_MODEL_URL, 'helmet');
+  } else if (!(await exists(path.join(PUBLIC_DIR, 'models', 'helmet', 'model.json')))) {
+    console.log('No helmet model (set HELMET_MODEL_URL to fetch one); helmet checks stay unavailable');
+  }
+
+  console.log('Vision assets are ready');
+};
+
+main().catch((error) => {
+  console.error('Error fetching vision assets:', error);
+  process.exit(1);
+});
@@ -0,0 +1,242 @@
+// Serves a recorded clip as the network camera streams the monitoring wall
+// accepts, so stream sources can be tried without a real camera. Needs ffmpeg.
+//
+//   http://localhost:8090/clip        progressive HTTP video
+//   http://localhost:8090/mjpeg       MJPEG over HTTP, looping
+//   http://localhost:8090/hls/index.m3u8  live HLS playlist, looping
+//   http://localhost:8090/whep        WebRTC (WHEP), looping
+//
+// Usage: npm run stream-server -- path/to/clip.mp4 [port]
+
+import { spawn } from 'child_process';
+import { randomUUID } from 'crypto';
+import dgram from 'dgram';
+import { createReadStream } from 'fs';
+import { mkdtemp, rm, stat } from 'fs/promises';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { MediaStreamTrack, RTCPeerConnection, RTCRtpCodecParameters } from 'werift';
+
+const [clip, portArg] = process.argv.slice(2);
+const PORT = Number(portArg) || 8090;
+const MJPEG_FPS = 10;
+
+const CONTENT_TYPES = {
+  '.m3u8': 'application/vnd.apple.mpegurl',
+  '.ts': 'video/mp2t',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+};
+
+if (!clip) {
+  console.error('Usage: npm run stream-server -- path/to/clip.mp4 [port]');
+  process.exit(1);
+}
+
+const ffmpeg = (args) => {
+  const child = spawn('ffmpeg', ['-hide_banner', '-loglevel', 'error', ...args], {
+    stdio: ['ignore', 'pipe', 'inherit'],
+  });
+  child.on('error', (error) => console.error('Error running ffmpeg:', error.message));
+  return child;
+};
+
+// The app is served from another origin, and reads frames back from these streams
+const sendHeaders = (res, status, headers) => {
+  res.writeHead(status, { 'Access-Control-Allow-Origin': '*', 'Cache-Control': 'no-cache', ...headers });
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  req.on('data', (chunk) => chunks.push(chunk));
+  req.on('end', () => resolve(Buffer.concat(chunks).toString()));
+  req.on('error', reject);
+});
+
+const serveFile = async (req, res, file) => {
+  let size;
+  try {
+    size = (await stat(file)).size;
+  } catch {
+    sendHeaders(res, 404, {});
+    res.end();
+    return;
+  }
+
+  const type = CONTENT_TYPES[path.extname(file).toLowerCase()] || 'application/octet-stream';
+  const range = /^bytes=(\d*)-(\d*)$/.exec(req.headers.range || '');
+
+  // Browsers seek in progressive video with range requests
+  if (range && (range[1] || range[2])) {
+    // A suffix range (bytes=-500) asks for the last bytes of the file
+    const start = range[1] ? Number(range[1]) : Math.max(size - Number(range[2]), 0);
+    const end = range[1] && range[2] ? Math.min(Number(range[2]), size - 1) : size - 1;
+
+    if (start >= size || start > end) {
+      sendHeaders(res, 416, { 'Content-Range': `bytes */${size}` });
+      res.end();
+      return;
+    }
+
+    sendHeaders(res, 206, {
+      'Content-Type': type,
+      'Content-Length': end - start + 1,
+      'Content-Range': `bytes ${start}-${end}/${size}`,
+      'Accept-Ranges': 'bytes',
+    });
+    createReadStream(file, { start, end }).pipe(res);
+    return;
+  }
+
+  sendHeaders(res, 200, { 'Content-Type': type, 'Content-Length': size, 'Accept-Ranges': 'bytes' });
+  createReadStream(file).pipe(res);
+};
+
+const serveMjpeg = (req, res) => {
+  // One encoder per viewer, stopped when the viewer disconnects
+  const encoder = ffmpeg([
+    '-re', '-stream_loop', '-1', '-i', clip,
+    '-an', '-vf', `fps=${MJPEG_FPS}`, '-q:v', '5',
+    '-f', 'mpjpeg', '-boundary_tag', 'frame', '-',
+  ]);
+
+  sendHeaders(res, 200, { 'Content-Type': 'multipart/x-mixed-replace; boundary=frame' });
+  encoder.stdout.pipe(res);
+  req.on('close', () => encoder.kill());
+};
+
+/**
+ * Encode the clip to VP8 over RTP and fan it out to every WHEP viewer
+ * @returns WHEP endpoint handlers and a function stopping the encoder
+ */
+const createWhepEndpoint = async () => {
+  // Every viewer is sent the same looping encode, like the HLS playlist
+  const track = new MediaStreamTrack({ kind: 'video' });
+  const sessions = new Map();
+
+  const socket = dgram.createSocket('udp4');
+  socket.on('message', (packet) => track.writeRtp(packet));
+  await new Promise((resolve) => socket.bind(0, '127.0.0.1', resolve));
+
+  const encoder = ffmpeg([
+    '-re', '-stream_loop', '-1', '-i', clip,
+    '-an', '-c:v', 'libvpx', '-deadline', 'realtime', '-cpu-used', '8', '-b:v', '1M', '-g', '30',
+    '-f', 'rtp', `rtp://127.0.0.1:${socket.address().port}?pkt_size=1200`,
+  ]);
+
+  // A WHEP offer is answered with a session sending the clip; its resource URL ends it
+  const answer = async (req, res) => {
+    const pc = new RTCPeerConnection({
+      codecs: { video: [new RTCRtpCodecParameters({ mimeType: 'video/VP8', clockRate: 90000 })] },
+    });
+    const id = randomUUID();
+
+    try {
+      pc.addTransceiver(track, { direction: 'sendonly' });
+      await pc.setRemoteDescription({ type: 'offer', sdp: await readBody(req) });
+      await pc.setLocalDescription(await pc.createAnswer());
+    } catch (error) {
+      console.error('Error answering WHEP offer:', error.message);
+      pc.close();
+      sendHeaders(res, 400, {});
+      res.end();
+      return;
+    }
+
+    sessions.set(id, pc);
+    pc.connectionStateChange.subscribe((state) => {
+      if (state === 'closed' || state === 'failed') {
+        sessions.delete(id);
+        pc.close();
+      }
+    });
+
+    sendHeaders(res, 201, {
+      'Content-Type': 'application/sdp',
+      'Location': `/whep/${id}`,
+      'Access-Control-Expose-Headers': 'Location',
+    });
+    res.end(pc.localDescription.sdp);
+  };
+
+  const end = (res, id) => {
+    const pc = sessions.get(id);
+    sessions.delete(id);
+    pc?.close();
+    sendHeaders(res, pc ? 200 : 404, {});
+    res.end();
+  };
+
+  const close = () => {
+    encoder.kill();
+    socket.close();
+    sessions.forEach((pc) => pc.close());
+  };
+
+  return { answer, end, close };
+};
+
+const main = async () => {
+  await stat(clip);
+
+  const hlsDir = await mkdtemp(path.join(os.tmpdir(), 'stream-server-'));
+  const hlsEncoder = ffmpeg([
+    '-re', '-stream_loop', '-1', '-i', clip,
+    '-an', '-c:v', 'libx264', '-preset', 'veryfast', '-g', '50',
+    '-f', 'hls', '-hls_time', '2', '-hls_list_size', '6', '-hls_flags', 'delete_segments',
+    path.join(hlsDir, 'index.m3u8'),
+  ]);
+
+  const whep = await createWhepEndpoint();
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url, `http://${req.headers.host}`);
+
+    if (req.method === 'OPTIONS') {
+      // WHEP offers and session ends are sent cross-origin, so browsers check first
+      sendHeaders(res, 204, {
+        'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type',
+      });
+      res.end();
+    } else if (url.pathname === '/whep' && req.method === 'POST') {
+      whep.answer(req, res);
+    } else if (url.pathname.startsWith('/whep/') && req.method === 'DELETE') {
+      whep.end(res, path.basename(url.pathname));
+    } else if (url.pathname === '/clip') {
+      serveFile(req, res, clip);
+    } else if (url.pathname === '/mjpeg') {
+      serveMjpeg(req, res);
+    } else if (url.pathname.startsWith('/hls/')) {
+      serveFile(req, res, path.join(hlsDir, path.basename(url.pathname)));
+    } else {
+      sendHeaders(res, 404, {});
+      res.end();
+    }
+  });
+
+  const shutdown = async () => {
+    hlsEncoder.kill();
+    whep.close();
+    server.close();
+    await rm(hlsDir, { recursive: true, force: true });
+    process.exit(0);
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  server.listen(PORT, () => {
+    console.log(`Streaming ${clip}`);
+    console.log(`  HTTP   http://localhost:${PORT}/clip`);
+    console.log(`  MJPEG  http://localhost:${PORT}/mjpeg`);
+    console.log(`  HLS    http://localhost:${PORT}/hls/index.m3u8`);
+    console.log(`  WHEP   http://localhost:${PORT}/whep`);
+  });
+};
+
+main().catch((error) => {
+  console.error('Error starting stream server:', error);
+  process.exit(1);
+});
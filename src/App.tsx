@@ -6,6 +6,9 @@ import ChallanPayment from './pages/user/ChallanPayment';
 import ChallanHistory from './pages/user/ChallanHistory';
 import AdminChallanHistory from './pages/admin/AdminChallanHistory';
 import VehicleDetection from './pages/admin/VehicleDetection';
+import ReviewQueue from './pages/admin/ReviewQueue';
+import MonitoringWall from './pages/admin/MonitoringWall';
+import Watchlist from './pages/admin/Watchlist';
 import Navbar from './components/Navbar';
 import Footer from './components/Footer';
 import NotFound from './pages/NotFound';
@@ -28,6 +31,9 @@ function App() {
             <Route path="/admin/dashboard" element={<AdminDashboard />} />
             <Route path="/admin/challan-history" element={<AdminChallanHistory />} />
             <Route path="/admin/vehicle-detection" element={<VehicleDetection />} />
+            <Route path="/admin/monitoring" element={<MonitoringWall />} />
+            <Route path="/admin/review" element={<ReviewQueue />} />
+            <Route path="/admin/watchlist" element={<Watchlist />} />
             
             {/* 404 Route */}
             <Route path="*" element={<NotFound />} />
@@ -0,0 +1,314 @@
+import React, { useState } from 'react';
+import { Ruler } from 'lucide-react';
+import {
+  CalibrationMethod,
+  CameraCalibration,
+  computeCalibration,
+  computeGroundPlaneCalibration,
+  DEFAULT_LANE_WIDTH,
+} from '../utils/calibration';
+import { Point } from '../utils/zoneGeometry';
+
+export interface CalibrationFrame {
+  /** Data URL of the captured frame */
+  url: string;
+  width: number;
+  height: number;
+}
+
+interface CalibrationWizardProps {
+  frame: CalibrationFrame;
+  calibration: CameraCalibration | null;
+  onSave: (calibration: CameraCalibration) => void;
+  onCancel: () => void;
+}
+
+type Step = 'method' | 'mark' | 'measure';
+
+// Typical car width, used to sanity-check the result
+const REFERENCE_CAR_WIDTH = 1.8;
+
+// Road positions suggested for a ground-plane calibration: a 10 m stretch of one lane
+const DEFAULT_WORLD_POINTS = [
+  { x: 0, y: 0 },
+  { x: DEFAULT_LANE_WIDTH, y: 0 },
+  { x: DEFAULT_LANE_WIDTH, y: 10 },
+  { x: 0, y: 10 },
+];
+
+const POINT_LABELS = ['Near left', 'Near right', 'Far right', 'Far left'];
+
+type WorldPointInput = { x: string; y: string };
+
+const CalibrationWizard: React.FC<CalibrationWizardProps> = ({ frame, calibration, onSave, onCancel }) => {
+  const [step, setStep] = useState<Step>('method');
+  const [method, setMethod] = useState<CalibrationMethod>(calibration?.method || 'lane');
+  const [points, setPoints] = useState<Point[]>(
+    calibration ? [...(calibration.groundPlane?.imagePoints || calibration.points)] : []
+  );
+  const [realLength, setRealLength] = useState<string>(calibration ? String(calibration.realLength) : String(DEFAULT_LANE_WIDTH));
+  const [worldPoints, setWorldPoints] = useState<WorldPointInput[]>(
+    (calibration?.groundPlane?.worldPoints || DEFAULT_WORLD_POINTS).map(p => ({ x: String(p.x), y: String(p.y) }))
+  );
+  const [error, setError] = useState('');
+
+  const pointCount = method === 'groundPlane' ? 4 : 2;
+
+  const handleImageClick = (event: React.MouseEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const point = {
+      x: (event.clientX - rect.left) / rect.width,
+      y: (event.clientY - rect.top) / rect.height,
+    };
+
+    // Clicking past the last point starts over
+    setPoints(prev => (prev.length >= pointCount ? [point] : [...prev, point]));
+  };
+
+  const handleMethodChange = (value: CalibrationMethod) => {
+    setMethod(value);
+    setPoints([]);
+    setRealLength(value === 'lane' ? String(DEFAULT_LANE_WIDTH) : '');
+  };
+
+  const handleWorldPointChange = (index: number, axis: keyof WorldPointInput, value: string) => {
+    setWorldPoints(prev => prev.map((p, i) => (i === index ? { ...p, [axis]: value } : p)));
+  };
+
+  const buildCalibration = (): CameraCalibration => {
+    if (method === 'groundPlane') {
+      const world = worldPoints.map(p => {
+        if (p.x.trim() === '' || p.y.trim() === '' || !isFinite(Number(p.x)) || !isFinite(Number(p.y))) {
+          throw new Error('Enter a road position for every point');
+        }
+        return { x: Number(p.x), y: Number(p.y) };
+      });
+      return computeGroundPlaneCalibration(points, world, frame.width, frame.height);
+    }
+
+    return computeCalibration(method, [points[0], points[1]], Number(realLength), frame.width, frame.height);
+  };
+
+  let preview: CameraCalibration | null = null;
+  let previewError = '';
+  if (points.length === pointCount) {
+    try {
+      preview = buildCalibration();
+    } catch (err) {
+      previewError = err instanceof Error ? err.message : 'Invalid calibration';
+    }
+  }
+
+  const handleSave = () => {
+    try {
+      setError('');
+      onSave(buildCalibration());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid calibration');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg p-6 max-w-3xl w-full">
+        <h2 className="text-lg font-medium text-gray-900 mb-1 flex items-center">
+          <Ruler className="h-5 w-5 mr-2 text-indigo-600" />
+          Camera Calibration
+        </h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Step {step === 'method' ? 1 : step === 'mark' ? 2 : 3} of 3
+        </p>
+
+        {step === 'method' && (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-700">
+              Choose something in the camera view whose real size you know. Vehicle dimensions are
+              measured relative to it, so pick a reference close to where vehicles pass.
+            </p>
+            <label className="flex items-start p-3 border rounded-md cursor-pointer hover:border-indigo-500">
+              <input
+                type="radio"
+                className="mt-1 mr-3"
+                checked={method === 'lane'}
+                onChange={() => handleMethodChange('lane')}
+              />
+              <span>
+                <span className="block text-sm font-medium text-gray-900">Lane width</span>
+                <span className="block text-xs text-gray-500">Mark both edges of one lane (standard lanes are {DEFAULT_LANE_WIDTH} m)</span>
+              </span>
+            </label>
+            <label className="flex items-start p-3 border rounded-md cursor-pointer hover:border-indigo-500">
+              <input
+                type="radio"
+                className="mt-1 mr-3"
+                checked={method === 'reference'}
+                onChange={() => handleMethodChange('reference')}
+              />
+              <span>
+                <span className="block text-sm font-medium text-gray-900">Reference object</span>
+                <span className="block text-xs text-gray-500">Mark both ends of an object or road marking of known length</span>
+              </span>
+            </label>
+            <label className="flex items-start p-3 border rounded-md cursor-pointer hover:border-indigo-500">
+              <input
+                type="radio"
+                className="mt-1 mr-3"
+                checked={method === 'groundPlane'}
+                onChange={() => handleMethodChange('groundPlane')}
+              />
+              <span>
+                <span className="block text-sm font-medium text-gray-900">Ground plane (4 points)</span>
+                <span className="block text-xs text-gray-500">
+                  Mark four points on the road whose positions you know, such as the corners of a lane segment.
+                  Vehicles are then measured in perspective, wherever they are in the frame.
+                </span>
+              </span>
+            </label>
+          </div>
+        )}
+
+        {step === 'mark' && (
+          <div>
+            <p className="text-sm text-gray-700 mb-2">
+              {method === 'groundPlane'
+                ? `Click four points on the road surface in order: ${POINT_LABELS.join(', ').toLowerCase()}.`
+                : `Click the two ends of the ${method === 'lane' ? 'lane, edge to edge' : 'reference object'}.`}
+            </p>
+            <div className="relative">
+              <img src={frame.url} alt="Captured camera frame" className="w-full h-auto rounded-md" />
+              <svg
+                className="absolute inset-0 w-full h-full cursor-crosshair"
+                viewBox="0 0 1 1"
+                preserveAspectRatio="none"
+                onClick={handleImageClick}
+              >
+                {method === 'groundPlane' && points.length === 4 && (
+                  <polygon
+                    points={points.map(p => `${p.x},${p.y}`).join(' ')}
+                    fill="#facc15"
+                    fillOpacity={0.2}
+                    stroke="#facc15"
+                    strokeWidth={3}
+                    vectorEffect="non-scaling-stroke"
+                  />
+                )}
+                {method !== 'groundPlane' && points.length === 2 && (
+                  <line
+                    x1={points[0].x}
+                    y1={points[0].y}
+                    x2={points[1].x}
+                    y2={points[1].y}
+                    stroke="#facc15"
+                    strokeWidth={3}
+                    vectorEffect="non-scaling-stroke"
+                  />
+                )}
+                {points.map((point, index) => (
+                  <circle key={index} cx={point.x} cy={point.y} r={0.008} fill="#dc2626" />
+                ))}
+              </svg>
+            </div>
+          </div>
+        )}
+
+        {step === 'measure' && (
+          <div className="space-y-4">
+            {method === 'groundPlane' ? (
+              <div>
+                <p className="text-sm text-gray-700 mb-2">
+                  Enter where each point lies on the road, in metres: X across the road and Y along it,
+                  measured from any fixed origin.
+                </p>
+                <div className="grid grid-cols-3 gap-2 items-center">
+                  {worldPoints.map((point, index) => (
+                    <React.Fragment key={index}>
+                      <span className="text-sm text-gray-700">{index + 1}. {POINT_LABELS[index]}</span>
+                      <input
+                        type="number"
+                        step="0.01"
+                        aria-label={`${POINT_LABELS[index]} X (metres)`}
+                        value={point.x}
+                        onChange={(e) => handleWorldPointChange(index, 'x', e.target.value)}
+                        className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                      />
+                      <input
+                        type="number"
+                        step="0.01"
+                        aria-label={`${POINT_LABELS[index]} Y (metres)`}
+                        value={point.y}
+                        onChange={(e) => handleWorldPointChange(index, 'y', e.target.value)}
+                        className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                      />
+                    </React.Fragment>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <div>
+                <label htmlFor="reference-length" className="block text-sm font-medium text-gray-700">
+                  {method === 'lane' ? 'Lane width' : 'Reference length'} (metres)
+                </label>
+                <input
+                  id="reference-length"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={realLength}
+                  onChange={(e) => setRealLength(e.target.value)}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                />
+              </div>
+            )}
+
+            {preview && (
+              <div className="bg-gray-50 rounded-md p-3 grid grid-cols-2 gap-2">
+                <div>
+                  <p className="text-xs text-gray-500">{method === 'groundPlane' ? 'Scale along the near edge' : 'Scale'}</p>
+                  <p className="text-sm font-medium">{(preview.metresPerPixel * 100).toFixed(2)} cm per pixel</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">A {REFERENCE_CAR_WIDTH} m wide car spans</p>
+                  <p className="text-sm font-medium">{Math.round(REFERENCE_CAR_WIDTH / preview.metresPerPixel)} px of {frame.width} px</p>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === 'measure' && previewError && <p className="mt-3 text-sm text-red-600">{previewError}</p>}
+        {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+
+        <div className="mt-6 flex justify-end space-x-3">
+          <button
+            type="button"
+            onClick={step === 'method' ? onCancel : () => setStep(step === 'measure' ? 'mark' : 'method')}
+            className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            {step === 'method' ? 'Cancel' : 'Back'}
+          </button>
+          {step === 'measure' ? (
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={!preview}
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+            >
+              Save Calibration
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={() => setStep(step === 'method' ? 'mark' : 'measure')}
+              disabled={step === 'mark' && points.length < pointCount}
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+            >
+              Next
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CalibrationWizard;
@@ -0,0 +1,241 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, Circle, Maximize2, Minimize2, X } from 'lucide-react';
+import { CameraConfig, getCameraConfig, getDefaultCameraConfig } from '../utils/cameraConfig';
+import { CameraConnection, CameraSource, ConnectionStatus, createCameraConnection, getCameraSourceLabel } from '../utils/cameraSources';
+import { PipelineViolation } from '../utils/detectionPipeline';
+import DetectionOverlay from './DetectionOverlay';
+import { isClipRecordingSupported } from '../utils/clipRecorder';
+import { useCameraDetection } from '../hooks/useCameraDetection';
+
+/**
+ * Interface for a camera on the monitoring wall
+ */
+export interface MonitorTile {
+  id: string;
+  source: CameraSource;
+  location: string;
+}
+
+/**
+ * Interface for a violation raised by one of the wall's cameras
+ */
+export interface TileViolation {
+  tileId: string;
+  location: string;
+  violation: PipelineViolation;
+  /** Sent to the review queue rather than issued */
+  inReview: boolean;
+  timestamp: Date;
+}
+
+interface CameraTileProps {
+  tile: MonitorTile;
+  focused: boolean;
+  onToggleFocus: () => void;
+  onRemove: () => void;
+  onViolations: (violations: TileViolation[]) => void;
+}
+
+type TileStatus = ConnectionStatus | 'loading' | 'error';
+
+// Interval between processed frames of each camera
+const FRAME_INTERVAL_MS = 2000;
+
+const STATUS_STYLES: Record<TileStatus, { label: string; className: string }> = {
+  connecting: { label: 'Connecting', className: 'bg-yellow-400' },
+  reconnecting: { label: 'Reconnecting', className: 'bg-yellow-400' },
+  failed: { label: 'Disconnected', className: 'bg-red-500' },
+  loading: { label: 'Loading detector', className: 'bg-yellow-400' },
+  live: { label: 'Live', className: 'bg-green-500' },
+  error: { label: 'Error', className: 'bg-red-500' },
+};
+
+const CameraTile: React.FC<CameraTileProps> = ({ tile, focused, onToggleFocus, onRemove, onViolations }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const connectionRef = useRef<CameraConnection | null>(null);
+  const onViolationsRef = useRef(onViolations);
+  const [cameraConfig, setCameraConfig] = useState<CameraConfig | null>(null);
+  const [sourceStatus, setSourceStatus] = useState<ConnectionStatus>('connecting');
+  const [sourceError, setSourceError] = useState('');
+  const [errorMessage, setErrorMessage] = useState('');
+  const [vehicleCount, setVehicleCount] = useState(0);
+  const [violationCount, setViolationCount] = useState(0);
+  // Jobs are grouped by tile rather than location, so each tile keeps its own worker state
+  const detection = useCameraDetection({
+    cameraConfig,
+    workerKey: tile.id,
+    getMedia: () => connectionRef.current?.element || null,
+    feed: tile.source,
+  });
+  const { detectorStatus, detectorError, helmetError, overlayFrame, skippedFrames, lastFrameMs, isRecordingSession } = detection;
+  const processDetectionFrameRef = useRef(detection.processFrame);
+
+  onViolationsRef.current = onViolations;
+  processDetectionFrameRef.current = detection.processFrame;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getCameraConfig(tile.location)
+      .then((config) => {
+        if (!cancelled) setCameraConfig(config);
+      })
+      .catch(() => {
+        if (!cancelled) setCameraConfig(getDefaultCameraConfig(tile.location));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tile.location]);
+
+  useEffect(() => {
+    const connection = createCameraConnection(tile.source, {
+      onStatusChange: (status, error) => {
+        setSourceStatus(status);
+        setSourceError(error ? error.message : '');
+      },
+    });
+    connection.element.className = 'absolute inset-0 w-full h-full object-contain';
+    containerRef.current?.appendChild(connection.element);
+    connectionRef.current = connection;
+
+    return () => {
+      connection.close();
+      connection.element.remove();
+      connectionRef.current = null;
+    };
+  }, [tile.source]);
+
+  useEffect(() => {
+    if (sourceStatus !== 'live' || detectorStatus !== 'ready') return;
+
+    const processFrame = async () => {
+      const canvas = connectionRef.current?.grabFrame();
+      if (!canvas) return;
+
+      try {
+        const processed = await processDetectionFrameRef.current(canvas);
+        if (!processed) return;
+
+        setVehicleCount(processed.result.vehicleCount);
+        setErrorMessage('');
+
+        const raised: TileViolation[] = processed.raised.map(({ violation, inReview }) => ({
+          tileId: tile.id,
+          location: tile.location,
+          violation,
+          inReview,
+          timestamp: new Date(),
+        }));
+
+        if (raised.length > 0) {
+          setViolationCount(prev => prev + raised.length);
+          onViolationsRef.current(raised);
+        }
+      } catch (error) {
+        console.error('Error processing frame:', error);
+        setErrorMessage('Error processing video frame');
+      }
+    };
+
+    const interval = setInterval(processFrame, FRAME_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [sourceStatus, detectorStatus, tile.id, tile.location]);
+
+  const toggleSessionRecording = () => {
+    detection.toggleSessionRecording(tile.location);
+  };
+
+  const status: TileStatus = errorMessage || detectorError
+    ? 'error'
+    : sourceStatus !== 'live'
+      ? sourceStatus
+      : detectorStatus !== 'ready'
+        ? 'loading'
+        : 'live';
+  const statusDetail = status === 'error' ? detectorError || errorMessage : sourceError;
+
+  return (
+    <div
+      className={`flex flex-col bg-gray-900 overflow-hidden ${
+        focused ? 'fixed inset-0 z-50' : 'relative rounded-lg shadow'
+      }`}
+    >
+      <div className="flex items-center justify-between px-3 py-2 bg-gray-800 text-white">
+        <div className="flex items-center min-w-0">
+          <span className={`h-2.5 w-2.5 rounded-full mr-2 flex-shrink-0 ${STATUS_STYLES[status].className}`} />
+          <div className="min-w-0">
+            <p className="text-sm font-medium truncate">{tile.location}</p>
+            <p className="text-xs text-gray-400 truncate">{getCameraSourceLabel(tile.source)}</p>
+          </div>
+        </div>
+        <div className="flex items-center flex-shrink-0 ml-2">
+          {isClipRecordingSupported() && (
+            <button
+              type="button"
+              onClick={toggleSessionRecording}
+              disabled={!cameraConfig}
+              className={`p-1 rounded hover:bg-gray-700 disabled:opacity-50 ${isRecordingSession ? 'text-red-500' : ''}`}
+              title={isRecordingSession ? 'Stop recording and download' : 'Record session'}
+            >
+              <Circle className={`h-4 w-4 ${isRecordingSession ? 'fill-current animate-pulse' : ''}`} />
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onToggleFocus}
+            className="p-1 rounded hover:bg-gray-700"
+            title={focused ? 'Exit full screen (Esc)' : 'Full screen'}
+          >
+            {focused ? <Minimize2 className="h-4 w-4" /> : <Maximize2 className="h-4 w-4" />}
+          </button>
+          <button
+            type="button"
+            onClick={onRemove}
+            className="p-1 rounded hover:bg-gray-700"
+            title="Remove camera"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className={`relative bg-black ${focused ? 'flex-grow' : 'aspect-video'}`}>
+        <div ref={containerRef} className="absolute inset-0" />
+        <DetectionOverlay
+          frame={overlayFrame}
+          zone={cameraConfig?.zone || null}
+          getMediaElement={() => connectionRef.current?.element || null}
+        />
+
+        {statusDetail && status !== 'live' && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center text-center text-white bg-black bg-opacity-60 p-4">
+            <AlertTriangle className="h-8 w-8 text-red-400 mb-2" />
+            <p className="text-sm">{statusDetail}</p>
+            {status === 'reconnecting' && <p className="text-xs text-gray-300 mt-1">Reconnecting...</p>}
+          </div>
+        )}
+
+        {/* Detection carries on without helmet checks, so this stays out of the way of the feed */}
+        {helmetError && status === 'live' && (
+          <div className="absolute top-0 inset-x-0 flex items-center px-2 py-1 text-xs text-yellow-100 bg-yellow-700 bg-opacity-80">
+            <AlertTriangle className="h-3.5 w-3.5 mr-1 flex-shrink-0" />
+            <span className="truncate" title={helmetError}>{helmetError}</span>
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-between px-3 py-1.5 text-xs text-gray-300 bg-gray-800">
+        <span>{STATUS_STYLES[status].label}</span>
+        <span>
+          {vehicleCount} vehicles • {violationCount} violations
+          {lastFrameMs !== null && ` • ${Math.round(lastFrameMs)} ms`}
+          {skippedFrames > 0 && ` • ${skippedFrames} skipped`}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default CameraTile;
@@ -0,0 +1,67 @@
+import React, { useEffect, useRef } from 'react';
+import { fitFrame, OverlayFrame, renderAnnotations } from '../utils/annotationRenderer';
+import { ZoneConfig } from '../utils/zoneGeometry';
+
+interface DetectionOverlayProps {
+  frame: OverlayFrame | null;
+  /** Zone drawn in frame coordinates; pass null while another component draws it */
+  zone: ZoneConfig | null;
+  /** Video or canvas the frame was taken from; the overlay is fitted to its picture */
+  getMediaElement: () => HTMLElement | null;
+}
+
+const DetectionOverlay: React.FC<DetectionOverlayProps> = ({ frame, zone, getMediaElement }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Read by the animation loop, so new results do not restart it
+  const frameRef = useRef(frame);
+  const zoneRef = useRef(zone);
+  const getMediaRef = useRef(getMediaElement);
+
+  frameRef.current = frame;
+  zoneRef.current = zone;
+  getMediaRef.current = getMediaElement;
+
+  useEffect(() => {
+    let animationFrame = 0;
+
+    const draw = () => {
+      animationFrame = requestAnimationFrame(draw);
+
+      const canvas = canvasRef.current;
+      const media = getMediaRef.current();
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx) return;
+
+      const dpr = window.devicePixelRatio || 1;
+      const canvasRect = canvas.getBoundingClientRect();
+      if (canvas.width !== Math.round(canvasRect.width * dpr) || canvas.height !== Math.round(canvasRect.height * dpr)) {
+        canvas.width = Math.round(canvasRect.width * dpr);
+        canvas.height = Math.round(canvasRect.height * dpr);
+      }
+
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+      const current = frameRef.current;
+      const frameWidth = current?.width || (media instanceof HTMLVideoElement ? media.videoWidth : media instanceof HTMLCanvasElement ? media.width : 0);
+      const frameHeight = current?.height || (media instanceof HTMLVideoElement ? media.videoHeight : media instanceof HTMLCanvasElement ? media.height : 0);
+      if (!media || !frameWidth || !frameHeight) return;
+
+      // The picture is letterboxed inside its element (object-fit: contain), which may not fill the overlay
+      const mediaRect = media.getBoundingClientRect();
+      const layout = fitFrame(frameWidth, frameHeight, mediaRect.width, mediaRect.height);
+      layout.offsetX += mediaRect.left - canvasRect.left;
+      layout.offsetY += mediaRect.top - canvasRect.top;
+
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      renderAnnotations(ctx, current, zoneRef.current, layout);
+    };
+
+    animationFrame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(animationFrame);
+  }, []);
+
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />;
+};
+
+export default DetectionOverlay;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { Film, Image } from 'lucide-react';
+import { ChallanEvidence, EvidenceImage } from '../utils/evidence';
+
+interface EvidenceGalleryProps {
+  evidence?: ChallanEvidence | null;
+  /** Compact thumbnails for table rows */
+  compact?: boolean;
+}
+
+const EvidenceGallery: React.FC<EvidenceGalleryProps> = ({ evidence, compact = false }) => {
+  if (!evidence) {
+    return (
+      <span className="inline-flex items-center text-xs text-gray-400">
+        <Image className="h-4 w-4 mr-1" />
+        No evidence
+      </span>
+    );
+  }
+
+  const images: { label: string; image: EvidenceImage }[] = [
+    { label: 'Frame', image: evidence.frame },
+    { label: 'Vehicle', image: evidence.vehicle },
+    ...(evidence.plate ? [{ label: 'Plate', image: evidence.plate }] : []),
+    ...(evidence.head ? [{ label: 'Rider', image: evidence.head }] : []),
+    ...(evidence.crossings || []).map((image, index) => ({ label: `Line ${index + 1}`, image })),
+  ];
+
+  return (
+    <div className={`flex ${compact ? 'space-x-1' : 'flex-wrap gap-3'}`}>
+      {images.map(({ label, image }) => (
+        <a
+          key={label}
+          href={image.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          title={`${label} evidence`}
+          className="block"
+        >
+          <img
+            src={image.url}
+            alt={`${label} evidence`}
+            className={`${compact ? 'h-10 w-14' : 'h-28 w-40'} object-cover rounded border border-gray-200 hover:border-indigo-500`}
+          />
+          {!compact && <span className="mt-1 block text-xs text-gray-500 text-center">{label}</span>}
+        </a>
+      ))}
+      {evidence.clip && (
+        <a
+          href={evidence.clip.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          title="Clip evidence"
+          className="block"
+        >
+          <span
+            className={`${compact ? 'h-10 w-14' : 'h-28 w-40'} flex items-center justify-center rounded border border-gray-200 bg-gray-900 text-white hover:border-indigo-500`}
+          >
+            <Film className={compact ? 'h-4 w-4' : 'h-8 w-8'} />
+          </span>
+          {!compact && <span className="mt-1 block text-xs text-gray-500 text-center">Clip</span>}
+        </a>
+      )}
+    </div>
+  );
+};
+
+export default EvidenceGallery;
@@ -1,6 +1,6 @@
 import React from 'react';
 import { Link, useLocation } from 'react-router-dom';
-import { Car, User, FileText, CreditCard, Camera } from 'lucide-react';
+import { Car, User, FileText, CreditCard, Camera, ClipboardCheck, LayoutGrid, ShieldAlert } from 'lucide-react';
 
 const Navbar: React.FC = () => {
   const location = useLocation();
@@ -77,6 +77,45 @@ const Navbar: React.FC = () => {
                     <span>Detection</span>
                   </div>
                 </Link>
+                <Link 
+                  to="/admin/monitoring" 
+                  className={`px-3 py-2 rounded-md text-sm font-medium ${
+                    location.pathname === '/admin/monitoring' 
+                      ? 'bg-indigo-800' 
+                      : 'hover:bg-indigo-600'
+                  }`}
+                >
+                  <div className="flex items-center">
+                    <LayoutGrid className="h-4 w-4 mr-1" />
+                    <span>Monitoring</span>
+                  </div>
+                </Link>
+                <Link 
+                  to="/admin/review" 
+                  className={`px-3 py-2 rounded-md text-sm font-medium ${
+                    location.pathname === '/admin/review' 
+                      ? 'bg-indigo-800' 
+                      : 'hover:bg-indigo-600'
+                  }`}
+                >
+                  <div className="flex items-center">
+                    <ClipboardCheck className="h-4 w-4 mr-1" />
+                    <span>Review</span>
+                  </div>
+                </Link>
+                <Link 
+                  to="/admin/watchlist" 
+                  className={`px-3 py-2 rounded-md text-sm font-medium ${
+                    location.pathname === '/admin/watchlist' 
+                      ? 'bg-indigo-800' 
+                      : 'hover:bg-indigo-600'
+                  }`}
+                >
+                  <div className="flex items-center">
+                    <ShieldAlert className="h-4 w-4 mr-1" />
+                    <span>Watchlist</span>
+                  </div>
+                </Link>
                 <Link 
                   to="/admin/challan-history" 
                   className={`px-3 py-2 rounded-md text-sm font-medium ${
@@ -0,0 +1,56 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { getPictureRect, PictureRect } from '../utils/annotationRenderer';
+
+interface PictureFrameProps {
+  /** Video or canvas whose picture the children are laid over */
+  getMediaElement: () => HTMLElement | null;
+  children: React.ReactNode;
+}
+
+/**
+ * Lay children over the picture of a video or canvas, so that normalised
+ * coordinates inside it are frame coordinates even when the picture is
+ * letterboxed or smaller than its container
+ */
+const PictureFrame: React.FC<PictureFrameProps> = ({ getMediaElement, children }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const getMediaRef = useRef(getMediaElement);
+  const [rect, setRect] = useState<PictureRect | null>(null);
+
+  getMediaRef.current = getMediaElement;
+
+  useEffect(() => {
+    let animationFrame = 0;
+
+    // Measured every animation frame, like the overlay, since the media can resize or change source at any time
+    const measure = () => {
+      animationFrame = requestAnimationFrame(measure);
+
+      const media = getMediaRef.current();
+      const next = media && containerRef.current ? getPictureRect(media, containerRef.current) : null;
+
+      setRect(previous =>
+        previous && next &&
+        Math.abs(previous.left - next.left) < 0.5 && Math.abs(previous.top - next.top) < 0.5 &&
+        Math.abs(previous.width - next.width) < 0.5 && Math.abs(previous.height - next.height) < 0.5
+          ? previous
+          : next
+      );
+    };
+
+    animationFrame = requestAnimationFrame(measure);
+    return () => cancelAnimationFrame(animationFrame);
+  }, []);
+
+  return (
+    <div ref={containerRef} className="absolute inset-0 pointer-events-none">
+      {rect && (
+        <div className="absolute" style={rect}>
+          {children}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PictureFrame;
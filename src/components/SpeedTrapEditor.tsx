@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import PictureFrame from './PictureFrame';
+import { Point } from '../utils/zoneGeometry';
+import { SpeedLine } from '../utils/speedEstimation';
+
+interface SpeedTrapEditorProps {
+  lines: SpeedLine[];
+  editing: boolean;
+  /** Video or canvas the lines are drawn over; clicks are normalised against its picture */
+  getMediaElement: () => HTMLElement | null;
+  onChange: (lines: SpeedLine[]) => void;
+}
+
+const SpeedTrapEditor: React.FC<SpeedTrapEditorProps> = ({ lines, editing, getMediaElement, onChange }) => {
+  const [pendingLineStart, setPendingLineStart] = useState<Point | null>(null);
+
+  const handleClick = (event: React.MouseEvent<SVGSVGElement>) => {
+    if (!editing) return;
+
+    const rect = event.currentTarget.getBoundingClientRect();
+    const point = {
+      x: (event.clientX - rect.left) / rect.width,
+      y: (event.clientY - rect.top) / rect.height,
+    };
+
+    if (!pendingLineStart) {
+      setPendingLineStart(point);
+      return;
+    }
+
+    // Drawing past the second line starts the trap over
+    const line = { start: pendingLineStart, end: point };
+    onChange(lines.length >= 2 ? [line] : [...lines, line]);
+    setPendingLineStart(null);
+  };
+
+  return (
+    <>
+      <PictureFrame getMediaElement={getMediaElement}>
+        <svg
+          className={`absolute inset-0 w-full h-full ${editing ? 'cursor-crosshair pointer-events-auto' : 'pointer-events-none'}`}
+          viewBox="0 0 1 1"
+          preserveAspectRatio="none"
+          onClick={handleClick}
+        >
+          {lines.map((line, index) => (
+            <line
+              key={index}
+              x1={line.start.x}
+              y1={line.start.y}
+              x2={line.end.x}
+              y2={line.end.y}
+              stroke="#2563eb"
+              strokeWidth={3}
+              strokeDasharray="8 4"
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+
+          {pendingLineStart && (
+            <circle cx={pendingLineStart.x} cy={pendingLineStart.y} r={0.008} fill="#2563eb" />
+          )}
+        </svg>
+
+        {lines.map((line, index) => (
+          <span
+            key={index}
+            className="absolute px-1 text-xs font-medium rounded bg-blue-600 text-white pointer-events-none"
+            style={{ left: `${line.start.x * 100}%`, top: `${line.start.y * 100}%` }}
+          >
+            {index + 1}
+          </span>
+        ))}
+      </PictureFrame>
+
+      {editing && (
+        <div className="absolute top-2 left-2 flex space-x-2">
+          <span className="px-2 py-1 text-xs font-medium rounded bg-white text-gray-700">
+            Draw two lines across the road ({lines.length}/2)
+          </span>
+          <button
+            type="button"
+            onClick={() => {
+              setPendingLineStart(null);
+              onChange([]);
+            }}
+            className="px-2 py-1 text-xs font-medium rounded bg-white text-red-700"
+          >
+            Clear
+          </button>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default SpeedTrapEditor;
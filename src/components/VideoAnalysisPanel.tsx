@@ -0,0 +1,340 @@
+import React, { useRef, useState } from 'react';
+import { Download, Film, Square } from 'lucide-react';
+import { CameraConfig } from '../utils/cameraConfig';
+import { createDetectionPipeline, PipelineViolation } from '../utils/detectionPipeline';
+import { describeViolation, recordVehicleViolation } from '../utils/challanUtils';
+import { submitForReview } from '../utils/reviewQueue';
+import { analyzeVideo, TimelineEntry, VideoAnalysisResult, videoAnalysisToCSV } from '../utils/videoAnalysis';
+import { classifyHelmetInWorker, createWorkerDetector, readPlateInWorker } from '../utils/visionWorkers';
+import { HELMET_MODEL_MISSING_MESSAGE, isHelmetModelAvailable } from '../utils/helmetDetection';
+
+interface VideoAnalysisPanelProps {
+  videoRef: React.RefObject<HTMLVideoElement>;
+  file: File;
+  cameraConfig: CameraConfig;
+  /** Called with the challans created from the analysis and the detections sent for review */
+  onViolationsRecorded: (violations: PipelineViolation[], reviews: PipelineViolation[]) => void;
+}
+
+const SAMPLE_RATES = [1, 2, 5, 10];
+
+/**
+ * Format a video time as m:ss.s
+ * @param seconds Time in seconds
+ * @returns Formatted time
+ */
+const formatVideoTime = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds - minutes * 60).toFixed(1).padStart(4, '0')}`;
+};
+
+/**
+ * Trigger a browser download of a text file
+ * @param content File content
+ * @param type MIME type
+ * @param fileName Download file name
+ */
+const downloadFile = (content: string, type: string, fileName: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', fileName);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const VideoAnalysisPanel: React.FC<VideoAnalysisPanelProps> = ({
+  videoRef,
+  file,
+  cameraConfig,
+  onViolationsRecorded,
+}) => {
+  const [sampleRate, setSampleRate] = useState(2);
+  const [isAnalysing, setIsAnalysing] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [timeline, setTimeline] = useState<TimelineEntry[]>([]);
+  const [result, setResult] = useState<VideoAnalysisResult | null>(null);
+  const [recordedTracks, setRecordedTracks] = useState<Record<number, 'challan' | 'review'>>({});
+  const [isRecording, setIsRecording] = useState(false);
+  const [error, setError] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
+
+  const handleAnalyse = async () => {
+    const video = videoRef.current;
+    if (!video || !video.duration) {
+      setError('The video has not loaded yet');
+      return;
+    }
+
+    // A separate detector from the live camera's, so the background model and tracks stay apart
+    const detectorId = `${cameraConfig.location} (video: ${file.name})`;
+    const detector = createWorkerDetector(detectorId, cameraConfig);
+    const abortController = new AbortController();
+    abortRef.current = abortController;
+
+    setIsAnalysing(true);
+    setError('');
+    setProgress(0);
+    setTimeline([]);
+    setResult(null);
+    setRecordedTracks({});
+
+    try {
+      const [, helmetModelAvailable] = await Promise.all([
+        detector.load(),
+        cameraConfig.helmetDetection && isHelmetModelAvailable(),
+      ]);
+      // The video is still analysed, just without helmet checks
+      if (cameraConfig.helmetDetection && !helmetModelAvailable) {
+        setError(HELMET_MODEL_MISSING_MESSAGE);
+      }
+
+      const pipeline = createDetectionPipeline({
+        location: cameraConfig.location,
+        zone: cameraConfig.zone,
+        zoneCategory: cameraConfig.zoneCategory,
+        speedTrap: cameraConfig.speedTrap,
+        detector,
+        plateReader: (frame, box) => readPlateInWorker(detectorId, frame, box, cameraConfig.preprocessing),
+        ...(helmetModelAvailable && {
+          helmetClassifier: (frame, box) => classifyHelmetInWorker(detectorId, frame, box),
+          onHelmetClassifierError: (error) => setError(`Helmet checks stopped: ${error.message}`),
+        }),
+        calibration: cameraConfig.calibration,
+        reviewThresholds: cameraConfig.reviewThresholds,
+        // Violations are reviewed in the timeline before any challan is created
+        recordViolations: false,
+      });
+
+      const analysis = await analyzeVideo(video, pipeline, file.name, {
+        sampleRate,
+        signal: abortController.signal,
+        onProgress: (value, entries) => {
+          setProgress(value);
+          setTimeline(entries);
+        },
+      });
+
+      setTimeline(analysis.timeline);
+      setResult(analysis);
+    } catch (error) {
+      console.error('Error analysing video:', error);
+      setError('Failed to analyse the video');
+    } finally {
+      detector.dispose();
+      abortRef.current = null;
+      setIsAnalysing(false);
+    }
+  };
+
+  const handleSeek = (entry: TimelineEntry) => {
+    if (videoRef.current && !isAnalysing) {
+      videoRef.current.currentTime = entry.startTime;
+    }
+  };
+
+  const handleRecordViolations = async (entries: TimelineEntry[]) => {
+    setIsRecording(true);
+    setError('');
+
+    const pending = entries.filter(entry => entry.violation && !recordedTracks[entry.trackId]);
+    const recorded: PipelineViolation[] = [];
+    const reviews: PipelineViolation[] = [];
+
+    for (const entry of pending) {
+      const { capture, decision, ...assessment } = entry.violation!;
+      // Low-confidence detections go to the review queue, as on the live path
+      const inReview = decision === 'review';
+      const result = inReview
+        ? await submitForReview(assessment, cameraConfig.location, capture)
+        : await recordVehicleViolation(assessment, cameraConfig.location, capture);
+
+      if (result) {
+        (inReview ? reviews : recorded).push({ ...result, trackId: entry.trackId });
+        setRecordedTracks(prev => ({ ...prev, [entry.trackId]: inReview ? 'review' : 'challan' }));
+      }
+    }
+
+    if (recorded.length + reviews.length < pending.length) {
+      setError('Some violations could not be recorded');
+    }
+
+    if (recorded.length > 0 || reviews.length > 0) {
+      onViolationsRecorded(recorded, reviews);
+    }
+
+    setIsRecording(false);
+  };
+
+  const exportName = file.name.replace(/\.[^.]+$/, '');
+  const violationEntries = timeline.filter(entry => entry.violation);
+  const duration = videoRef.current?.duration || result?.duration || 0;
+
+  return (
+    <div className="mt-4 border border-gray-200 rounded-md bg-white">
+      <div className="p-3 flex flex-wrap items-center gap-3 border-b border-gray-200">
+        <h3 className="text-sm font-medium text-gray-900 flex items-center">
+          <Film className="h-4 w-4 mr-2 text-indigo-600" />
+          Batch Analysis
+        </h3>
+
+        <label className="text-sm text-gray-600 flex items-center">
+          Sample
+          <select
+            className="ml-2 pl-2 pr-8 py-1 text-sm border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+            value={sampleRate}
+            disabled={isAnalysing}
+            onChange={(e) => setSampleRate(Number(e.target.value))}
+          >
+            {SAMPLE_RATES.map(rate => (
+              <option key={rate} value={rate}>{rate} frame{rate > 1 ? 's' : ''}/s</option>
+            ))}
+          </select>
+        </label>
+
+        {isAnalysing ? (
+          <button
+            type="button"
+            onClick={() => abortRef.current?.abort()}
+            className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            <Square className="h-4 w-4 mr-2" />
+            Stop
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={handleAnalyse}
+            className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm leading-4 font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            Analyse Whole Video
+          </button>
+        )}
+
+        {result && (
+          <div className="flex gap-2 ml-auto">
+            <button
+              type="button"
+              onClick={() => downloadFile(videoAnalysisToCSV(result), 'text/csv;charset=utf-8;', `${exportName}_analysis.csv`)}
+              className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              CSV
+            </button>
+            <button
+              type="button"
+              // Evidence images are binary and only kept until the challans are created
+              onClick={() => downloadFile(
+                JSON.stringify(result, (key, value) => (key === 'capture' ? undefined : value), 2),
+                'application/json',
+                `${exportName}_analysis.json`
+              )}
+              className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              JSON
+            </button>
+          </div>
+        )}
+      </div>
+
+      {(isAnalysing || result) && (
+        <div className="p-3">
+          <div className="flex justify-between text-xs text-gray-500 mb-1">
+            <span>
+              {isAnalysing
+                ? `Analysing... ${Math.round(progress * 100)}%`
+                : `${result!.framesAnalysed} frames analysed${result!.framesSkipped > 0 ? `, ${result!.framesSkipped} skipped` : ''}${result!.cancelled ? ' (stopped early)' : ''}`}
+            </span>
+            <span>{timeline.length} vehicles, {violationEntries.length} violations</span>
+          </div>
+          <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+            <div className="h-full bg-indigo-600" style={{ width: `${Math.round(progress * 100)}%` }} />
+          </div>
+
+          {duration > 0 && timeline.length > 0 && (
+            <div className="relative mt-3 h-6 bg-gray-100 rounded">
+              {timeline.map(entry => (
+                <button
+                  key={entry.trackId}
+                  type="button"
+                  title={`${entry.vehicleNumber || 'Unread plate'} at ${formatVideoTime(entry.startTime)}`}
+                  onClick={() => handleSeek(entry)}
+                  className={`absolute top-1 h-4 rounded-sm ${entry.violation ? 'bg-red-500' : 'bg-indigo-400'}`}
+                  style={{
+                    left: `${(entry.startTime / duration) * 100}%`,
+                    width: `${Math.max(0.5, ((entry.endTime - entry.startTime) / duration) * 100)}%`,
+                  }}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && <p className="px-3 pb-3 text-sm text-red-600">{error}</p>}
+
+      {timeline.length > 0 && (
+        <ul className="divide-y divide-gray-200 max-h-64 overflow-y-auto border-t border-gray-200">
+          {timeline.map(entry => (
+            <li key={entry.trackId} className="px-3 py-2 flex items-center justify-between text-sm">
+              <button
+                type="button"
+                onClick={() => handleSeek(entry)}
+                className="text-left hover:text-indigo-600"
+              >
+                <span className="font-mono text-gray-500 mr-3">
+                  {formatVideoTime(entry.startTime)} - {formatVideoTime(entry.endTime)}
+                </span>
+                <span className="font-medium text-gray-900">{entry.vehicleNumber || 'Plate not read'}</span>
+                {entry.violation && (
+                  <span className="ml-2 text-xs text-red-600">
+                    {describeViolation(entry.violation)}, {entry.violation.vehicleType}, ₹{entry.violation.fineAmount},
+                    {' '}{Math.round((entry.violation.confidence?.overall ?? 0) * 100)}% confidence
+                    {entry.violation.decision === 'review' && ' (needs review)'}
+                  </span>
+                )}
+              </button>
+
+              {entry.violation && (
+                recordedTracks[entry.trackId] ? (
+                  <span className="text-xs text-green-600">
+                    {recordedTracks[entry.trackId] === 'review' ? 'Sent for review' : 'Challan created'}
+                  </span>
+                ) : (
+                  <button
+                    type="button"
+                    disabled={isAnalysing || isRecording}
+                    onClick={() => handleRecordViolations([entry])}
+                    className="text-xs font-medium text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+                  >
+                    {entry.violation.decision === 'review' ? 'Send for Review' : 'Create Challan'}
+                  </button>
+                )
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {result && violationEntries.some(entry => !recordedTracks[entry.trackId]) && (
+        <div className="p-3 border-t border-gray-200 text-right">
+          <button
+            type="button"
+            disabled={isRecording}
+            onClick={() => handleRecordViolations(violationEntries)}
+            className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm leading-4 font-medium rounded-md text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50"
+          >
+            {isRecording ? 'Recording Violations...' : `Record ${violationEntries.filter(e => !recordedTracks[e.trackId]).length} Violations`}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VideoAnalysisPanel;
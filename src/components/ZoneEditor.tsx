@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import PictureFrame from './PictureFrame';
+import { EntryLine, Point, ZoneConfig } from '../utils/zoneGeometry';
+
+type EditMode = 'polygon' | 'line';
+
+interface ZoneEditorProps {
+  zone: ZoneConfig | null;
+  editing: boolean;
+  /** Video or canvas the zone is drawn over; clicks are normalised against its picture */
+  getMediaElement: () => HTMLElement | null;
+  onChange: (zone: ZoneConfig) => void;
+}
+
+const emptyZone: ZoneConfig = { polygon: [], entryLine: null };
+
+/**
+ * Get the arrow showing the forbidden crossing direction of an entry line
+ * @param line Entry line
+ * @returns Start and end of the arrow, in normalised coordinates
+ */
+const getDirectionArrow = (line: EntryLine) => {
+  const midX = (line.start.x + line.end.x) / 2;
+  const midY = (line.start.y + line.end.y) / 2;
+  const dx = line.end.x - line.start.x;
+  const dy = line.end.y - line.start.y;
+  const length = Math.sqrt(dx * dx + dy * dy) || 1;
+
+  // Perpendicular pointing to the right of start -> end (screen y grows down)
+  const sign = line.forbiddenSide === 'right' ? 1 : -1;
+  const nx = (-dy / length) * sign * 0.06;
+  const ny = (dx / length) * sign * 0.06;
+
+  return { x1: midX - nx, y1: midY - ny, x2: midX + nx, y2: midY + ny };
+};
+
+const ZoneEditor: React.FC<ZoneEditorProps> = ({ zone, editing, getMediaElement, onChange }) => {
+  const [mode, setMode] = useState<EditMode>('polygon');
+  const [pendingLineStart, setPendingLineStart] = useState<Point | null>(null);
+  const current = zone || emptyZone;
+
+  const handleClick = (event: React.MouseEvent<SVGSVGElement>) => {
+    if (!editing) return;
+
+    const rect = event.currentTarget.getBoundingClientRect();
+    const point = {
+      x: (event.clientX - rect.left) / rect.width,
+      y: (event.clientY - rect.top) / rect.height,
+    };
+
+    if (mode === 'polygon') {
+      onChange({ ...current, polygon: [...current.polygon, point] });
+    } else if (!pendingLineStart) {
+      setPendingLineStart(point);
+    } else {
+      onChange({
+        ...current,
+        entryLine: {
+          start: pendingLineStart,
+          end: point,
+          forbiddenSide: current.entryLine?.forbiddenSide || 'right',
+        },
+      });
+      setPendingLineStart(null);
+    }
+  };
+
+  const toggleDirection = () => {
+    if (!current.entryLine) return;
+
+    onChange({
+      ...current,
+      entryLine: {
+        ...current.entryLine,
+        forbiddenSide: current.entryLine.forbiddenSide === 'right' ? 'left' : 'right',
+      },
+    });
+  };
+
+  const arrow = current.entryLine ? getDirectionArrow(current.entryLine) : null;
+
+  return (
+    <>
+      <PictureFrame getMediaElement={getMediaElement}>
+        <svg
+          className={`absolute inset-0 w-full h-full ${editing ? 'cursor-crosshair pointer-events-auto' : 'pointer-events-none'}`}
+          viewBox="0 0 1 1"
+          preserveAspectRatio="none"
+          onClick={handleClick}
+        >
+          <defs>
+            <marker id="zone-arrow" markerWidth="6" markerHeight="6" refX="3" refY="3" orient="auto">
+              <path d="M0,0 L6,3 L0,6 z" fill="#dc2626" />
+            </marker>
+          </defs>
+
+          {current.polygon.length > 0 && (
+            <polygon
+              points={current.polygon.map(p => `${p.x},${p.y}`).join(' ')}
+              fill="rgba(220, 38, 38, 0.2)"
+              stroke="#dc2626"
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+
+          {current.entryLine && arrow && (
+            <>
+              <line
+                x1={current.entryLine.start.x}
+                y1={current.entryLine.start.y}
+                x2={current.entryLine.end.x}
+                y2={current.entryLine.end.y}
+                stroke="#facc15"
+                strokeWidth={3}
+                vectorEffect="non-scaling-stroke"
+              />
+              <line
+                {...arrow}
+                stroke="#dc2626"
+                strokeWidth={2}
+                vectorEffect="non-scaling-stroke"
+                markerEnd="url(#zone-arrow)"
+              />
+            </>
+          )}
+
+          {pendingLineStart && (
+            <circle cx={pendingLineStart.x} cy={pendingLineStart.y} r={0.008} fill="#facc15" />
+          )}
+        </svg>
+      </PictureFrame>
+
+      {editing && (
+        <div className="absolute top-2 left-2 flex space-x-2">
+          <button
+            type="button"
+            onClick={() => setMode('polygon')}
+            className={`px-2 py-1 text-xs font-medium rounded ${
+              mode === 'polygon' ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700'
+            }`}
+          >
+            Draw Zone
+          </button>
+          <button
+            type="button"
+            onClick={() => setMode('line')}
+            className={`px-2 py-1 text-xs font-medium rounded ${
+              mode === 'line' ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700'
+            }`}
+          >
+            Draw Entry Line
+          </button>
+          <button
+            type="button"
+            onClick={toggleDirection}
+            disabled={!current.entryLine}
+            className="px-2 py-1 text-xs font-medium rounded bg-white text-gray-700 disabled:opacity-50"
+          >
+            Flip Direction
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setPendingLineStart(null);
+              onChange(emptyZone);
+            }}
+            className="px-2 py-1 text-xs font-medium rounded bg-white text-red-700"
+          >
+            Clear
+          </button>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default ZoneEditor;
@@ -0,0 +1,242 @@
+// This file wires a camera's detection pipeline, clip recorder and overlay
+// together, for the detection page and each camera on the monitoring wall.
+
+import { useEffect, useRef, useState } from 'react';
+import { CameraConfig } from '../utils/cameraConfig';
+import { createDetectionPipeline, DetectionPipeline, FrameResult, PipelineViolation } from '../utils/detectionPipeline';
+import { classifyHelmetInWorker, createWorkerDetector, readPlateInWorker } from '../utils/visionWorkers';
+import { isWorkerPoolError } from '../utils/workerPool';
+import { OverlayFrame } from '../utils/annotationRenderer';
+import { HELMET_MODEL_MISSING_MESSAGE, isHelmetModelAvailable } from '../utils/helmetDetection';
+import { attachViolationClip, ClipRecorder, createClipRecorder, downloadSessionRecording, isClipRecordingSupported } from '../utils/clipRecorder';
+
+/**
+ * Interface for a violation raised in a processed frame
+ */
+export interface RaisedViolation {
+  violation: PipelineViolation;
+  /** Sent to the review queue rather than issued */
+  inReview: boolean;
+}
+
+/**
+ * Interface for the outcome of a processed frame
+ */
+export interface ProcessedFrame {
+  result: FrameResult;
+  raised: RaisedViolation[];
+  /** Time the frame was captured, in ms since the epoch */
+  capturedAt: number;
+}
+
+export interface CameraDetectionOptions {
+  /** Camera configuration; null while it is loading */
+  cameraConfig: CameraConfig | null;
+  /** Key the camera's worker jobs are grouped under, so each camera keeps its own worker state */
+  workerKey: string;
+  /** Video or canvas the clip recorder reads from */
+  getMedia: () => HTMLVideoElement | HTMLCanvasElement | null;
+  /** Identifies the active feed; the clip recorder is recreated when it changes and stopped while it is null */
+  feed: unknown;
+}
+
+export type DetectorStatus = 'loading' | 'ready' | 'error';
+
+/**
+ * Run a camera's detection pipeline, with its clip recorder and overlay
+ * @param options Camera configuration, worker key and feed
+ * @returns Detector state, the latest overlay frame, frame processing and session recording
+ */
+export const useCameraDetection = ({ cameraConfig, workerKey, getMedia, feed }: CameraDetectionOptions) => {
+  const pipelineRef = useRef<DetectionPipeline | null>(null);
+  const clipRecorderRef = useRef<ClipRecorder | null>(null);
+  const overlayFrameRef = useRef<OverlayFrame | null>(null);
+  const frameInFlightRef = useRef(false);
+  const getMediaRef = useRef(getMedia);
+  const [detectorStatus, setDetectorStatus] = useState<DetectorStatus>('loading');
+  const [detectorError, setDetectorError] = useState('');
+  // Helmet checks that are switched on but cannot run; detection carries on without them
+  const [helmetError, setHelmetError] = useState('');
+  const [overlayFrame, setOverlayFrame] = useState<OverlayFrame | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [skippedFrames, setSkippedFrames] = useState(0);
+  const [lastFrameMs, setLastFrameMs] = useState<number | null>(null);
+  const [isRecordingSession, setIsRecordingSession] = useState(false);
+
+  getMediaRef.current = getMedia;
+
+  // One detector and pipeline per camera configuration, so tracks never carry over between zones
+  useEffect(() => {
+    if (!cameraConfig) return;
+
+    let cancelled = false;
+    const detector = createWorkerDetector(workerKey, cameraConfig);
+    pipelineRef.current = null;
+    setDetectorStatus('loading');
+    setDetectorError('');
+    setHelmetError('');
+
+    Promise.all([detector.load(), cameraConfig.helmetDetection && isHelmetModelAvailable()])
+      .then(([, helmetModelAvailable]) => {
+        if (cancelled) return;
+        if (cameraConfig.helmetDetection && !helmetModelAvailable) {
+          setHelmetError(HELMET_MODEL_MISSING_MESSAGE);
+        }
+
+        pipelineRef.current = createDetectionPipeline({
+          location: cameraConfig.location,
+          zone: cameraConfig.zone,
+          zoneCategory: cameraConfig.zoneCategory,
+          speedTrap: cameraConfig.speedTrap,
+          detector,
+          plateReader: (frame, box) => readPlateInWorker(workerKey, frame, box, cameraConfig.preprocessing),
+          ...(helmetModelAvailable && {
+            helmetClassifier: (frame, box) => classifyHelmetInWorker(workerKey, frame, box),
+            onHelmetClassifierError: (error) => {
+              if (!cancelled) setHelmetError(`Helmet checks stopped: ${error.message}`);
+            },
+          }),
+          calibration: cameraConfig.calibration,
+          reviewThresholds: cameraConfig.reviewThresholds,
+          requestClip: (at) => clipRecorderRef.current?.captureClip(at) || null
+        });
+        setDetectorStatus('ready');
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error('Error loading detector:', error);
+        setDetectorStatus('error');
+        setDetectorError(`Failed to load ${detector.name} detector: ${error.message}`);
+      });
+
+    return () => {
+      cancelled = true;
+      detector.dispose();
+    };
+  }, [cameraConfig, workerKey]);
+
+  const clipSettings = cameraConfig?.clipSettings;
+  const zone = cameraConfig?.zone || null;
+
+  // The recorder keeps a rolling buffer of the active feed, for violation clips and session recordings
+  useEffect(() => {
+    if (!clipSettings || feed === null || feed === undefined || !isClipRecordingSupported()) return;
+
+    const recorder = createClipRecorder({
+      getMedia: () => getMediaRef.current(),
+      getOverlay: () => ({ frame: overlayFrameRef.current, zone }),
+      burnInOverlay: clipSettings.burnInOverlay,
+      rollingClips: clipSettings.enabled,
+      preRollMs: clipSettings.seconds * 1000,
+      postRollMs: clipSettings.seconds * 1000
+    });
+    clipRecorderRef.current = recorder;
+
+    return () => {
+      clipRecorderRef.current = null;
+      recorder.dispose();
+      setIsRecordingSession(false);
+    };
+  }, [feed, clipSettings, zone]);
+
+  /**
+   * Run a frame through the pipeline, updating the overlay and recording clips of its violations
+   *
+   * One frame per camera is processed at a time, which keeps tracker updates in
+   * order; frames arriving while the previous one is still in the workers are
+   * dropped, as are frames whose jobs the worker pool drops or cancels.
+   * @param canvas Canvas containing the frame
+   * @returns Promise with the frame's outcome, or null if the frame was dropped
+   */
+  const processFrame = async (canvas: HTMLCanvasElement): Promise<ProcessedFrame | null> => {
+    if (frameInFlightRef.current) {
+      setSkippedFrames(prev => prev + 1);
+      return null;
+    }
+
+    const pipeline = pipelineRef.current;
+    if (!pipeline) {
+      throw new Error('Detection pipeline is not ready');
+    }
+
+    frameInFlightRef.current = true;
+    setIsProcessing(true);
+    const startedAt = performance.now();
+
+    try {
+      const capturedAt = Date.now();
+      const result = await pipeline.processFrame(canvas, capturedAt);
+      setLastFrameMs(performance.now() - startedAt);
+
+      const frame = { annotations: result.annotations, width: canvas.width, height: canvas.height, timestamp: capturedAt };
+      overlayFrameRef.current = frame;
+      setOverlayFrame(frame);
+      clipRecorderRef.current?.logFrame(frame);
+
+      const raised: RaisedViolation[] = [
+        ...result.violations.map(violation => ({ violation, inReview: false })),
+        ...result.reviews.map(violation => ({ violation, inReview: true })),
+      ];
+
+      for (const { violation, inReview } of raised) {
+        clipRecorderRef.current?.logViolation(violation, inReview, capturedAt);
+        // Only violations with stored evidence have a record to attach the clip to
+        if (violation.evidence && violation.clip) {
+          attachViolationClip(violation.clip, violation.id, inReview);
+        }
+      }
+
+      return { result, raised, capturedAt };
+    } catch (error) {
+      // Dropped or cancelled jobs are expected under load and when the camera stops
+      if (isWorkerPoolError(error)) {
+        setSkippedFrames(prev => prev + 1);
+        return null;
+      }
+
+      throw error;
+    } finally {
+      frameInFlightRef.current = false;
+      setIsProcessing(false);
+    }
+  };
+
+  /**
+   * Start a session recording, or stop it and download it
+   * @param location Camera location, for the file name and log
+   * @returns Promise with false if this browser cannot record
+   */
+  const toggleSessionRecording = async (location: string): Promise<boolean> => {
+    const recorder = clipRecorderRef.current;
+    if (!recorder) {
+      return false;
+    }
+
+    if (!recorder.isSessionRecording()) {
+      recorder.startSession(location);
+      setIsRecordingSession(true);
+      return true;
+    }
+
+    setIsRecordingSession(false);
+    const recording = await recorder.stopSession();
+    if (recording) {
+      const slug = location.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+      downloadSessionRecording(recording, `session-${slug}-${recording.log.startedAt.replace(/[:.]/g, '-')}`);
+    }
+    return true;
+  };
+
+  return {
+    detectorStatus,
+    detectorError,
+    helmetError,
+    overlayFrame,
+    isProcessing,
+    skippedFrames,
+    lastFrameMs,
+    isRecordingSession,
+    processFrame,
+    toggleSessionRecording,
+  };
+};
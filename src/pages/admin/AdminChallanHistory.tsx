@@ -1,5 +1,17 @@
 import React, { useState, useEffect } from 'react';
 import { CheckCircle, AlertTriangle, Search, Download } from 'lucide-react';
+import { ChallanEvidence } from '../../utils/evidence';
+import { getAllChallans } from '../../utils/challanUtils';
+import EvidenceGallery from '../../components/EvidenceGallery';
+import {
+  BodyStyle,
+  describeVehicle,
+  getAllBodyStyles,
+  getAllVehicleColours,
+  getBodyStyleLabel,
+  getVehicleColourLabel,
+  VehicleColour,
+} from '../../utils/vehicleAttributes';
 
 interface Challan {
   id: string;
@@ -12,6 +24,9 @@ interface Challan {
   violationType: string;
   paidAt?: Date;
   userId: string;
+  evidence?: ChallanEvidence;
+  vehicleColour?: VehicleColour;
+  bodyStyle?: BodyStyle;
 }
 
 const AdminChallanHistory: React.FC = () => {
@@ -21,37 +36,21 @@ const AdminChallanHistory: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [vehicleTypeFilter, setVehicleTypeFilter] = useState<string>('all');
   const [vehicleTypes, setVehicleTypes] = useState<string[]>([]);
+  const [colourFilter, setColourFilter] = useState<VehicleColour | 'all'>('all');
+  const [bodyStyleFilter, setBodyStyleFilter] = useState<BodyStyle | 'all'>('all');
 
   useEffect(() => {
-    // Simulate API call with mock data
     const fetchChallans = async () => {
       try {
-        // Generate mock data
-        const mockChallans: Challan[] = [];
-        const mockVehicleTypes = ['Car', 'Truck', 'Motorcycle', 'Bus', 'Van'];
-        
-        for (let i = 1; i <= 20; i++) {
-          const vehicleType = mockVehicleTypes[Math.floor(Math.random() * mockVehicleTypes.length)];
-          const status = Math.random() > 0.5 ? 'paid' : 'pending';
-          const date = new Date();
-          date.setDate(date.getDate() - Math.floor(Math.random() * 30));
-          
-          mockChallans.push({
-            id: `challan-${i}`,
-            vehicleNumber: `AB ${Math.floor(Math.random() * 100)} CD ${Math.floor(Math.random() * 1000)}`,
-            location: `Location ${i % 5 + 1}`,
-            timestamp: date,
-            amount: 500 + Math.floor(Math.random() * 1000),
-            status,
-            vehicleType,
-            violationType: 'No-Entry Zone Violation',
-            paidAt: status === 'paid' ? new Date() : undefined,
-            userId: `user-${i % 3 + 1}`
-          });
-        }
-        
-        setChallans(mockChallans);
-        setVehicleTypes(mockVehicleTypes);
+        const records = await getAllChallans();
+
+        setChallans(records.map(challan => ({
+          ...challan,
+          // Unset only for a challan read back before its server timestamp was written
+          timestamp: challan.timestamp ? challan.timestamp.toDate() : new Date(),
+          paidAt: challan.paidAt?.toDate(),
+        })));
+        setVehicleTypes(Array.from(new Set(records.map(challan => challan.vehicleType))).sort());
       } catch (error) {
         console.error('Error fetching challans:', error);
       } finally {
@@ -83,6 +82,15 @@ const AdminChallanHistory: React.FC = () => {
       return false;
     }
     
+    // Filter by appearance
+    if (colourFilter !== 'all' && challan.vehicleColour !== colourFilter) {
+      return false;
+    }
+    
+    if (bodyStyleFilter !== 'all' && challan.bodyStyle !== bodyStyleFilter) {
+      return false;
+    }
+    
     // Filter by search term
     if (searchTerm && !challan.vehicleNumber.toLowerCase().includes(searchTerm.toLowerCase())) {
       return false;
@@ -92,11 +100,13 @@ const AdminChallanHistory: React.FC = () => {
   });
 
   const exportToCSV = () => {
-    const headers = ['Vehicle Number', 'Vehicle Type', 'Violation Type', 'Amount', 'Status', 'Date', 'Location'];
+    const headers = ['Vehicle Number', 'Vehicle Type', 'Colour', 'Body Style', 'Violation Type', 'Amount', 'Status', 'Date', 'Location'];
     
     const csvData = filteredChallans.map(challan => [
       challan.vehicleNumber,
       challan.vehicleType,
+      challan.vehicleColour ? getVehicleColourLabel(challan.vehicleColour) : '',
+      challan.bodyStyle ? getBodyStyleLabel(challan.bodyStyle) : '',
       challan.violationType,
       challan.amount.toFixed(2),
       challan.status,
@@ -185,6 +195,42 @@ const AdminChallanHistory: React.FC = () => {
               ))}
             </select>
           </div>
+          
+          <div>
+            <label htmlFor="colour-filter" className="block text-sm font-medium text-gray-700 mb-1">
+              Colour
+            </label>
+            <select
+              id="colour-filter"
+              name="colour-filter"
+              className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md"
+              value={colourFilter}
+              onChange={(e) => setColourFilter(e.target.value as VehicleColour | 'all')}
+            >
+              <option value="all">All Colours</option>
+              {getAllVehicleColours().map((colour) => (
+                <option key={colour} value={colour}>{getVehicleColourLabel(colour)}</option>
+              ))}
+            </select>
+          </div>
+          
+          <div>
+            <label htmlFor="body-style-filter" className="block text-sm font-medium text-gray-700 mb-1">
+              Body Style
+            </label>
+            <select
+              id="body-style-filter"
+              name="body-style-filter"
+              className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md"
+              value={bodyStyleFilter}
+              onChange={(e) => setBodyStyleFilter(e.target.value as BodyStyle | 'all')}
+            >
+              <option value="all">All Body Styles</option>
+              {getAllBodyStyles().map((bodyStyle) => (
+                <option key={bodyStyle} value={bodyStyle}>{getBodyStyleLabel(bodyStyle)}</option>
+              ))}
+            </select>
+          </div>
         </div>
         
         <div className="mt-4 flex justify-end">
@@ -223,6 +269,9 @@ const AdminChallanHistory: React.FC = () => {
                   <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Vehicle Type
                   </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Appearance
+                  </th>
                   <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Violation
                   </th>
@@ -238,6 +287,9 @@ const AdminChallanHistory: React.FC = () => {
                   <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Location
                   </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Evidence
+                  </th>
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
@@ -251,6 +303,11 @@ const AdminChallanHistory: React.FC = () => {
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm text-gray-900">{challan.vehicleType}</div>
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">
+                        {challan.vehicleColour || challan.bodyStyle ? describeVehicle(challan) : 'Unknown'}
+                      </div>
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm text-gray-900">{challan.violationType}</div>
                     </td>
@@ -272,6 +329,9 @@ const AdminChallanHistory: React.FC = () => {
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm text-gray-900">{challan.location}</div>
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <EvidenceGallery evidence={challan.evidence} compact />
+                    </td>
                   </tr>
                 ))}
               </tbody>
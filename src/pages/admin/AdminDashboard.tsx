@@ -3,6 +3,8 @@ import { firestore } from '../../firebase';
 import { collection, query, addDoc, onSnapshot } from 'firebase/firestore';
 import vehicleData from '../../data/vehicleData.json';
 import { Challan, ViolationType, VehicleType } from '../../utils/challanUtils';
+import { normaliseRegistrationNumber } from '../../utils/registrationNumber';
+import { getVehicleDataType } from '../../utils/speedEstimation';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { FileText, CheckCircle, Clock, Plus, DollarSign } from 'lucide-react';
 
@@ -52,7 +54,7 @@ const AdminDashboard: React.FC = () => {
             }
 
             stats.violationStats[challan.violationType]++;
-            stats.vehicleTypeStats[challan.vehicleType]++;
+            stats.vehicleTypeStats[getVehicleDataType(challan.vehicleType)]++;
           });
 
           setStatistics(stats);
@@ -73,6 +75,7 @@ const AdminDashboard: React.FC = () => {
     try {
       const challanData: Omit<Challan, 'id'> = {
         ...newChallan,
+        vehicleNumber: normaliseRegistrationNumber(newChallan.vehicleNumber || ''),
         timestamp: new Date(),
         userId: 'user123', // Replace with actual user ID
         amount: vehicleData.violations[newChallan.violationType as ViolationType].amount +
@@ -0,0 +1,320 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertTriangle, LayoutGrid, Plus, RefreshCw } from 'lucide-react';
+import CameraTile, { MonitorTile, TileViolation } from '../../components/CameraTile';
+import { CameraSource, detectStreamProtocol, listVideoDevices, StreamProtocol, VideoDevice } from '../../utils/cameraSources';
+import { describeViolation } from '../../utils/challanUtils';
+import { getAllLocations } from '../../utils/zoneRules';
+
+type SourceKind = CameraSource['kind'];
+
+const LOCATIONS = getAllLocations();
+
+// Violations kept in the shared feed
+const MAX_FEED_ITEMS = 100;
+
+const MonitoringWall: React.FC = () => {
+  const [tiles, setTiles] = useState<MonitorTile[]>([]);
+  const [focusedTileId, setFocusedTileId] = useState<string | null>(null);
+  const [feed, setFeed] = useState<TileViolation[]>([]);
+  const [devices, setDevices] = useState<VideoDevice[]>([]);
+  const [sourceKind, setSourceKind] = useState<SourceKind>('webcam');
+  const [deviceId, setDeviceId] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [streamUrl, setStreamUrl] = useState('');
+  const [streamProtocol, setStreamProtocol] = useState<StreamProtocol | 'auto'>('auto');
+  const [location, setLocation] = useState('');
+  const [errorMessage, setErrorMessage] = useState('');
+  const nextTileIdRef = useRef(1);
+
+  const freeLocations = LOCATIONS.filter(name => !tiles.some(tile => tile.location === name));
+  const selectedLocation = freeLocations.includes(location) ? location : freeLocations[0] || '';
+
+  const refreshDevices = useCallback(async () => {
+    try {
+      // Device labels are only exposed once camera access has been granted
+      const stream = await navigator.mediaDevices.getUserMedia({ video: true });
+      stream.getTracks().forEach(track => track.stop());
+    } catch (error) {
+      console.error('Camera permission denied:', error);
+    }
+
+    try {
+      const found = await listVideoDevices();
+      setDevices(found);
+      setDeviceId(prev => prev || found[0]?.deviceId || '');
+    } catch {
+      setErrorMessage('Failed to list cameras');
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshDevices();
+  }, [refreshDevices]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setFocusedTileId(null);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const handleAddTile = () => {
+    let source: CameraSource;
+
+    if (sourceKind === 'webcam') {
+      const device = devices.find(d => d.deviceId === deviceId);
+      if (!device) {
+        setErrorMessage('Select a camera');
+        return;
+      }
+      if (tiles.some(tile => tile.source.kind === 'webcam' && tile.source.deviceId === device.deviceId)) {
+        setErrorMessage(`${device.label} is already on the wall`);
+        return;
+      }
+      source = { kind: 'webcam', deviceId: device.deviceId, label: device.label };
+    } else if (sourceKind === 'file') {
+      if (!file) {
+        setErrorMessage('Choose a video file');
+        return;
+      }
+      source = { kind: 'file', file };
+    } else {
+      if (!/^https?:\/\//i.test(streamUrl.trim())) {
+        setErrorMessage('Enter an http(s) stream URL');
+        return;
+      }
+      const url = streamUrl.trim();
+      source = { kind: 'stream', protocol: streamProtocol === 'auto' ? detectStreamProtocol(url) : streamProtocol, url };
+    }
+
+    if (!selectedLocation) {
+      setErrorMessage('Every location already has a camera');
+      return;
+    }
+
+    setTiles(prev => [...prev, { id: `camera-${nextTileIdRef.current++}`, source, location: selectedLocation }]);
+    setErrorMessage('');
+    setFile(null);
+    setStreamUrl('');
+  };
+
+  const handleRemoveTile = (tileId: string) => {
+    setTiles(prev => prev.filter(tile => tile.id !== tileId));
+    setFocusedTileId(prev => (prev === tileId ? null : prev));
+  };
+
+  const handleViolations = useCallback((violations: TileViolation[]) => {
+    setFeed(prev => [...violations, ...prev].slice(0, MAX_FEED_ITEMS));
+  }, []);
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-900">Monitoring Wall</h1>
+        <p className="mt-2 text-gray-600">
+          Run detection on several cameras at once, each with its location's zone and detector settings.
+        </p>
+      </div>
+
+      {errorMessage && (
+        <div className="mb-4 bg-red-50 border-l-4 border-red-400 p-4">
+          <div className="flex">
+            <div className="flex-shrink-0">
+              <AlertTriangle className="h-5 w-5 text-red-400" />
+            </div>
+            <div className="ml-3">
+              <p className="text-sm text-red-700">{errorMessage}</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg p-4 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <label htmlFor="source-kind" className="block text-sm font-medium text-gray-700">
+              Source
+            </label>
+            <select
+              id="source-kind"
+              value={sourceKind}
+              onChange={(e) => setSourceKind(e.target.value as SourceKind)}
+              className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md"
+            >
+              <option value="webcam">Local camera</option>
+              <option value="file">Video file</option>
+              <option value="stream">Network stream</option>
+            </select>
+          </div>
+
+          <div className="md:col-span-2">
+            {sourceKind === 'webcam' && (
+              <>
+                <label htmlFor="source-device" className="block text-sm font-medium text-gray-700">
+                  Camera
+                </label>
+                <div className="mt-1 flex">
+                  <select
+                    id="source-device"
+                    value={deviceId}
+                    onChange={(e) => setDeviceId(e.target.value)}
+                    className="block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md"
+                  >
+                    {devices.length === 0 && <option value="">No cameras found</option>}
+                    {devices.map(device => (
+                      <option key={device.deviceId} value={device.deviceId}>{device.label}</option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={refreshDevices}
+                    className="ml-2 inline-flex items-center px-3 py-2 border border-gray-300 text-sm rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                    title="Refresh cameras"
+                  >
+                    <RefreshCw className="h-4 w-4" />
+                  </button>
+                </div>
+              </>
+            )}
+            {sourceKind === 'file' && (
+              <>
+                <label htmlFor="source-file" className="block text-sm font-medium text-gray-700">
+                  Video File
+                </label>
+                <input
+                  id="source-file"
+                  type="file"
+                  accept="video/*"
+                  onChange={(e) => setFile(e.target.files?.[0] || null)}
+                  className="mt-1 block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100"
+                />
+              </>
+            )}
+            {sourceKind === 'stream' && (
+              <>
+                <label htmlFor="source-url" className="block text-sm font-medium text-gray-700">
+                  Stream URL
+                </label>
+                <div className="mt-1 flex">
+                  <input
+                    id="source-url"
+                    type="url"
+                    value={streamUrl}
+                    onChange={(e) => setStreamUrl(e.target.value)}
+                    placeholder="http://localhost:8090/mjpeg"
+                    className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  />
+                  <select
+                    aria-label="Stream protocol"
+                    value={streamProtocol}
+                    onChange={(e) => setStreamProtocol(e.target.value as StreamProtocol | 'auto')}
+                    className="ml-2 block pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md"
+                  >
+                    <option value="auto">Auto-detect</option>
+                    <option value="http">HTTP video</option>
+                    <option value="mjpeg">MJPEG</option>
+                    <option value="hls">HLS</option>
+                    <option value="webrtc">WebRTC (WHEP)</option>
+                  </select>
+                </div>
+              </>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="tile-location" className="block text-sm font-medium text-gray-700">
+              Location
+            </label>
+            <div className="mt-1 flex">
+              <select
+                id="tile-location"
+                value={selectedLocation}
+                onChange={(e) => setLocation(e.target.value)}
+                className="block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md"
+              >
+                {freeLocations.map(name => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={handleAddTile}
+                disabled={freeLocations.length === 0}
+                className="ml-2 inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <div className="lg:col-span-3">
+          {tiles.length === 0 ? (
+            <div className="bg-white shadow rounded-lg p-6 text-center">
+              <LayoutGrid className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+              <h3 className="text-lg font-medium text-gray-900">No Cameras</h3>
+              <p className="mt-2 text-gray-600">
+                Add a local camera, video file or network stream to start monitoring.
+              </p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {tiles.map(tile => (
+                <CameraTile
+                  key={tile.id}
+                  tile={tile}
+                  focused={focusedTileId === tile.id}
+                  onToggleFocus={() => setFocusedTileId(prev => (prev === tile.id ? null : tile.id))}
+                  onRemove={() => handleRemoveTile(tile.id)}
+                  onViolations={handleViolations}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <div className="p-4 border-b border-gray-200">
+            <h2 className="text-lg font-medium text-gray-900">Violations</h2>
+          </div>
+          {feed.length === 0 ? (
+            <p className="p-4 text-sm text-gray-500">No violations detected yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 max-h-[70vh] overflow-y-auto">
+              {feed.map(({ tileId, location, violation, inReview, timestamp }) => (
+                <li key={`${tileId}-${violation.id}`} className="px-4 py-3">
+                  <div className="flex justify-between">
+                    <p className="text-sm font-medium text-indigo-600">{violation.vehicleNumber}</p>
+                    <span className="text-xs text-gray-500">{timestamp.toLocaleTimeString()}</span>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {describeViolation(violation)} • {violation.vehicleType}
+                  </p>
+                  <p className="text-xs text-gray-400">{location}</p>
+                  {inReview && (
+                    <Link
+                      to="/admin/review"
+                      className="inline-flex mt-1 px-2 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800"
+                    >
+                      Awaiting review
+                    </Link>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MonitoringWall;
@@ -0,0 +1,329 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, CheckCircle, ClipboardCheck, XCircle } from 'lucide-react';
+import {
+  approveReview,
+  getPendingReviews,
+  rejectReview,
+  REJECTION_REASONS,
+  RejectionReason,
+  ReviewError,
+  ReviewItem,
+} from '../../utils/reviewQueue';
+import EvidenceGallery from '../../components/EvidenceGallery';
+import { describeVehicle } from '../../utils/vehicleAttributes';
+
+// Vehicle types the detector classifies into
+const VEHICLE_TYPES = ['Motorcycle', 'Car', 'Van', 'Bus', 'Truck'];
+
+const REASON_CODES = Object.keys(REJECTION_REASONS) as RejectionReason[];
+
+const ReviewQueue: React.FC = () => {
+  const [items, setItems] = useState<ReviewItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [vehicleNumber, setVehicleNumber] = useState('');
+  const [vehicleType, setVehicleType] = useState('');
+  const [reason, setReason] = useState<RejectionReason>('plate_unreadable');
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const plateInputRef = useRef<HTMLInputElement>(null);
+
+  const selected = items[selectedIndex] || null;
+
+  useEffect(() => {
+    getPendingReviews()
+      .then(setItems)
+      .catch(() => setMessage({ type: 'error', text: 'Failed to load the review queue' }))
+      .finally(() => setLoading(false));
+  }, []);
+
+  // Reset the corrections whenever another item is selected
+  useEffect(() => {
+    setVehicleNumber(selected?.vehicleNumber || '');
+    setVehicleType(selected?.vehicleType || '');
+    setReason('plate_unreadable');
+  }, [selected]);
+
+  const removeSelected = () => {
+    setItems(prev => prev.filter(item => item.id !== selected?.id));
+    setSelectedIndex(prev => Math.max(0, Math.min(prev, items.length - 2)));
+  };
+
+  const handleReviewError = (error: unknown, fallback: string) => {
+    if (!(error instanceof ReviewError)) {
+      setMessage({ type: 'error', text: fallback });
+      return;
+    }
+
+    setMessage({ type: 'error', text: error.message });
+    // Another officer got to it first, so it no longer belongs in the queue
+    if (error.reason === 'not_pending') {
+      removeSelected();
+    }
+  };
+
+  const handleApprove = async () => {
+    if (!selected || isSaving) return;
+
+    if (!vehicleNumber.trim()) {
+      setMessage({ type: 'error', text: 'Enter the plate before approving' });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await approveReview(selected.id, { vehicleNumber: vehicleNumber.trim(), vehicleType });
+      setMessage({ type: 'success', text: `Challan issued for ${vehicleNumber.trim()}` });
+      removeSelected();
+    } catch (error) {
+      handleReviewError(error, 'Failed to issue the challan');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!selected || isSaving) return;
+
+    setIsSaving(true);
+    try {
+      await rejectReview(selected.id, reason);
+      setMessage({ type: 'success', text: `Rejected: ${REJECTION_REASONS[reason]}` });
+      removeSelected();
+    } catch (error) {
+      handleReviewError(error, 'Failed to reject the detection');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Keyboard triage: J/K to move, A to approve, R to reject, 1-5 for the reason, E to edit the plate
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      const isEditing = target.tagName === 'INPUT' || target.tagName === 'SELECT' || target.tagName === 'TEXTAREA';
+
+      if (isEditing) {
+        if (event.key === 'Escape') {
+          target.blur();
+        } else if (event.key === 'Enter' && target === plateInputRef.current) {
+          event.preventDefault();
+          handleApprove();
+        }
+        return;
+      }
+
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+
+      const key = event.key.toLowerCase();
+
+      if (key === 'j' || event.key === 'ArrowDown') {
+        event.preventDefault();
+        setSelectedIndex(prev => Math.min(prev + 1, items.length - 1));
+      } else if (key === 'k' || event.key === 'ArrowUp') {
+        event.preventDefault();
+        setSelectedIndex(prev => Math.max(prev - 1, 0));
+      } else if (key === 'a') {
+        handleApprove();
+      } else if (key === 'r') {
+        handleReject();
+      } else if (key === 'e') {
+        event.preventDefault();
+        plateInputRef.current?.select();
+      } else if (/^[1-9]$/.test(key) && Number(key) <= REASON_CODES.length) {
+        setReason(REASON_CODES[Number(key) - 1]);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const formatTime = (item: ReviewItem) => {
+    return item.createdAt ? item.createdAt.toDate().toLocaleString() : 'Just now';
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-900">Review Queue</h1>
+        <p className="mt-2 text-gray-600">
+          Check low-confidence detections before a challan is issued.
+        </p>
+        <p className="mt-1 text-xs text-gray-500">
+          Shortcuts: <kbd>J</kbd>/<kbd>K</kbd> next/previous, <kbd>E</kbd> edit plate, <kbd>A</kbd> approve,
+          {' '}<kbd>1</kbd>-<kbd>{REASON_CODES.length}</kbd> choose reason, <kbd>R</kbd> reject
+        </p>
+      </div>
+
+      {message && (
+        <div className={`mb-4 border-l-4 p-4 ${message.type === 'success' ? 'bg-green-50 border-green-400' : 'bg-red-50 border-red-400'}`}>
+          <div className="flex">
+            <div className="flex-shrink-0">
+              {message.type === 'success'
+                ? <CheckCircle className="h-5 w-5 text-green-400" />
+                : <AlertTriangle className="h-5 w-5 text-red-400" />}
+            </div>
+            <div className="ml-3">
+              <p className={`text-sm ${message.type === 'success' ? 'text-green-700' : 'text-red-700'}`}>{message.text}</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-indigo-500"></div>
+        </div>
+      ) : items.length === 0 ? (
+        <div className="bg-white shadow rounded-lg p-6 text-center">
+          <ClipboardCheck className="mx-auto h-12 w-12 text-green-500 mb-4" />
+          <h3 className="text-lg font-medium text-gray-900">Nothing to Review</h3>
+          <p className="mt-2 text-gray-600">
+            Every detection has been reviewed.
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-1 bg-white shadow rounded-lg overflow-hidden">
+            <div className="p-4 border-b border-gray-200">
+              <h2 className="text-lg font-medium text-gray-900">Pending ({items.length})</h2>
+            </div>
+            <ul className="divide-y divide-gray-200 max-h-[70vh] overflow-y-auto">
+              {items.map((item, index) => (
+                <li key={item.id}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedIndex(index)}
+                    className={`w-full text-left px-4 py-3 ${index === selectedIndex ? 'bg-indigo-50' : 'hover:bg-gray-50'}`}
+                  >
+                    <div className="flex justify-between">
+                      <p className="text-sm font-medium text-indigo-600">{item.vehicleNumber}</p>
+                      {item.confidence && (
+                        <span className="text-xs text-gray-500">{Math.round(item.confidence.overall * 100)}%</span>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {item.violationType} • {describeVehicle(item)} • {formatTime(item)}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {selected && (
+            <div className="lg:col-span-2 bg-white shadow rounded-lg p-6">
+              <div className="mb-4">
+                <h2 className="text-lg font-medium text-gray-900">{selected.violationType}</h2>
+                <p className="text-sm text-gray-500">
+                  {selected.location} • {formatTime(selected)}
+                  {selected.measuredSpeed !== undefined && ` • ${selected.measuredSpeed} km/h (limit ${selected.speedLimit} km/h)`}
+                </p>
+                {selected.rule && <p className="text-sm text-gray-500">{selected.rule.description}</p>}
+                {(selected.vehicleColour || selected.bodyStyle) && (
+                  <p className="text-sm text-gray-500">
+                    Appearance: {describeVehicle(selected)}
+                  </p>
+                )}
+              </div>
+
+              <div className="mb-6">
+                <EvidenceGallery evidence={selected.evidence} />
+              </div>
+
+              {selected.confidence && (
+                <div className="mb-6 bg-gray-50 rounded-md p-3 grid grid-cols-2 sm:grid-cols-5 gap-2 text-center">
+                  {([
+                    ['Overall', selected.confidence.overall],
+                    ...(selected.confidence.detection !== undefined ? [['Detector', selected.confidence.detection]] : []),
+                    ['OCR', selected.confidence.ocr],
+                    ['Plate Format', selected.confidence.plateFormat],
+                    ['Tracking', selected.confidence.stability],
+                    ...(selected.confidence.helmet !== undefined ? [['No Helmet', selected.confidence.helmet]] : []),
+                  ] as [string, number][]).map(([label, value]) => (
+                    <div key={label}>
+                      <p className="text-xs text-gray-500">{label}</p>
+                      <p className="text-sm font-medium">{Math.round(value * 100)}%</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6">
+                <div>
+                  <label htmlFor="review-plate" className="block text-sm font-medium text-gray-700">
+                    Vehicle Number
+                  </label>
+                  <input
+                    ref={plateInputRef}
+                    id="review-plate"
+                    type="text"
+                    value={vehicleNumber}
+                    onChange={(e) => setVehicleNumber(e.target.value.toUpperCase())}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm font-mono focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="review-vehicle-type" className="block text-sm font-medium text-gray-700">
+                    Vehicle Type
+                  </label>
+                  <select
+                    id="review-vehicle-type"
+                    value={vehicleType}
+                    onChange={(e) => setVehicleType(e.target.value)}
+                    className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md"
+                  >
+                    {VEHICLE_TYPES.map(type => (
+                      <option key={type} value={type}>{type}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+                <button
+                  type="button"
+                  onClick={handleApprove}
+                  disabled={isSaving}
+                  className="inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:opacity-50"
+                >
+                  <CheckCircle className="h-4 w-4 mr-2" />
+                  Approve (A)
+                </button>
+
+                <div className="flex-grow">
+                  <label htmlFor="reject-reason" className="block text-sm font-medium text-gray-700">
+                    Rejection Reason
+                  </label>
+                  <select
+                    id="reject-reason"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value as RejectionReason)}
+                    className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md"
+                  >
+                    {REASON_CODES.map((code, index) => (
+                      <option key={code} value={code}>{index + 1}. {REJECTION_REASONS[code]}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <button
+                  type="button"
+                  onClick={handleReject}
+                  disabled={isSaving}
+                  className="inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50"
+                >
+                  <XCircle className="h-4 w-4 mr-2" />
+                  Reject (R)
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReviewQueue;
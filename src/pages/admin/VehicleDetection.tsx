@@ -1,8 +1,31 @@
 import React, { useState, useRef, useEffect } from 'react';
 import Webcam from 'react-webcam';
-import { Camera, Upload, Play, Pause, AlertTriangle, CheckCircle, Truck, Car, Recycle as Motorcycle } from 'lucide-react';
-import { processVehicleFrame } from '../../utils/numberPlateDetection';
-import { detectVehicles } from '../../utils/vehicleDetection';
+import { Camera, Upload, Play, Pause, AlertTriangle, CheckCircle, Truck, Car, Recycle as Motorcycle, Circle, ShieldAlert } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { PipelineViolation, TrackAnnotation } from '../../utils/detectionPipeline';
+import { getMotionAlgorithmsInWorker, getVisionPool } from '../../utils/visionWorkers';
+import { WorkerPoolMetrics } from '../../utils/workerPool';
+import { getVisionReadiness, subscribeVisionReadiness, VisionAsset, VisionReadiness } from '../../utils/visionAssets';
+import { CameraConfig, DetectionMode, DetectorBackend, getCameraConfig, getDefaultCameraConfig, saveCameraConfig } from '../../utils/cameraConfig';
+import { MotionAlgorithm } from '../../utils/motionDetection';
+import { getAllPreprocessingModes, getPreprocessingLabel, PreprocessingMode } from '../../utils/preprocessing';
+import { ZoneConfig } from '../../utils/zoneGeometry';
+import ZoneEditor from '../../components/ZoneEditor';
+import VideoAnalysisPanel from '../../components/VideoAnalysisPanel';
+import CalibrationWizard, { CalibrationFrame } from '../../components/CalibrationWizard';
+import { CameraCalibration } from '../../utils/calibration';
+import { measureLineDistance, SpeedLine } from '../../utils/speedEstimation';
+import SpeedTrapEditor from '../../components/SpeedTrapEditor';
+import DetectionOverlay from '../../components/DetectionOverlay';
+import { isClipRecordingSupported } from '../../utils/clipRecorder';
+import { useCameraDetection } from '../../hooks/useCameraDetection';
+import { HELMET_MODEL_MISSING_MESSAGE, isHelmetModelAvailable } from '../../utils/helmetDetection';
+import { ReviewThresholds } from '../../utils/confidence';
+import { getAllLocations, getAllZoneCategories, getRestrictedVehicleTypes, getZoneCategoryLabel, ZoneCategory } from '../../utils/zoneRules';
+import { describeViolation } from '../../utils/challanUtils';
+import { BodyStyle, describeVehicle, VehicleColour } from '../../utils/vehicleAttributes';
+import { matchWatchlist, recordWatchlistHit, subscribeWatchlist, WatchlistEntry } from '../../utils/watchlist';
+import { captureFrame } from '../../utils/evidence';
 
 interface DetectionResult {
   vehicleNumber: string;
@@ -19,6 +42,13 @@ interface VehicleViolation {
   id: string;
   vehicleNumber: string;
   vehicleType: string;
+  violationType: string;
+  measuredSpeed?: number;
+  rule?: string;
+  vehicleColour?: VehicleColour;
+  bodyStyle?: BodyStyle;
+  /** Sent to the review queue rather than issued */
+  inReview: boolean;
   timestamp: Date;
   location: string;
   imageUrl?: string;
@@ -29,23 +59,64 @@ interface VehicleViolation {
   };
 }
 
+interface WatchlistAlert {
+  key: string;
+  watchedNumber: string;
+  readNumber: string;
+  /** Edit distance between the two; 0 for an exact match */
+  distance: number;
+  reason: string;
+  location: string;
+  at: Date;
+  /** Object URL of the frame the vehicle was seen in */
+  frameUrl: string | null;
+}
+
+// A listed vehicle that stays in view is alerted on again after this long
+const WATCHLIST_ALERT_COOLDOWN_MS = 60000;
+
 const VehicleDetection: React.FC = () => {
   const webcamRef = useRef<Webcam>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const [isWebcamActive, setIsWebcamActive] = useState(false);
-  const [isProcessing, setIsProcessing] = useState(false);
   const [uploadedVideo, setUploadedVideo] = useState<File | null>(null);
   const [isVideoPlaying, setIsVideoPlaying] = useState(false);
   const [detectionResults, setDetectionResults] = useState<DetectionResult | null>(null);
   const [violations, setViolations] = useState<VehicleViolation[]>([]);
   const [processingMessage, setProcessingMessage] = useState('');
-  const [location, setLocation] = useState('Main Street No-Entry Zone');
+  const [location, setLocation] = useState(getAllLocations()[0]);
   const [showSuccessAlert, setShowSuccessAlert] = useState(false);
   const [showErrorAlert, setShowErrorAlert] = useState(false);
   const [errorMessage, setErrorMessage] = useState('');
   const [cameraPermission, setCameraPermission] = useState<boolean>(false);
   const [processingInterval, setProcessingInterval] = useState<NodeJS.Timeout | null>(null);
+  const [cameraConfig, setCameraConfig] = useState<CameraConfig>(getDefaultCameraConfig(location));
+  const [isEditingZone, setIsEditingZone] = useState(false);
+  const [zoneDraft, setZoneDraft] = useState<ZoneConfig | null>(null);
+  const [poolMetrics, setPoolMetrics] = useState<WorkerPoolMetrics | null>(null);
+  const [visionReadiness, setVisionReadiness] = useState<VisionReadiness>(getVisionReadiness());
+  const [calibrationFrame, setCalibrationFrame] = useState<CalibrationFrame | null>(null);
+  const [isEditingSpeedTrap, setIsEditingSpeedTrap] = useState(false);
+  const [speedLinesDraft, setSpeedLinesDraft] = useState<SpeedLine[]>([]);
+  const [speedDistanceDraft, setSpeedDistanceDraft] = useState('');
+  const [speedLimitDraft, setSpeedLimitDraft] = useState('');
+  const watchlistRef = useRef<WatchlistEntry[]>([]);
+  // Last alert for each watchlist entry, by entry ID
+  const watchlistAlertedRef = useRef(new Map<string, number>());
+  const [watchlistAlerts, setWatchlistAlerts] = useState<WatchlistAlert[]>([]);
+  // Background models the workers' OpenCV build provides; null until they have reported
+  const [motionAlgorithms, setMotionAlgorithms] = useState<MotionAlgorithm[] | null>(null);
+  // Whether a helmet model is installed; null until checked
+  const [helmetModelAvailable, setHelmetModelAvailable] = useState<boolean | null>(null);
+  // Jobs are grouped by location, which the pool is cancelled by when the camera stops
+  const detection = useCameraDetection({
+    cameraConfig,
+    workerKey: cameraConfig.location,
+    getMedia: () => (isWebcamActive ? webcamRef.current?.video : videoRef.current) || null,
+    feed: isWebcamActive ? 'webcam' : uploadedVideo,
+  });
+  const { detectorStatus, overlayFrame, isProcessing, skippedFrames, lastFrameMs, isRecordingSession } = detection;
   
   useEffect(() => {
     if (navigator.mediaDevices && navigator.mediaDevices.getUserMedia) {
@@ -57,17 +128,246 @@ const VehicleDetection: React.FC = () => {
         });
     }
     
+    const unsubscribe = getVisionPool().subscribe(setPoolMetrics);
+    getMotionAlgorithmsInWorker()
+      .then(setMotionAlgorithms)
+      .catch((error) => console.error('Error getting motion algorithms:', error));
+    isHelmetModelAvailable().then(setHelmetModelAvailable);
+    const unsubscribeReadiness = subscribeVisionReadiness(setVisionReadiness);
+    const unsubscribeWatchlist = subscribeWatchlist((entries) => {
+      watchlistRef.current = entries;
+    });
+    
     return () => {
       if (processingInterval) {
         clearInterval(processingInterval);
       }
+      unsubscribe();
+      unsubscribeReadiness();
+      unsubscribeWatchlist();
     };
   }, []);
 
-  const processFrame = async (imageSource: HTMLVideoElement | HTMLCanvasElement) => {
-    setIsProcessing(true);
-    setProcessingMessage('Processing frame...');
+  useEffect(() => {
+    let cancelled = false;
+    setIsEditingZone(false);
+    setIsEditingSpeedTrap(false);
+    
+    getCameraConfig(location)
+      .then((config) => {
+        if (!cancelled) setCameraConfig(config);
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setCameraConfig(getDefaultCameraConfig(location));
+          setErrorMessage('Failed to load camera configuration');
+          setShowErrorAlert(true);
+        }
+      });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [location]);
+
+  useEffect(() => {
+    if (detection.detectorError) {
+      setErrorMessage(detection.detectorError);
+      setShowErrorAlert(true);
+    }
+  }, [detection.detectorError]);
+
+  useEffect(() => {
+    if (detection.helmetError) {
+      setErrorMessage(detection.helmetError);
+      setShowErrorAlert(true);
+    }
+  }, [detection.helmetError]);
+
+  const updateCameraConfig = async (changes: Partial<CameraConfig>): Promise<boolean> => {
+    try {
+      const config = { ...cameraConfig, ...changes };
+      // An algorithm the OpenCV build lacks runs as MOG2, so it is saved as MOG2
+      if (motionAlgorithms && !motionAlgorithms.includes(config.motionAlgorithm)) {
+        config.motionAlgorithm = 'mog2';
+      }
+      await saveCameraConfig(config);
+      setCameraConfig(config);
+      return true;
+    } catch (error) {
+      console.error('Error saving camera config:', error);
+      setErrorMessage('Failed to save camera configuration');
+      setShowErrorAlert(true);
+      return false;
+    }
+  };
+
+  const handleEditZone = () => {
+    setZoneDraft(cameraConfig.zone);
+    setIsEditingZone(true);
+  };
+
+  const handleSaveZone = async () => {
+    const zone = zoneDraft && zoneDraft.polygon.length >= 3 ? zoneDraft : null;
+    
+    if (zoneDraft && zoneDraft.polygon.length > 0 && !zone) {
+      setErrorMessage('A no-entry zone needs at least three points');
+      setShowErrorAlert(true);
+      return;
+    }
+    
+    if (await updateCameraConfig({ zone })) {
+      setIsEditingZone(false);
+      setShowSuccessAlert(true);
+      setTimeout(() => setShowSuccessAlert(false), 3000);
+    }
+  };
+
+  const handleEditSpeedTrap = () => {
+    const trap = cameraConfig.speedTrap;
+    setSpeedLinesDraft(trap ? [...trap.lines] : []);
+    setSpeedDistanceDraft(trap ? String(trap.distance) : '');
+    setSpeedLimitDraft(trap?.speedLimit ? String(trap.speedLimit) : '');
+    setIsEditingZone(false);
+    setIsEditingSpeedTrap(true);
+  };
+
+  const handleSpeedLinesChange = (lines: SpeedLine[]) => {
+    setSpeedLinesDraft(lines);
+    
+    // With a ground-plane calibration the distance between the lines can be measured rather than entered
+    const distance = lines.length === 2 ? measureLineDistance([lines[0], lines[1]], cameraConfig.calibration) : null;
+    if (distance !== null) {
+      setSpeedDistanceDraft(distance.toFixed(1));
+    }
+  };
+
+  const handleSaveSpeedTrap = async () => {
+    const distance = Number(speedDistanceDraft);
+    const speedLimit = speedLimitDraft.trim() ? Number(speedLimitDraft) : null;
+    
+    if (speedLinesDraft.length === 1) {
+      setErrorMessage('A speed trap needs two lines');
+      setShowErrorAlert(true);
+      return;
+    }
+    
+    if (speedLinesDraft.length === 2 && (!(distance > 0) || (speedLimit !== null && !(speedLimit > 0)))) {
+      setErrorMessage('Enter the distance between the lines and a valid speed limit');
+      setShowErrorAlert(true);
+      return;
+    }
+    
+    const speedTrap = speedLinesDraft.length === 2
+      ? { lines: [speedLinesDraft[0], speedLinesDraft[1]] as [SpeedLine, SpeedLine], distance, speedLimit }
+      : null;
+    
+    if (await updateCameraConfig({ speedTrap })) {
+      setIsEditingSpeedTrap(false);
+      setShowSuccessAlert(true);
+      setTimeout(() => setShowSuccessAlert(false), 3000);
+    }
+  };
+
+  const handleThresholdChange = (key: keyof ReviewThresholds, value: string) => {
+    const percent = Number(value);
+    if (value === '' || !(percent >= 0 && percent <= 100)) {
+      return;
+    }
+    
+    const reviewThresholds = { ...cameraConfig.reviewThresholds, [key]: percent / 100 };
+    if (reviewThresholds.review > reviewThresholds.autoIssue) {
+      setErrorMessage('The review threshold cannot be above the auto-issue threshold');
+      setShowErrorAlert(true);
+      return;
+    }
     
+    updateCameraConfig({ reviewThresholds });
+  };
+
+  const handleClipSettingsChange = (changes: Partial<CameraConfig['clipSettings']>) => {
+    if (changes.seconds !== undefined && !(changes.seconds >= 1 && changes.seconds <= 30)) {
+      setErrorMessage('Clip length must be between 1 and 30 seconds');
+      setShowErrorAlert(true);
+      return;
+    }
+    
+    updateCameraConfig({ clipSettings: { ...cameraConfig.clipSettings, ...changes } });
+  };
+
+  const toggleSessionRecording = async () => {
+    if (!await detection.toggleSessionRecording(location)) {
+      setErrorMessage('Recording is not supported in this browser');
+      setShowErrorAlert(true);
+    }
+  };
+
+  const handleStartCalibration = () => {
+    const video = isWebcamActive ? webcamRef.current?.video : videoRef.current;
+    
+    if (!video || !video.videoWidth) {
+      setErrorMessage('Start the camera or load a video to calibrate');
+      setShowErrorAlert(true);
+      return;
+    }
+    
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0);
+    
+    setCalibrationFrame({ url: canvas.toDataURL('image/jpeg'), width: canvas.width, height: canvas.height });
+  };
+
+  const handleSaveCalibration = async (calibration: CameraCalibration) => {
+    if (await updateCameraConfig({ calibration })) {
+      setCalibrationFrame(null);
+      setShowSuccessAlert(true);
+      setTimeout(() => setShowSuccessAlert(false), 3000);
+    }
+  };
+
+  /**
+   * Check the agreed plates of a frame's tracks against the watchlist and alert on any listed vehicle
+   * @param frame Canvas containing the frame
+   * @param annotations Tracks seen in the frame
+   * @param at Frame time in ms since the epoch
+   */
+  const checkWatchlist = async (frame: HTMLCanvasElement, annotations: TrackAnnotation[], at: number) => {
+    for (const { vehicleNumber } of annotations) {
+      const match = vehicleNumber ? matchWatchlist(vehicleNumber, watchlistRef.current, new Date(at)) : null;
+      const lastAlertAt = match ? watchlistAlertedRef.current.get(match.entry.id) : undefined;
+      
+      if (!match || !vehicleNumber || (lastAlertAt !== undefined && at - lastAlertAt < WATCHLIST_ALERT_COOLDOWN_MS)) {
+        continue;
+      }
+      
+      watchlistAlertedRef.current.set(match.entry.id, at);
+      const image = await captureFrame(frame, location, new Date(at)).catch(() => null);
+      
+      setWatchlistAlerts(prev => [{
+        key: `${match.entry.id}-${at}`,
+        watchedNumber: match.entry.vehicleNumber,
+        readNumber: vehicleNumber,
+        distance: match.distance,
+        reason: match.entry.reason,
+        location,
+        at: new Date(at),
+        frameUrl: image ? URL.createObjectURL(image) : null,
+      }, ...prev]);
+      
+      recordWatchlistHit(match, vehicleNumber, location, image);
+    }
+  };
+
+  const dismissWatchlistAlert = (alert: WatchlistAlert) => {
+    if (alert.frameUrl) {
+      URL.revokeObjectURL(alert.frameUrl);
+    }
+    setWatchlistAlerts(prev => prev.filter(a => a.key !== alert.key));
+  };
+
+  const processFrame = async (imageSource: HTMLVideoElement | HTMLCanvasElement) => {
     try {
       const canvas = document.createElement('canvas');
       canvas.width = imageSource.videoWidth || imageSource.width;
@@ -79,74 +379,54 @@ const VehicleDetection: React.FC = () => {
       }
       
       ctx.drawImage(imageSource, 0, 0);
-      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
       
-      setProcessingMessage('Detecting vehicles...');
-      const vehicles = await detectVehicles(imageSource);
-      
-      if (vehicles.length === 0) {
-        setProcessingMessage('No vehicles detected');
-        setIsProcessing(false);
+      setProcessingMessage('Detecting and tracking vehicles...');
+      const processed = await detection.processFrame(canvas);
+      if (!processed) {
         return;
       }
       
-      setProcessingMessage('Processing detected vehicles...');
+      const { result, raised, capturedAt } = processed;
+      // Not awaited: a frame is not held up while a sighting is captured and logged
+      checkWatchlist(canvas, result.annotations, capturedAt);
       
-      const cameraParams = {
-        focalLength: 35,
-        sensorWidth: 23.5,
-        distance: 10000
-      };
+      if (result.vehicleCount === 0) {
+        setProcessingMessage('No vehicles detected');
+        return;
+      }
       
-      for (const vehicle of vehicles) {
-        const vehicleCanvas = document.createElement('canvas');
-        vehicleCanvas.width = vehicle.width;
-        vehicleCanvas.height = vehicle.height;
-        const vehicleCtx = vehicleCanvas.getContext('2d');
+      for (const { violation, inReview } of raised) {
+        setDetectionResults({
+          vehicleNumber: violation.vehicleNumber,
+          vehicleType: violation.vehicleType,
+          dimensions: violation.dimensions,
+          confidence: violation.confidence?.overall ?? 0
+        });
         
-        if (vehicleCtx) {
-          vehicleCtx.putImageData(
-            ctx.getImageData(vehicle.x, vehicle.y, vehicle.width, vehicle.height),
-            0,
-            0
-          );
-          
-          const result = await processVehicleFrame(
-            vehicleCtx.getImageData(0, 0, vehicle.width, vehicle.height),
-            location,
-            cameraParams
-          );
-          
-          if (result) {
-            setDetectionResults({
-              vehicleNumber: result.vehicleNumber,
-              vehicleType: result.vehicleType,
-              dimensions: result.dimensions,
-              confidence: 0.95
-            });
-            
-            const newViolation = {
-              id: result.id,
-              vehicleNumber: result.vehicleNumber,
-              vehicleType: result.vehicleType,
-              timestamp: new Date(),
-              location: location,
-              dimensions: result.dimensions
-            };
-            
-            setViolations(prev => [newViolation, ...prev]);
-            setShowSuccessAlert(true);
-            setTimeout(() => setShowSuccessAlert(false), 3000);
-          }
-        }
+        const newViolation = {
+          id: violation.id,
+          inReview,
+          vehicleNumber: violation.vehicleNumber,
+          vehicleType: violation.vehicleType,
+          violationType: violation.violationType,
+          measuredSpeed: violation.measuredSpeed,
+          rule: violation.rule?.description,
+          vehicleColour: violation.vehicleColour,
+          bodyStyle: violation.bodyStyle,
+          timestamp: new Date(),
+          location: location,
+          imageUrl: violation.evidence?.frame.url,
+          dimensions: violation.dimensions
+        };
+        
+        setViolations(prev => [newViolation, ...prev]);
+        setShowSuccessAlert(true);
+        setTimeout(() => setShowSuccessAlert(false), 3000);
       }
     } catch (error) {
       console.error('Error processing frame:', error);
       setErrorMessage('Error processing video frame');
       setShowErrorAlert(true);
-    } finally {
-      setIsProcessing(false);
-      setProcessingMessage('');
     }
   };
 
@@ -160,6 +440,7 @@ const VehicleDetection: React.FC = () => {
     if (isWebcamActive && processingInterval) {
       clearInterval(processingInterval);
       setProcessingInterval(null);
+      getVisionPool().cancel(cameraConfig.location);
     } else if (!isWebcamActive && webcamRef.current) {
       const interval = setInterval(() => {
         if (webcamRef.current) {
@@ -220,42 +501,30 @@ const VehicleDetection: React.FC = () => {
     }
   };
 
-  const handleGenerateChallan = async (violation: VehicleViolation) => {
-    try {
-      let amount = 0;
-      switch (violation.vehicleType) {
-        case 'Car':
-          amount = 500;
-          break;
-        case 'Truck':
-          amount = 1000;
-          break;
-        case 'Bus':
-          amount = 800;
-          break;
-        case 'Motorcycle':
-          amount = 300;
-          break;
-        case 'Van':
-          amount = 600;
-          break;
-        default:
-          amount = 500;
-      }
-      
-      amount += Math.floor(Math.random() * 200);
-      
-      setShowSuccessAlert(true);
-      setTimeout(() => setShowSuccessAlert(false), 3000);
-      
-      setViolations(prev => prev.filter(v => v.id !== violation.id));
-      
-    } catch (error) {
-      console.error('Error generating challan:', error);
-      setErrorMessage('Failed to generate challan. Please try again.');
-      setShowErrorAlert(true);
-      setTimeout(() => setShowErrorAlert(false), 3000);
-    }
+  const handleBatchViolations = (recorded: PipelineViolation[], reviews: PipelineViolation[]) => {
+    const raised = [
+      ...recorded.map(violation => ({ violation, inReview: false })),
+      ...reviews.map(violation => ({ violation, inReview: true })),
+    ];
+    const newViolations = raised.map(({ violation, inReview }) => ({
+      id: violation.id,
+      inReview,
+      vehicleNumber: violation.vehicleNumber,
+      vehicleType: violation.vehicleType,
+      violationType: violation.violationType,
+      measuredSpeed: violation.measuredSpeed,
+      rule: violation.rule?.description,
+      vehicleColour: violation.vehicleColour,
+      bodyStyle: violation.bodyStyle,
+      timestamp: new Date(),
+      location: location,
+      imageUrl: violation.evidence?.frame.url,
+      dimensions: violation.dimensions
+    }));
+    
+    setViolations(prev => [...newViolations, ...prev]);
+    setShowSuccessAlert(true);
+    setTimeout(() => setShowSuccessAlert(false), 3000);
   };
 
   useEffect(() => {
@@ -281,6 +550,40 @@ const VehicleDetection: React.FC = () => {
         </p>
       </div>
       
+      {watchlistAlerts.map((alert) => (
+        <div key={alert.key} className="mb-4 bg-red-600 text-white rounded-lg shadow-lg p-4">
+          <div className="flex items-start">
+            <ShieldAlert className="h-8 w-8 flex-shrink-0" />
+            <div className="ml-3 flex-grow">
+              <p className="text-lg font-bold">
+                Watchlisted vehicle: <span className="font-mono">{alert.watchedNumber}</span>
+              </p>
+              <p className="text-sm">
+                {alert.distance === 0 ? 'Exact match' : `Possible match, read as ${alert.readNumber}`}
+                {' '}at {alert.location}, {alert.at.toLocaleTimeString()}
+              </p>
+              {alert.reason && <p className="text-sm font-medium">{alert.reason}</p>}
+            </div>
+            {alert.frameUrl && (
+              <a href={alert.frameUrl} target="_blank" rel="noopener noreferrer" className="ml-3 flex-shrink-0">
+                <img
+                  src={alert.frameUrl}
+                  alt={`Sighting of ${alert.watchedNumber}`}
+                  className="h-20 w-32 object-cover rounded border-2 border-white"
+                />
+              </a>
+            )}
+            <button
+              type="button"
+              onClick={() => dismissWatchlistAlert(alert)}
+              className="ml-3 px-3 py-1 text-sm font-medium rounded-md bg-white text-red-700 hover:bg-red-50"
+            >
+              Dismiss
+            </button>
+          </div>
+        </div>
+      ))}
+      
       {showSuccessAlert && (
         <div className="mb-4 bg-green-50 border-l-4 border-green-400 p-4">
           <div className="flex">
@@ -333,6 +636,21 @@ const VehicleDetection: React.FC = () => {
                     {isWebcamActive ? 'Stop Camera' : 'Start Camera'}
                   </button>
                   
+                  {(isWebcamActive || uploadedVideo) && (
+                    <button
+                      type="button"
+                      onClick={toggleSessionRecording}
+                      className={`inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md ${
+                        isRecordingSession
+                          ? 'text-white bg-red-600 hover:bg-red-700'
+                          : 'text-gray-700 bg-gray-100 hover:bg-gray-200'
+                      } focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500`}
+                    >
+                      <Circle className={`h-4 w-4 mr-2 ${isRecordingSession ? 'fill-current animate-pulse' : ''}`} />
+                      {isRecordingSession ? 'Stop Recording' : 'Record Session'}
+                    </button>
+                  )}
+                  
                   {isWebcamActive && (
                     <button
                       type="button"
@@ -371,17 +689,38 @@ const VehicleDetection: React.FC = () => {
                     </p>
                   </div>
                 ) : isWebcamActive ? (
-                  <Webcam
-                    audio={false}
-                    ref={webcamRef}
-                    screenshotFormat="video/webm"
-                    className="w-full h-full object-cover"
-                    videoConstraints={{
-                      width: 1280,
-                      height: 720,
-                      facingMode: "environment"
-                    }}
-                  />
+                  <>
+                    <Webcam
+                      audio={false}
+                      ref={webcamRef}
+                      screenshotFormat="video/webm"
+                      className="w-full h-auto"
+                      videoConstraints={{
+                        width: 1280,
+                        height: 720,
+                        facingMode: "environment"
+                      }}
+                    />
+                    <DetectionOverlay
+                      frame={overlayFrame}
+                      zone={isEditingZone ? null : cameraConfig.zone}
+                      getMediaElement={() => webcamRef.current?.video || null}
+                    />
+                    {isEditingZone && (
+                      <ZoneEditor
+                        zone={zoneDraft}
+                        editing={isEditingZone}
+                        getMediaElement={() => webcamRef.current?.video || null}
+                        onChange={setZoneDraft}
+                      />
+                    )}
+                    <SpeedTrapEditor
+                      lines={isEditingSpeedTrap ? speedLinesDraft : cameraConfig.speedTrap?.lines || []}
+                      editing={isEditingSpeedTrap}
+                      getMediaElement={() => webcamRef.current?.video || null}
+                      onChange={handleSpeedLinesChange}
+                    />
+                  </>
                 ) : (
                   <div className="flex flex-col items-center justify-center h-full py-12">
                     <Camera className="h-16 w-16 text-gray-400 mb-4" />
@@ -418,13 +757,378 @@ const VehicleDetection: React.FC = () => {
                   value={location}
                   onChange={(e) => setLocation(e.target.value)}
                 >
-                  <option value="Main Street No-Entry Zone">Main Street No-Entry Zone</option>
-                  <option value="Downtown Restricted Area">Downtown Restricted Area</option>
-                  <option value="School Zone">School Zone</option>
-                  <option value="Hospital Area">Hospital Area</option>
-                  <option value="One-Way Street">One-Way Street</option>
+                  {getAllLocations().map((name) => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                </select>
+              </div>
+              
+              <div className="mt-4">
+                <label htmlFor="zone-category" className="block text-sm font-medium text-gray-700">
+                  Zone Rules
+                </label>
+                <select
+                  id="zone-category"
+                  name="zone-category"
+                  className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md"
+                  value={cameraConfig.zoneCategory || ''}
+                  onChange={(e) => updateCameraConfig({ zoneCategory: (e.target.value || null) as ZoneCategory | null })}
+                >
+                  <option value="">None (every entry is a violation)</option>
+                  {getAllZoneCategories().map(category => (
+                    <option key={category} value={category}>{getZoneCategoryLabel(category)}</option>
+                  ))}
                 </select>
+                {cameraConfig.zoneCategory && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    Restricted now: {getRestrictedVehicleTypes(cameraConfig.zoneCategory, new Date()).join(', ') || 'no vehicle types'}
+                  </p>
+                )}
+              </div>
+              
+              <div className="mt-4 grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div>
+                  <label htmlFor="detector-backend" className="block text-sm font-medium text-gray-700">
+                    Detector
+                    <span className="ml-2 text-xs text-gray-500">
+                      {detectorStatus === 'loading' ? 'Loading...' : detectorStatus === 'error' ? 'Failed to load' : 'Ready'}
+                    </span>
+                  </label>
+                  <select
+                    id="detector-backend"
+                    name="detector-backend"
+                    className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md"
+                    value={cameraConfig.detectorBackend}
+                    onChange={(e) => updateCameraConfig({ detectorBackend: e.target.value as DetectorBackend })}
+                  >
+                    <option value="opencv">OpenCV Heuristic</option>
+                    <option value="tfjs">TF.js Object Detection</option>
+                  </select>
+                </div>
+                
+                {cameraConfig.detectorBackend === 'opencv' && (
+                  <div>
+                    <label htmlFor="detection-mode" className="block text-sm font-medium text-gray-700">
+                      Detection Mode
+                    </label>
+                    <select
+                      id="detection-mode"
+                      name="detection-mode"
+                      className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md"
+                      value={cameraConfig.detectionMode}
+                      onChange={(e) => updateCameraConfig({ detectionMode: e.target.value as DetectionMode })}
+                    >
+                      <option value="contour">Edge Contours (single frame)</option>
+                      <option value="motion">Motion (static camera)</option>
+                    </select>
+                  </div>
+                )}
+                
+                {cameraConfig.detectorBackend === 'opencv' && cameraConfig.detectionMode === 'motion' && (
+                  <div>
+                    <label htmlFor="motion-algorithm" className="block text-sm font-medium text-gray-700">
+                      Background Model
+                    </label>
+                    <select
+                      id="motion-algorithm"
+                      name="motion-algorithm"
+                      className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md"
+                      value={motionAlgorithms?.includes(cameraConfig.motionAlgorithm) ? cameraConfig.motionAlgorithm : 'mog2'}
+                      onChange={(e) => updateCameraConfig({ motionAlgorithm: e.target.value as MotionAlgorithm })}
+                    >
+                      <option value="mog2">MOG2</option>
+                      {motionAlgorithms?.includes('knn') && <option value="knn">KNN</option>}
+                    </select>
+                  </div>
+                )}
+              </div>
+              
+              <div className="mt-4">
+                <label htmlFor="preprocessing" className="block text-sm font-medium text-gray-700">
+                  Lighting and Weather
+                </label>
+                <select
+                  id="preprocessing"
+                  name="preprocessing"
+                  className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md"
+                  value={cameraConfig.preprocessing}
+                  onChange={(e) => updateCameraConfig({ preprocessing: e.target.value as PreprocessingMode })}
+                >
+                  {getAllPreprocessingModes().map(mode => (
+                    <option key={mode} value={mode}>{getPreprocessingLabel(mode)}</option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500">
+                  {cameraConfig.preprocessing === 'auto'
+                    ? 'Chosen for each frame from its brightness and contrast'
+                    : 'Applied before plate reading and edge-contour detection'}
+                </p>
+              </div>
+              
+              <div className="mt-4">
+                <label className="inline-flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={cameraConfig.helmetDetection}
+                    onChange={(e) => updateCameraConfig({ helmetDetection: e.target.checked })}
+                    // Left enabled while on, so a camera switched on before the model went missing can be switched off
+                    disabled={helmetModelAvailable === false && !cameraConfig.helmetDetection}
+                    className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500 disabled:opacity-50"
+                  />
+                  <span className="ml-2">Check motorcycle riders for helmets</span>
+                </label>
+                {helmetModelAvailable === false && (
+                  <p className="mt-1 text-xs text-red-600">{HELMET_MODEL_MISSING_MESSAGE}</p>
+                )}
+              </div>
+              
+              <div className="mt-4 grid grid-cols-1 sm:grid-cols-3 gap-4">
+                {(['opencv', 'tesseract', 'model', 'helmetModel'] as VisionAsset[])
+                  .filter(asset => asset !== 'model' || cameraConfig.detectorBackend === 'tfjs')
+                  .filter(asset => asset !== 'helmetModel' || cameraConfig.helmetDetection)
+                  .map((asset) => {
+                    const state = visionReadiness[asset];
+                    return (
+                      <div key={asset}>
+                        <div className="flex justify-between text-xs text-gray-500">
+                          <span>{asset === 'opencv' ? 'OpenCV' : asset === 'tesseract' ? 'Tesseract OCR' : asset === 'model' ? 'Detection Model' : 'Helmet Model'}</span>
+                          <span className={state.status === 'error' ? 'text-red-600' : state.status === 'ready' ? 'text-green-600' : ''}>
+                            {state.status === 'loading' ? `${Math.round(state.progress * 100)}%` : state.status === 'ready' ? 'Ready' : state.status === 'error' ? 'Failed' : 'Not loaded'}
+                          </span>
+                        </div>
+                        <div className="mt-1 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                          <div
+                            className={`h-full ${state.status === 'error' ? 'bg-red-500' : 'bg-indigo-600'}`}
+                            style={{ width: `${Math.round(state.progress * 100)}%` }}
+                          />
+                        </div>
+                        {state.error && <p className="mt-1 text-xs text-red-600">{state.error}</p>}
+                      </div>
+                    );
+                  })}
+              </div>
+              
+              <div className="mt-4 flex justify-between items-center">
+                <p className="text-sm text-gray-500">
+                  {cameraConfig.zone
+                    ? `No-entry zone configured (${cameraConfig.zone.polygon.length} points${cameraConfig.zone.entryLine ? ', entry line' : ''})`
+                    : cameraConfig.speedTrap
+                    ? 'No zone configured: only speeding is enforced'
+                    : 'No zone configured: every detected vehicle is treated as a violation'}
+                </p>
+                {isEditingZone ? (
+                  <div className="flex space-x-2">
+                    <button
+                      type="button"
+                      onClick={() => setIsEditingZone(false)}
+                      className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleSaveZone}
+                      className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                    >
+                      Save Zone
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={handleEditZone}
+                    disabled={!isWebcamActive || isEditingSpeedTrap}
+                    className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+                  >
+                    Edit Zone
+                  </button>
+                )}
+              </div>
+              
+              <div className="mt-4 flex justify-between items-center">
+                <p className="text-sm text-gray-500">
+                  {cameraConfig.speedTrap
+                    ? `Speed trap: lines ${cameraConfig.speedTrap.distance} m apart, ${cameraConfig.speedTrap.speedLimit ? `${cameraConfig.speedTrap.speedLimit} km/h limit` : 'vehicle type limits'}`
+                    : 'No speed trap: speeds are not measured'}
+                </p>
+                {isEditingSpeedTrap ? (
+                  <div className="flex space-x-2">
+                    <button
+                      type="button"
+                      onClick={() => setIsEditingSpeedTrap(false)}
+                      className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleSaveSpeedTrap}
+                      className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                    >
+                      Save Speed Trap
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={handleEditSpeedTrap}
+                    disabled={!isWebcamActive || isEditingZone}
+                    className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+                  >
+                    Edit Speed Trap
+                  </button>
+                )}
               </div>
+              
+              {isEditingSpeedTrap && (
+                <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="speed-distance" className="block text-sm font-medium text-gray-700">
+                      Distance between lines (metres)
+                    </label>
+                    <input
+                      id="speed-distance"
+                      type="number"
+                      min="0"
+                      step="0.1"
+                      value={speedDistanceDraft}
+                      onChange={(e) => setSpeedDistanceDraft(e.target.value)}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="speed-limit" className="block text-sm font-medium text-gray-700">
+                      Speed limit (km/h, optional)
+                    </label>
+                    <input
+                      id="speed-limit"
+                      type="number"
+                      min="0"
+                      step="1"
+                      placeholder="Vehicle type limits"
+                      value={speedLimitDraft}
+                      onChange={(e) => setSpeedLimitDraft(e.target.value)}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                    />
+                  </div>
+                </div>
+              )}
+              
+              <div className="mt-4 flex justify-between items-center">
+                <p className="text-sm text-gray-500">
+                  {cameraConfig.calibration?.groundPlane
+                    ? 'Calibrated by ground plane: vehicles are measured in perspective'
+                    : cameraConfig.calibration
+                    ? `Calibrated by ${cameraConfig.calibration.method === 'lane' ? 'lane width' : 'reference object'}: ${(cameraConfig.calibration.metresPerPixel * 100).toFixed(2)} cm per pixel`
+                    : 'Camera not calibrated: vehicle dimensions are rough estimates'}
+                </p>
+                <button
+                  type="button"
+                  onClick={handleStartCalibration}
+                  disabled={!isWebcamActive && !uploadedVideo}
+                  className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+                >
+                  {cameraConfig.calibration ? 'Recalibrate' : 'Calibrate'}
+                </button>
+              </div>
+              
+              <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="auto-issue-threshold" className="block text-sm font-medium text-gray-700">
+                    Auto-issue at confidence (%)
+                  </label>
+                  <input
+                    key={`auto-${cameraConfig.location}-${cameraConfig.reviewThresholds.autoIssue}`}
+                    id="auto-issue-threshold"
+                    type="number"
+                    min="0"
+                    max="100"
+                    defaultValue={Math.round(cameraConfig.reviewThresholds.autoIssue * 100)}
+                    onBlur={(e) => handleThresholdChange('autoIssue', e.target.value)}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="review-threshold" className="block text-sm font-medium text-gray-700">
+                    Send to review at confidence (%)
+                  </label>
+                  <input
+                    key={`review-${cameraConfig.location}-${cameraConfig.reviewThresholds.review}`}
+                    id="review-threshold"
+                    type="number"
+                    min="0"
+                    max="100"
+                    defaultValue={Math.round(cameraConfig.reviewThresholds.review * 100)}
+                    onBlur={(e) => handleThresholdChange('review', e.target.value)}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">Detections below this are discarded</p>
+                </div>
+              </div>
+              
+              <div className="mt-4">
+                <h3 className="text-sm font-medium text-gray-700">Evidence Clips</h3>
+                <div className="mt-2 flex flex-wrap items-center gap-4">
+                  <label className="inline-flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={cameraConfig.clipSettings.enabled}
+                      onChange={(e) => handleClipSettingsChange({ enabled: e.target.checked })}
+                      className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    <span className="ml-2">Save a clip with each violation</span>
+                  </label>
+                  <label className="inline-flex items-center text-sm text-gray-700">
+                    <input
+                      key={`clip-${cameraConfig.location}-${cameraConfig.clipSettings.seconds}`}
+                      type="number"
+                      min="1"
+                      max="30"
+                      defaultValue={cameraConfig.clipSettings.seconds}
+                      onBlur={(e) => handleClipSettingsChange({ seconds: Number(e.target.value) })}
+                      className="w-16 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                    />
+                    <span className="ml-2">seconds before and after</span>
+                  </label>
+                  <label className="inline-flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={cameraConfig.clipSettings.burnInOverlay}
+                      onChange={(e) => handleClipSettingsChange({ burnInOverlay: e.target.checked })}
+                      className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    <span className="ml-2">Burn in detection overlay</span>
+                  </label>
+                </div>
+                {!isClipRecordingSupported() && (
+                  <p className="mt-1 text-xs text-red-600">This browser cannot record clips</p>
+                )}
+              </div>
+              
+              {poolMetrics && (
+                <div className="mt-4 grid grid-cols-2 sm:grid-cols-5 gap-4 text-center">
+                  <div className="bg-gray-50 rounded-md p-2">
+                    <p className="text-xs text-gray-500">Queued / Running</p>
+                    <p className="text-sm font-medium text-gray-900">{poolMetrics.queued} / {poolMetrics.running}</p>
+                  </div>
+                  <div className="bg-gray-50 rounded-md p-2">
+                    <p className="text-xs text-gray-500">Jobs Completed</p>
+                    <p className="text-sm font-medium text-gray-900">{poolMetrics.completed}</p>
+                  </div>
+                  <div className="bg-gray-50 rounded-md p-2">
+                    <p className="text-xs text-gray-500">Skipped Frames / Dropped Jobs</p>
+                    <p className="text-sm font-medium text-gray-900">{skippedFrames} / {poolMetrics.dropped}</p>
+                  </div>
+                  <div className="bg-gray-50 rounded-md p-2">
+                    <p className="text-xs text-gray-500">Avg Job Latency</p>
+                    <p className="text-sm font-medium text-gray-900">{Math.round(poolMetrics.averageLatencyMs)} ms</p>
+                  </div>
+                  <div className="bg-gray-50 rounded-md p-2">
+                    <p className="text-xs text-gray-500">Last Frame</p>
+                    <p className="text-sm font-medium text-gray-900">{lastFrameMs === null ? '-' : `${Math.round(lastFrameMs)} ms`}</p>
+                  </div>
+                </div>
+              )}
             </div>
             
             <div className="p-4 bg-gray-50 border-t border-gray-200">
@@ -474,7 +1178,7 @@ const VehicleDetection: React.FC = () => {
                       disabled={isProcessing}
                       className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
                     >
-                      {isProcessing ? 'Processing...' : 'Process Video'}
+                      {isProcessing ? 'Processing...' : 'Process Frame'}
                     </button>
                   </>
                 )}
@@ -482,11 +1186,25 @@ const VehicleDetection: React.FC = () => {
                }
               {uploadedVideo && (
                 <div className="mt-3">
-                  <video
-                    ref={videoRef}
-                    controls={false}
-                    className="w-full h-auto rounded-md"
-                    style={{ maxHeight: '200px' }}
+                  <div className="relative">
+                    <video
+                      ref={videoRef}
+                      controls={false}
+                      className="w-full h-auto rounded-md"
+                      style={{ maxHeight: '200px' }}
+                    />
+                    <DetectionOverlay
+                      frame={overlayFrame}
+                      zone={cameraConfig.zone}
+                      getMediaElement={() => videoRef.current}
+                    />
+                  </div>
+                  <VideoAnalysisPanel
+                    key={`${uploadedVideo.name}-${uploadedVideo.lastModified}`}
+                    videoRef={videoRef}
+                    file={uploadedVideo}
+                    cameraConfig={cameraConfig}
+                    onViolationsRecorded={handleBatchViolations}
                   />
                 </div>
               )}
@@ -537,17 +1255,17 @@ const VehicleDetection: React.FC = () => {
                     <div className="grid grid-cols-3 gap-2 text-center">
                       <div>
                         <p className="text-xs text-gray-500">Width</p>
-                        <p className="text-sm font-medium">{detectionResults.dimensions.width} m</p>
+                        <p className="text-sm font-medium">{detectionResults.dimensions.width.toFixed(2)} m</p>
                       </div>
                       
                       <div>
                         <p className="text-xs text-gray-500">Height</p>
-                        <p className="text-sm font-medium">{detectionResults.dimensions.height} m</p>
+                        <p className="text-sm font-medium">{detectionResults.dimensions.height.toFixed(2)} m</p>
                       </div>
                       
                       <div>
                         <p className="text-xs text-gray-500">Length</p>
-                        <p className="text-sm font-medium">{detectionResults.dimensions.length} m</p>
+                        <p className="text-sm font-medium">{detectionResults.dimensions.length.toFixed(2)} m</p>
                       </div>
                     </div>
                   </div>
@@ -581,21 +1299,43 @@ const VehicleDetection: React.FC = () => {
                   {violations.map((violation) => (
                     <li key={violation.id} className="py-3">
                       <div className="flex justify-between">
-                        <div>
+                        {violation.imageUrl && (
+                          <a href={violation.imageUrl} target="_blank" rel="noopener noreferrer" className="mr-3 flex-shrink-0">
+                            <img
+                              src={violation.imageUrl}
+                              alt={`Evidence for ${violation.vehicleNumber}`}
+                              className="h-10 w-14 object-cover rounded border border-gray-200"
+                            />
+                          </a>
+                        )}
+                        <div className="flex-grow">
                           <p className="text-sm font-medium text-indigo-600">
                             {violation.vehicleNumber}
                           </p>
                           <p className="text-xs text-gray-500">
-                            {violation.vehicleType} • {violation.timestamp.toLocaleTimeString()}
+                            {describeViolation(violation)} • {describeVehicle(violation)} • {violation.timestamp.toLocaleTimeString()}
                           </p>
+                          {violation.rule && (
+                            <p className="text-xs text-gray-400">{violation.rule}</p>
+                          )}
+                          {violation.inReview && (
+                            <span className="inline-flex mt-1 px-2 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                              Awaiting review
+                            </span>
+                          )}
                         </div>
-                        <button
-                          type="button"
-                          onClick={() => handleGenerateChallan(violation)}
-                          className="inline-flex items-center px-2.5 py-1.5 border border-transparent text-xs font-medium rounded text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
-                        >
-                          Generate Challan
-                        </button>
+                        {violation.inReview ? (
+                          <Link
+                            to="/admin/review"
+                            className="inline-flex items-center px-2.5 py-1.5 border border-transparent text-xs font-medium rounded text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                          >
+                            Review
+                          </Link>
+                        ) : (
+                          <span className="inline-flex px-2 text-xs font-semibold rounded-full bg-green-100 text-green-800">
+                            Challan issued
+                          </span>
+                        )}
                       </div>
                     </li>
                   ))}
@@ -605,6 +1345,15 @@ const VehicleDetection: React.FC = () => {
           </div>
         </div>
       </div>
+      
+      {calibrationFrame && (
+        <CalibrationWizard
+          frame={calibrationFrame}
+          calibration={cameraConfig.calibration}
+          onSave={handleSaveCalibration}
+          onCancel={() => setCalibrationFrame(null)}
+        />
+      )}
     </div>
   );
 };
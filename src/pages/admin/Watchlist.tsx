@@ -0,0 +1,314 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, CheckCircle, Plus, Search, ShieldAlert, Trash2, Upload } from 'lucide-react';
+import {
+  addWatchlistEntry,
+  getWatchlistHits,
+  importWatchlistEntries,
+  isWatchlistEntryActive,
+  parseWatchlistCSV,
+  removeWatchlistEntry,
+  subscribeWatchlist,
+  WatchlistEntry,
+  WatchlistHit,
+} from '../../utils/watchlist';
+
+const Watchlist: React.FC = () => {
+  const [entries, setEntries] = useState<WatchlistEntry[]>([]);
+  const [hits, setHits] = useState<WatchlistHit[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [vehicleNumber, setVehicleNumber] = useState('');
+  const [reason, setReason] = useState('');
+  const [expiresOn, setExpiresOn] = useState('');
+  const [entrySearch, setEntrySearch] = useState('');
+  const [hitSearch, setHitSearch] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const unsubscribe = subscribeWatchlist(
+      (watchlist) => {
+        setEntries(watchlist);
+        setLoading(false);
+      },
+      () => {
+        setMessage({ type: 'error', text: 'Failed to load the watchlist' });
+        setLoading(false);
+      }
+    );
+
+    getWatchlistHits()
+      .then(setHits)
+      .catch(() => setMessage({ type: 'error', text: 'Failed to load the watchlist hits' }));
+
+    return unsubscribe;
+  }, []);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isSaving) return;
+
+    if (!vehicleNumber.trim()) {
+      setMessage({ type: 'error', text: 'Enter a vehicle number' });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await addWatchlistEntry({
+        vehicleNumber: vehicleNumber.trim(),
+        reason: reason.trim(),
+        // The entry stays in force until the end of its expiry day
+        expiresAt: expiresOn ? new Date(`${expiresOn}T23:59:59`) : null,
+      });
+      setMessage({ type: 'success', text: `${vehicleNumber.trim()} added to the watchlist` });
+      setVehicleNumber('');
+      setReason('');
+      setExpiresOn('');
+    } catch {
+      setMessage({ type: 'error', text: 'Failed to add the vehicle' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || isSaving) return;
+
+    setIsSaving(true);
+    try {
+      const { entries: imported, invalidLines } = parseWatchlistCSV(await file.text());
+      await importWatchlistEntries(imported);
+
+      const skipped = invalidLines.length > 0 ? `; skipped line ${invalidLines.join(', ')}` : '';
+      setMessage({
+        type: invalidLines.length > 0 ? 'error' : 'success',
+        text: `Imported ${imported.length} vehicle${imported.length === 1 ? '' : 's'}${skipped}`,
+      });
+    } catch {
+      setMessage({ type: 'error', text: 'Failed to import the watchlist' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (entry: WatchlistEntry) => {
+    try {
+      await removeWatchlistEntry(entry.id);
+      setMessage({ type: 'success', text: `${entry.vehicleNumber} removed from the watchlist` });
+    } catch {
+      setMessage({ type: 'error', text: 'Failed to remove the vehicle' });
+    }
+  };
+
+  const matchesSearch = (term: string, values: string[]) => {
+    return !term || values.some(value => value.toLowerCase().includes(term.toLowerCase()));
+  };
+
+  const filteredEntries = entries.filter(entry => matchesSearch(entrySearch, [entry.vehicleNumber, entry.reason]));
+  const filteredHits = hits.filter(hit =>
+    matchesSearch(hitSearch, [hit.watchedNumber, hit.readNumber, hit.location, hit.reason])
+  );
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-900">Watchlist</h1>
+        <p className="mt-2 text-gray-600">
+          Stolen and wanted vehicles. Every recognised plate is checked against this list, allowing for OCR errors.
+        </p>
+      </div>
+
+      {message && (
+        <div className={`mb-4 border-l-4 p-4 ${message.type === 'success' ? 'bg-green-50 border-green-400' : 'bg-red-50 border-red-400'}`}>
+          <div className="flex">
+            <div className="flex-shrink-0">
+              {message.type === 'success'
+                ? <CheckCircle className="h-5 w-5 text-green-400" />
+                : <AlertTriangle className="h-5 w-5 text-red-400" />}
+            </div>
+            <div className="ml-3">
+              <p className={`text-sm ${message.type === 'success' ? 'text-green-700' : 'text-red-700'}`}>{message.text}</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="mb-6 bg-white p-4 rounded-lg shadow">
+        <form onSubmit={handleAdd} className="grid grid-cols-1 gap-4 md:grid-cols-4 items-end">
+          <div>
+            <label htmlFor="watch-number" className="block text-sm font-medium text-gray-700 mb-1">
+              Vehicle Number
+            </label>
+            <input
+              id="watch-number"
+              type="text"
+              value={vehicleNumber}
+              onChange={(e) => setVehicleNumber(e.target.value.toUpperCase())}
+              placeholder="MH 12 AB 1234"
+              className="block w-full rounded-md border-gray-300 shadow-sm font-mono focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="watch-reason" className="block text-sm font-medium text-gray-700 mb-1">
+              Reason
+            </label>
+            <input
+              id="watch-reason"
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Reported stolen"
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="watch-expiry" className="block text-sm font-medium text-gray-700 mb-1">
+              Expires (optional)
+            </label>
+            <input
+              id="watch-expiry"
+              type="date"
+              value={expiresOn}
+              onChange={(e) => setExpiresOn(e.target.value)}
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+          </div>
+          <div className="flex space-x-2">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add
+            </button>
+            <button
+              type="button"
+              disabled={isSaving}
+              onClick={() => fileInputRef.current?.click()}
+              title="CSV with columns: vehicle number, reason, expiry date"
+              className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Import CSV
+            </button>
+            <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleImport} />
+          </div>
+        </form>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <div className="p-4 border-b border-gray-200">
+            <h2 className="text-lg font-medium text-gray-900">Listed Vehicles ({entries.length})</h2>
+            <div className="mt-2 relative rounded-md shadow-sm">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <Search className="h-4 w-4 text-gray-400" />
+              </div>
+              <input
+                type="text"
+                value={entrySearch}
+                onChange={(e) => setEntrySearch(e.target.value)}
+                placeholder="Search number or reason"
+                className="focus:ring-indigo-500 focus:border-indigo-500 block w-full pl-10 sm:text-sm border-gray-300 rounded-md"
+              />
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center items-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-indigo-500"></div>
+            </div>
+          ) : filteredEntries.length === 0 ? (
+            <p className="p-4 text-sm text-gray-500">No vehicles on the watchlist.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 max-h-[32rem] overflow-y-auto">
+              {filteredEntries.map(entry => (
+                <li key={entry.id} className="p-4 flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-mono font-medium text-gray-900">{entry.vehicleNumber}</p>
+                    <p className="text-xs text-gray-500">
+                      {entry.reason || 'No reason given'}
+                      {entry.expiresAt && ` • Expires ${entry.expiresAt.toDate().toLocaleDateString()}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                      isWatchlistEntryActive(entry) ? 'bg-red-100 text-red-800' : 'bg-gray-100 text-gray-600'
+                    }`}>
+                      {isWatchlistEntryActive(entry) ? 'Active' : 'Expired'}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => handleRemove(entry)}
+                      title="Remove from watchlist"
+                      className="text-gray-400 hover:text-red-600"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <div className="p-4 border-b border-gray-200">
+            <h2 className="text-lg font-medium text-gray-900">Sightings ({hits.length})</h2>
+            <div className="mt-2 relative rounded-md shadow-sm">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <Search className="h-4 w-4 text-gray-400" />
+              </div>
+              <input
+                type="text"
+                value={hitSearch}
+                onChange={(e) => setHitSearch(e.target.value)}
+                placeholder="Search number, camera or reason"
+                className="focus:ring-indigo-500 focus:border-indigo-500 block w-full pl-10 sm:text-sm border-gray-300 rounded-md"
+              />
+            </div>
+          </div>
+
+          {filteredHits.length === 0 ? (
+            <div className="p-6 text-center">
+              <ShieldAlert className="mx-auto h-10 w-10 text-gray-300 mb-2" />
+              <p className="text-sm text-gray-500">No watchlisted vehicle has been seen.</p>
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-200 max-h-[32rem] overflow-y-auto">
+              {filteredHits.map(hit => (
+                <li key={hit.id} className="p-4 flex items-center space-x-3">
+                  {hit.frame && (
+                    <a href={hit.frame.url} target="_blank" rel="noopener noreferrer" className="flex-shrink-0">
+                      <img
+                        src={hit.frame.url}
+                        alt={`Sighting of ${hit.watchedNumber}`}
+                        className="h-12 w-16 object-cover rounded border border-gray-200"
+                      />
+                    </a>
+                  )}
+                  <div className="flex-grow">
+                    <p className="text-sm font-mono font-medium text-red-700">
+                      {hit.watchedNumber}
+                      {hit.distance > 0 && <span className="ml-2 font-sans text-xs text-gray-500">read as {hit.readNumber}</span>}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {hit.location} • {hit.detectedAt ? hit.detectedAt.toDate().toLocaleString() : 'Just now'}
+                    </p>
+                    {hit.reason && <p className="text-xs text-gray-400">{hit.reason}</p>}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Watchlist;
@@ -4,6 +4,7 @@ import { firestore } from '../../firebase';
 import { collection, query, orderBy, onSnapshot } from 'firebase/firestore';
 import { AlertTriangle, Search, Download } from 'lucide-react';
 import { Challan, getVehicleDescription, getViolationDescription, VehicleType } from '../../utils/challanUtils';
+import { getVehicleDataType } from '../../utils/speedEstimation';
 import vehicleData from '../../data/vehicleData.json';
 
 const ChallanHistory: React.FC = () => {
@@ -58,7 +59,7 @@ const ChallanHistory: React.FC = () => {
     const matchesSearch = challan.vehicleNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          challan.location.toLowerCase().includes(searchTerm.toLowerCase());
     const matchesStatus = filterStatus === 'all' || challan.status === filterStatus;
-    const matchesVehicleType = filterVehicleType === 'all' || challan.vehicleType === filterVehicleType;
+    const matchesVehicleType = filterVehicleType === 'all' || getVehicleDataType(challan.vehicleType) === filterVehicleType;
     
     return matchesSearch && matchesStatus && matchesVehicleType;
   });
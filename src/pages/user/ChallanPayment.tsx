@@ -2,9 +2,10 @@ import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { firestore } from '../../firebase';
 import { doc, getDoc, updateDoc, serverTimestamp, Timestamp } from 'firebase/firestore';
-import { Challan } from '../../utils/challanUtils';
+import { Challan, getVehicleDescription } from '../../utils/challanUtils';
 import { CreditCard, Wallet, AlertCircle, CheckCircle } from 'lucide-react';
 import vehicleData from '../../data/vehicleData.json';
+import EvidenceGallery from '../../components/EvidenceGallery';
 
 const ChallanPayment: React.FC = () => {
   const { challanId } = useParams<{ challanId: string }>();
@@ -147,7 +148,7 @@ const ChallanPayment: React.FC = () => {
               <div>
                 <dt className="text-sm font-medium text-gray-500">Vehicle Type</dt>
                 <dd className="mt-1 text-sm text-gray-900">
-                  {vehicleData.vehicles[challan.vehicleType].description}
+                  {getVehicleDescription(challan.vehicleType)}
                 </dd>
               </div>
               <div>
@@ -156,6 +157,20 @@ const ChallanPayment: React.FC = () => {
                   {vehicleData.violations[challan.violationType].description}
                 </dd>
               </div>
+              {challan.rule && (
+                <div>
+                  <dt className="text-sm font-medium text-gray-500">Rule Broken</dt>
+                  <dd className="mt-1 text-sm text-gray-900">{challan.rule.description}</dd>
+                </div>
+              )}
+              {challan.measuredSpeed !== undefined && (
+                <div>
+                  <dt className="text-sm font-medium text-gray-500">Measured Speed</dt>
+                  <dd className="mt-1 text-sm text-gray-900">
+                    {challan.measuredSpeed} km/h (limit {challan.speedLimit} km/h)
+                  </dd>
+                </div>
+              )}
               <div>
                 <dt className="text-sm font-medium text-gray-500">Location</dt>
                 <dd className="mt-1 text-sm text-gray-900">{challan.location}</dd>
@@ -175,6 +190,14 @@ const ChallanPayment: React.FC = () => {
             </dl>
           </div>
 
+          {/* Evidence */}
+          {challan.evidence && (
+            <div className="mb-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">Evidence</h3>
+              <EvidenceGallery evidence={challan.evidence} />
+            </div>
+          )}
+
           {/* Payment Method Selection */}
           <div className="mb-6">
             <h3 className="text-lg font-medium text-gray-900 mb-4">Select Payment Method</h3>
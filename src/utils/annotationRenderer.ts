@@ -0,0 +1,203 @@
+// This file draws the pipeline's per-frame annotations (vehicle boxes, track
+// IDs, classes, plates and the no-entry zone) onto a canvas, for the live
+// overlay and for clips with the overlay burned in.
+
+import { TrackAnnotation } from './detectionPipeline';
+import { ZoneConfig } from './zoneGeometry';
+
+/**
+ * Interface for the annotations of one processed frame
+ */
+export interface OverlayFrame {
+  annotations: TrackAnnotation[];
+  width: number;
+  height: number;
+  /** Time the frame was captured, in ms since the epoch */
+  timestamp: number;
+}
+
+/**
+ * Interface for where the frame's picture sits on the target canvas, in canvas pixels
+ */
+export interface OverlayLayout {
+  frameWidth: number;
+  frameHeight: number;
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+// Boxes are moved along their track's velocity for at most this long after the frame
+const MAX_EXTRAPOLATION_MS = 1000;
+
+// Annotations older than this are no longer drawn
+const STALE_AFTER_MS = 5000;
+
+const COLORS = {
+  tentative: '#9ca3af',
+  confirmed: '#22c55e',
+  violating: '#dc2626',
+  plate: '#facc15',
+  zone: '#dc2626',
+  zoneFill: 'rgba(220, 38, 38, 0.15)',
+  entryLine: '#facc15',
+};
+
+/**
+ * Draw a label with a filled background
+ * @param ctx Canvas context
+ * @param text Label text
+ * @param x Left edge
+ * @param y Bottom edge
+ * @param color Background color
+ * @param fontSize Font size in canvas pixels
+ */
+const drawLabel = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number, color: string, fontSize: number) => {
+  const padding = fontSize / 4;
+  const width = ctx.measureText(text).width + padding * 2;
+  const height = fontSize * 1.45;
+  const top = Math.max(0, y - height);
+
+  ctx.fillStyle = color;
+  ctx.fillRect(x, top, width, height);
+  ctx.fillStyle = color === COLORS.plate ? '#111827' : '#ffffff';
+  ctx.fillText(text, x + padding, top + height - fontSize * 0.35);
+};
+
+/**
+ * Fit a frame inside an element the way object-fit: contain does
+ * @param frameWidth Frame width in pixels
+ * @param frameHeight Frame height in pixels
+ * @param width Element width
+ * @param height Element height
+ * @returns Layout of the frame inside the element
+ */
+export const fitFrame = (frameWidth: number, frameHeight: number, width: number, height: number): OverlayLayout => {
+  const scale = Math.min(width / frameWidth, height / frameHeight);
+
+  return {
+    frameWidth,
+    frameHeight,
+    scale,
+    offsetX: (width - frameWidth * scale) / 2,
+    offsetY: (height - frameHeight * scale) / 2,
+  };
+};
+
+/**
+ * Interface for a rectangle in CSS pixels
+ */
+export interface PictureRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Get where a video's or canvas's picture sits inside a container, allowing for letterboxing
+ * @param media Video or canvas element
+ * @param container Element to measure against
+ * @returns Picture rectangle relative to the container, or null until the media has dimensions
+ */
+export const getPictureRect = (media: HTMLElement, container: HTMLElement): PictureRect | null => {
+  const frameWidth = media instanceof HTMLVideoElement ? media.videoWidth : media instanceof HTMLCanvasElement ? media.width : 0;
+  const frameHeight = media instanceof HTMLVideoElement ? media.videoHeight : media instanceof HTMLCanvasElement ? media.height : 0;
+  if (!frameWidth || !frameHeight) return null;
+
+  const mediaRect = media.getBoundingClientRect();
+  const containerRect = container.getBoundingClientRect();
+  const layout = fitFrame(frameWidth, frameHeight, mediaRect.width, mediaRect.height);
+
+  return {
+    left: mediaRect.left - containerRect.left + layout.offsetX,
+    top: mediaRect.top - containerRect.top + layout.offsetY,
+    width: frameWidth * layout.scale,
+    height: frameHeight * layout.scale,
+  };
+};
+
+/**
+ * Draw the zone and the tracked vehicles of a frame
+ * @param ctx Canvas context, drawn over without clearing
+ * @param frame Annotations of the latest processed frame, or null
+ * @param zone No-entry zone in normalised frame coordinates, or null
+ * @param layout Where the frame sits on the canvas
+ * @param fontSize Label font size in canvas pixels
+ */
+export const renderAnnotations = (
+  ctx: CanvasRenderingContext2D,
+  frame: OverlayFrame | null,
+  zone: ZoneConfig | null,
+  layout: OverlayLayout,
+  fontSize = 11
+) => {
+  const { frameWidth, frameHeight, scale, offsetX, offsetY } = layout;
+  const lineWidth = Math.max(1, fontSize / 5.5);
+
+  ctx.font = `${fontSize}px sans-serif`;
+
+  if (zone && zone.polygon.length > 0) {
+    ctx.beginPath();
+    zone.polygon.forEach((point, i) => {
+      const x = offsetX + point.x * frameWidth * scale;
+      const y = offsetY + point.y * frameHeight * scale;
+      if (i === 0) ctx.moveTo(x, y);
+      else ctx.lineTo(x, y);
+    });
+    ctx.closePath();
+    ctx.fillStyle = COLORS.zoneFill;
+    ctx.fill();
+    ctx.strokeStyle = COLORS.zone;
+    ctx.lineWidth = lineWidth;
+    ctx.stroke();
+  }
+
+  if (zone?.entryLine) {
+    const { start, end } = zone.entryLine;
+    ctx.beginPath();
+    ctx.moveTo(offsetX + start.x * frameWidth * scale, offsetY + start.y * frameHeight * scale);
+    ctx.lineTo(offsetX + end.x * frameWidth * scale, offsetY + end.y * frameHeight * scale);
+    ctx.strokeStyle = COLORS.entryLine;
+    ctx.lineWidth = lineWidth * 1.5;
+    ctx.stroke();
+  }
+
+  const age = frame ? Date.now() - frame.timestamp : Infinity;
+  if (!frame || age > STALE_AFTER_MS) return;
+
+  // Results arrive after the frame they describe; move the boxes on to where the vehicles are now
+  const elapsed = Math.min(age, MAX_EXTRAPOLATION_MS);
+
+  for (const annotation of frame.annotations) {
+    const dx = annotation.velocity.x * elapsed;
+    const dy = annotation.velocity.y * elapsed;
+    const { box } = annotation;
+    const x = offsetX + (box.x + dx) * scale;
+    const y = offsetY + (box.y + dy) * scale;
+    const color = annotation.violating
+      ? COLORS.violating
+      : annotation.confirmed ? COLORS.confirmed : COLORS.tentative;
+
+    ctx.setLineDash(annotation.confirmed ? [] : [lineWidth * 3, lineWidth * 2]);
+    ctx.strokeStyle = color;
+    ctx.lineWidth = annotation.violating ? lineWidth * 1.5 : lineWidth;
+    ctx.strokeRect(x, y, box.width * scale, box.height * scale);
+    ctx.setLineDash([]);
+
+    const label = `#${annotation.trackId} ${annotation.vehicleType}${annotation.violating ? ' • VIOLATION' : ''}`;
+    drawLabel(ctx, label, x, y, color, fontSize);
+
+    if (annotation.plate) {
+      const plate = annotation.plate.box;
+      ctx.strokeStyle = COLORS.plate;
+      ctx.lineWidth = lineWidth;
+      ctx.strokeRect(offsetX + (plate.x + dx) * scale, offsetY + (plate.y + dy) * scale, plate.width * scale, plate.height * scale);
+    }
+
+    const plateText = annotation.vehicleNumber || annotation.plate?.text;
+    if (plateText) {
+      drawLabel(ctx, plateText, x, y + box.height * scale + fontSize * 1.45, COLORS.plate, fontSize);
+    }
+  }
+};
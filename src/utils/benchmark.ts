@@ -0,0 +1,467 @@
+// This file measures the accuracy of vehicle detection, plate reading and
+// vehicle classification against a labelled set of frames, and renders the
+// results as a JSON report and an HTML page. It is run headless in Node by
+// `npm run benchmark`, which supplies the decoded frames.
+
+import { CameraCalibration, measureVehicle } from './calibration';
+import { detectNumberPlate } from './numberPlateDetection';
+import { PreprocessingMode } from './preprocessing';
+import { getEditDistance } from './registrationNumber';
+import { classifyVehicleType, detectVehicles } from './vehicleDetection';
+
+export interface BenchmarkBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Interface for a labelled vehicle in a ground-truth frame
+ */
+export interface LabelledVehicle {
+  box: BenchmarkBox;
+  /** Registration number on the plate, or null if it cannot be read by eye */
+  plate: string | null;
+  /** Vehicle class as named by classifyVehicleType, or null if unlabelled */
+  vehicleType: string | null;
+}
+
+/**
+ * Interface for the ground truth of a benchmark set
+ */
+export interface BenchmarkGroundTruth {
+  /** Calibration of the camera the frames were taken with, or null if uncalibrated */
+  calibration?: CameraCalibration | null;
+  frames: {
+    /** Frame file, relative to the set's folder */
+    file: string;
+    vehicles: LabelledVehicle[];
+  }[];
+}
+
+export interface BenchmarkOptions {
+  /** Minimum overlap for a detection to count as a labelled vehicle */
+  iouThreshold?: number;
+  /** Read plates of matched vehicles; OCR dominates the run time */
+  readPlates?: boolean;
+  /** Preprocessing profile to measure, or 'auto' to choose one per frame */
+  preprocessing?: PreprocessingMode;
+  /** Called after each frame, for progress reporting */
+  onFrame?: (result: FrameBenchmark, index: number, total: number) => void;
+}
+
+/**
+ * Interface for the results of one frame
+ */
+export interface FrameBenchmark {
+  file: string;
+  labelled: number;
+  detected: number;
+  matched: number;
+  plates: { expected: string; read: string | null; editDistance: number }[];
+  classifications: { expected: string; predicted: string }[];
+  latencyMs: { detection: number; plates: number; classification: number; total: number };
+  error?: string;
+}
+
+export interface LatencySummary {
+  mean: number;
+  p50: number;
+  p95: number;
+  max: number;
+}
+
+/**
+ * Interface for the benchmark report
+ */
+export interface BenchmarkReport {
+  createdAt: string;
+  frameCount: number;
+  iouThreshold: number;
+  preprocessing: PreprocessingMode;
+  detection: {
+    truePositives: number;
+    falsePositives: number;
+    falseNegatives: number;
+    precision: number;
+    recall: number;
+    f1: number;
+  };
+  plates: {
+    labelled: number;
+    read: number;
+    exactMatches: number;
+    /** Share of labelled plates read exactly */
+    exactAccuracy: number;
+    /** Share of labelled plate characters read correctly, by edit distance */
+    characterAccuracy: number;
+  } | null;
+  classification: {
+    labels: string[];
+    /** Rows are labelled classes, columns predicted classes, in the order of labels */
+    matrix: number[][];
+    accuracy: number;
+  };
+  latencyMs: Record<keyof FrameBenchmark['latencyMs'], LatencySummary>;
+  frames: FrameBenchmark[];
+}
+
+const DEFAULT_IOU_THRESHOLD = 0.5;
+
+/**
+ * Calculate the intersection over union of two boxes
+ * @param a First box
+ * @param b Second box
+ * @returns Overlap in the range 0..1
+ */
+export const getIoU = (a: BenchmarkBox, b: BenchmarkBox): number => {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) {
+    return 0;
+  }
+
+  const intersection = width * height;
+  return intersection / (a.width * a.height + b.width * b.height - intersection);
+};
+
+/**
+ * Pair detections with labelled boxes, best overlaps first
+ * @param labelled Labelled boxes
+ * @param detected Detected boxes
+ * @param threshold Minimum overlap of a pair
+ * @returns Index pairs of matched labelled and detected boxes
+ */
+export const matchBoxes = (
+  labelled: BenchmarkBox[],
+  detected: BenchmarkBox[],
+  threshold: number
+): [number, number][] => {
+  const candidates: { label: number; detection: number; iou: number }[] = [];
+  labelled.forEach((box, label) => {
+    detected.forEach((other, detection) => {
+      const iou = getIoU(box, other);
+      if (iou >= threshold) candidates.push({ label, detection, iou });
+    });
+  });
+  candidates.sort((a, b) => b.iou - a.iou);
+
+  const usedLabels = new Set<number>();
+  const usedDetections = new Set<number>();
+  const pairs: [number, number][] = [];
+
+  for (const { label, detection } of candidates) {
+    if (usedLabels.has(label) || usedDetections.has(detection)) continue;
+    usedLabels.add(label);
+    usedDetections.add(detection);
+    pairs.push([label, detection]);
+  }
+
+  return pairs;
+};
+
+// Plates are compared without spacing, since labels are not always in canonical form
+const comparablePlate = (plate: string) => plate.replace(/[^A-Z0-9]/gi, '').toUpperCase();
+
+/**
+ * Summarise a set of latencies
+ * @param values Latencies in ms
+ * @returns Mean, median, 95th percentile and maximum
+ */
+const summariseLatency = (values: number[]): LatencySummary => {
+  if (values.length === 0) {
+    return { mean: 0, p50: 0, p95: 0, max: 0 };
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const percentile = (p: number) => sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+
+  return {
+    mean: sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+    p50: percentile(0.5),
+    p95: percentile(0.95),
+    max: sorted[sorted.length - 1],
+  };
+};
+
+/**
+ * Run detection, plate reading and classification on one labelled frame
+ * @param frame Decoded frame
+ * @param file Frame file name
+ * @param vehicles Labelled vehicles in the frame
+ * @param calibration Calibration used to measure vehicles for classification
+ * @param options Benchmark options
+ * @returns Results of the frame
+ */
+const benchmarkFrame = async (
+  frame: ImageData,
+  file: string,
+  vehicles: LabelledVehicle[],
+  calibration: CameraCalibration | null,
+  options: Required<Omit<BenchmarkOptions, 'onFrame'>>
+): Promise<FrameBenchmark> => {
+  const startedAt = performance.now();
+  const detections = await detectVehicles(frame, options.preprocessing);
+  const detectedAt = performance.now();
+
+  const pairs = matchBoxes(vehicles.map(v => v.box), detections, options.iouThreshold);
+  const result: FrameBenchmark = {
+    file,
+    labelled: vehicles.length,
+    detected: detections.length,
+    matched: pairs.length,
+    plates: [],
+    classifications: [],
+    latencyMs: { detection: detectedAt - startedAt, plates: 0, classification: 0, total: 0 },
+  };
+
+  for (const [label, detection] of pairs) {
+    const vehicle = vehicles[label];
+    const box = detections[detection];
+
+    if (vehicle.vehicleType) {
+      const classifyStartedAt = performance.now();
+      const predicted = classifyVehicleType(measureVehicle(box, calibration, frame.width, frame.height));
+      result.latencyMs.classification += performance.now() - classifyStartedAt;
+      result.classifications.push({ expected: vehicle.vehicleType, predicted });
+    }
+
+    if (options.readPlates && vehicle.plate) {
+      const plateStartedAt = performance.now();
+      const plate = await detectNumberPlate(frame, box, options.preprocessing);
+      result.latencyMs.plates += performance.now() - plateStartedAt;
+
+      const expected = comparablePlate(vehicle.plate);
+      const read = plate ? comparablePlate(plate.text) : null;
+      result.plates.push({ expected, read, editDistance: getEditDistance(expected, read || '') });
+    }
+  }
+
+  // Labelled plates on vehicles that were not detected count as unread
+  if (options.readPlates) {
+    const matchedLabels = new Set(pairs.map(([label]) => label));
+    vehicles
+      .filter((vehicle, i) => vehicle.plate && !matchedLabels.has(i))
+      .forEach(vehicle => {
+        const expected = comparablePlate(vehicle.plate!);
+        result.plates.push({ expected, read: null, editDistance: expected.length });
+      });
+  }
+
+  result.latencyMs.total = performance.now() - startedAt;
+  return result;
+};
+
+/**
+ * Run the benchmark over a labelled set of frames
+ * @param groundTruth Labels of the set
+ * @param loadFrame Decodes a frame file of the set
+ * @param options Benchmark options
+ * @returns Promise with the report
+ */
+export const runBenchmark = async (
+  groundTruth: BenchmarkGroundTruth,
+  loadFrame: (file: string) => Promise<ImageData>,
+  options: BenchmarkOptions = {}
+): Promise<BenchmarkReport> => {
+  const frameOptions = {
+    iouThreshold: options.iouThreshold ?? DEFAULT_IOU_THRESHOLD,
+    readPlates: options.readPlates ?? true,
+    preprocessing: options.preprocessing ?? 'standard',
+  };
+  const frames: FrameBenchmark[] = [];
+
+  for (const [index, labels] of groundTruth.frames.entries()) {
+    let result: FrameBenchmark;
+
+    try {
+      const frame = await loadFrame(labels.file);
+      result = await benchmarkFrame(frame, labels.file, labels.vehicles, groundTruth.calibration || null, frameOptions);
+    } catch (error) {
+      console.error('Error benchmarking frame:', labels.file, error);
+      result = {
+        file: labels.file,
+        labelled: labels.vehicles.length,
+        detected: 0,
+        matched: 0,
+        plates: [],
+        classifications: [],
+        latencyMs: { detection: 0, plates: 0, classification: 0, total: 0 },
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    frames.push(result);
+    options.onFrame?.(result, index, groundTruth.frames.length);
+  }
+
+  return summariseBenchmark(frames, frameOptions);
+};
+
+/**
+ * Combine per-frame results into a report
+ * @param frames Results of each frame
+ * @param options Options the frames were run with
+ * @returns Benchmark report
+ */
+export const summariseBenchmark = (
+  frames: FrameBenchmark[],
+  options: Required<Omit<BenchmarkOptions, 'onFrame'>>
+): BenchmarkReport => {
+  const { iouThreshold, readPlates, preprocessing } = options;
+  const truePositives = frames.reduce((sum, f) => sum + f.matched, 0);
+  const falsePositives = frames.reduce((sum, f) => sum + f.detected - f.matched, 0);
+  const falseNegatives = frames.reduce((sum, f) => sum + f.labelled - f.matched, 0);
+  const precision = truePositives + falsePositives > 0 ? truePositives / (truePositives + falsePositives) : 0;
+  const recall = truePositives + falseNegatives > 0 ? truePositives / (truePositives + falseNegatives) : 0;
+
+  const plates = frames.flatMap(f => f.plates);
+  const plateCharacters = plates.reduce((sum, p) => sum + p.expected.length, 0);
+  const correctCharacters = plates.reduce((sum, p) => sum + Math.max(0, p.expected.length - p.editDistance), 0);
+  const exactMatches = plates.filter(p => p.read === p.expected).length;
+
+  const classifications = frames.flatMap(f => f.classifications);
+  const labels = [...new Set(classifications.flatMap(c => [c.expected, c.predicted]))].sort();
+  const matrix = labels.map(() => labels.map(() => 0));
+  classifications.forEach(c => {
+    matrix[labels.indexOf(c.expected)][labels.indexOf(c.predicted)]++;
+  });
+
+  return {
+    createdAt: new Date().toISOString(),
+    frameCount: frames.length,
+    iouThreshold,
+    preprocessing,
+    detection: {
+      truePositives,
+      falsePositives,
+      falseNegatives,
+      precision,
+      recall,
+      f1: precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0,
+    },
+    plates: readPlates
+      ? {
+          labelled: plates.length,
+          read: plates.filter(p => p.read !== null).length,
+          exactMatches,
+          exactAccuracy: plates.length > 0 ? exactMatches / plates.length : 0,
+          characterAccuracy: plateCharacters > 0 ? correctCharacters / plateCharacters : 0,
+        }
+      : null,
+    classification: {
+      labels,
+      matrix,
+      accuracy: classifications.length > 0
+        ? classifications.filter(c => c.expected === c.predicted).length / classifications.length
+        : 0,
+    },
+    latencyMs: {
+      detection: summariseLatency(frames.map(f => f.latencyMs.detection)),
+      plates: summariseLatency(frames.map(f => f.latencyMs.plates)),
+      classification: summariseLatency(frames.map(f => f.latencyMs.classification)),
+      total: summariseLatency(frames.map(f => f.latencyMs.total)),
+    },
+    frames,
+  };
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"]/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[char]!);
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const ms = (value: number) => `${value.toFixed(1)} ms`;
+
+/**
+ * Render a report as a standalone HTML page
+ * @param report Benchmark report
+ * @returns HTML document
+ */
+export const renderBenchmarkHtml = (report: BenchmarkReport): string => {
+  const { detection, plates, classification, latencyMs } = report;
+
+  const summaryRows = [
+    ['Frames', String(report.frameCount)],
+    ['Detection precision', percent(detection.precision)],
+    ['Detection recall', percent(detection.recall)],
+    ['Detection F1', percent(detection.f1)],
+    ['Matched / missed / spurious', `${detection.truePositives} / ${detection.falseNegatives} / ${detection.falsePositives}`],
+    ...(plates
+      ? [
+          ['Exact plate accuracy', `${percent(plates.exactAccuracy)} (${plates.exactMatches} of ${plates.labelled})`],
+          ['Plate character accuracy', percent(plates.characterAccuracy)],
+        ]
+      : []),
+    ['Classification accuracy', percent(classification.accuracy)],
+  ];
+
+  const latencyRows = (Object.keys(latencyMs) as (keyof typeof latencyMs)[]).map(stage => [
+    stage,
+    ms(latencyMs[stage].mean),
+    ms(latencyMs[stage].p50),
+    ms(latencyMs[stage].p95),
+    ms(latencyMs[stage].max),
+  ]);
+
+  const confusionHeader = classification.labels.map(label => `<th>${escapeHtml(label)}</th>`).join('');
+  const confusionRows = classification.matrix.map((row, i) => `
+        <tr><th>${escapeHtml(classification.labels[i])}</th>${row
+          .map((count, j) => `<td class="${i === j ? 'hit' : count > 0 ? 'miss' : ''}">${count}</td>`)
+          .join('')}</tr>`).join('');
+
+  const frameRows = report.frames.map(frame => `
+        <tr${frame.error ? ' class="miss"' : ''}>
+          <td>${escapeHtml(frame.file)}</td>
+          <td>${frame.labelled}</td>
+          <td>${frame.detected}</td>
+          <td>${frame.matched}</td>
+          <td>${frame.plates.map(p => `${escapeHtml(p.expected)} → ${p.read === null ? '—' : escapeHtml(p.read)}`).join('<br>')}</td>
+          <td>${ms(frame.latencyMs.total)}</td>
+          <td>${frame.error ? escapeHtml(frame.error) : ''}</td>
+        </tr>`).join('');
+
+  const table = (rows: string[][]) => rows.map(row => `<tr><th>${row[0]}</th>${row.slice(1).map(cell => `<td>${cell}</td>`).join('')}</tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Detection benchmark ${escapeHtml(report.createdAt)}</title>
+  <style>
+    body { font-family: sans-serif; color: #111827; margin: 2rem; }
+    table { border-collapse: collapse; margin-bottom: 2rem; }
+    th, td { border: 1px solid #e5e7eb; padding: 0.25rem 0.75rem; text-align: left; font-size: 0.875rem; }
+    th { background: #f9fafb; }
+    .hit { background: #dcfce7; }
+    .miss { background: #fee2e2; }
+  </style>
+</head>
+<body>
+  <h1>Detection benchmark</h1>
+  <p>${escapeHtml(report.createdAt)} • IoU threshold ${report.iouThreshold} • ${escapeHtml(report.preprocessing)} preprocessing</p>
+
+  <h2>Summary</h2>
+  <table>${table(summaryRows)}</table>
+
+  <h2>Latency per frame</h2>
+  <table>
+    <tr><th>Stage</th><th>Mean</th><th>p50</th><th>p95</th><th>Max</th></tr>
+    ${table(latencyRows)}
+  </table>
+
+  <h2>Classification</h2>
+  <p>Rows are labelled classes, columns predicted classes.</p>
+  <table>
+    <tr><th></th>${confusionHeader}</tr>${confusionRows}
+  </table>
+
+  <h2>Frames</h2>
+  <table>
+    <tr><th>File</th><th>Labelled</th><th>Detected</th><th>Matched</th><th>Plates</th><th>Time</th><th>Error</th></tr>${frameRows}
+  </table>
+</body>
+</html>
+`;
+};
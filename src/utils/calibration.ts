@@ -0,0 +1,197 @@
+// This file derives a camera's pixel-to-metre scale from a reference of known
+// size marked in a captured frame, or a ground-plane homography from four
+// marked road points, and measures vehicles with it.
+
+import { Point } from './zoneGeometry';
+import { applyHomography, computeHomography, getDistance, Homography } from './homography';
+import { calculateVehicleDimensions } from './vehicleDetection';
+
+/**
+ * How a calibration was made: a reference object of known length, the width of a
+ * lane, or four road points with known positions
+ */
+export type CalibrationMethod = 'reference' | 'lane' | 'groundPlane';
+
+/**
+ * Interface for a ground-plane calibration
+ */
+export interface GroundPlane {
+  /** Marked road points, in normalised frame coordinates */
+  imagePoints: Point[];
+  /** Positions of the marked points on the road, in metres */
+  worldPoints: Point[];
+  /** Maps normalised frame coordinates to road coordinates */
+  homography: Homography;
+}
+
+/**
+ * Interface for a camera's calibration profile
+ */
+export interface CameraCalibration {
+  method: CalibrationMethod;
+  /** End points of the reference, in normalised frame coordinates */
+  points: [Point, Point];
+  /** Real length of the reference in metres */
+  realLength: number;
+  /** Size of the frame the reference was marked in */
+  imageWidth: number;
+  imageHeight: number;
+  /** Metres per pixel at the calibration resolution */
+  metresPerPixel: number;
+  /** ISO timestamp of the calibration */
+  calibratedAt: string;
+  /** Set for ground-plane calibrations, which measure vehicles in perspective */
+  groundPlane?: GroundPlane;
+}
+
+/**
+ * Interface for estimated vehicle dimensions, in metres
+ */
+export interface VehicleDimensions {
+  width: number;
+  height: number;
+  length: number;
+}
+
+/**
+ * Standard width of a lane on Indian roads, in metres
+ */
+export const DEFAULT_LANE_WIDTH = 3.5;
+
+// Used until a camera is calibrated: a lane spanning a quarter of a 1280 px wide frame
+const UNCALIBRATED_METRES_PER_PIXEL = DEFAULT_LANE_WIDTH / 320;
+const UNCALIBRATED_IMAGE_WIDTH = 1280;
+
+/**
+ * Create a calibration profile from a marked reference
+ * @param method Calibration method
+ * @param points End points of the reference, in normalised frame coordinates
+ * @param realLength Real length of the reference in metres
+ * @param imageWidth Width of the frame the reference was marked in
+ * @param imageHeight Height of the frame the reference was marked in
+ * @returns Calibration profile
+ */
+export const computeCalibration = (
+  method: CalibrationMethod,
+  points: [Point, Point],
+  realLength: number,
+  imageWidth: number,
+  imageHeight: number
+): CameraCalibration => {
+  const dx = (points[1].x - points[0].x) * imageWidth;
+  const dy = (points[1].y - points[0].y) * imageHeight;
+  const pixelLength = Math.sqrt(dx * dx + dy * dy);
+
+  if (pixelLength < 1) {
+    throw new Error('The reference end points are too close together');
+  }
+
+  if (!(realLength > 0)) {
+    throw new Error('The reference length must be greater than zero');
+  }
+
+  return {
+    method,
+    points,
+    realLength,
+    imageWidth,
+    imageHeight,
+    metresPerPixel: realLength / pixelLength,
+    calibratedAt: new Date().toISOString(),
+  };
+};
+
+/**
+ * Get the pixel-to-metre scale for a frame, which may differ in resolution from the calibration frame
+ * @param calibration Calibration profile, or null for an uncalibrated camera
+ * @param frameWidth Width of the frame being measured
+ * @returns Metres per pixel of the frame
+ */
+export const getMetresPerPixel = (calibration: CameraCalibration | null, frameWidth: number): number => {
+  if (!calibration) {
+    return UNCALIBRATED_METRES_PER_PIXEL * (UNCALIBRATED_IMAGE_WIDTH / frameWidth);
+  }
+
+  return calibration.metresPerPixel * (calibration.imageWidth / frameWidth);
+};
+
+/**
+ * Create a ground-plane calibration profile from four marked road points
+ * @param imagePoints Marked points, in normalised frame coordinates
+ * @param worldPoints Positions of the points on the road, in metres
+ * @param imageWidth Width of the frame the points were marked in
+ * @param imageHeight Height of the frame the points were marked in
+ * @returns Calibration profile
+ */
+export const computeGroundPlaneCalibration = (
+  imagePoints: Point[],
+  worldPoints: Point[],
+  imageWidth: number,
+  imageHeight: number
+): CameraCalibration => {
+  const homography = computeHomography(imagePoints, worldPoints);
+
+  // The first marked edge also gives a flat scale, for callers that only need one
+  const calibration = computeCalibration(
+    'groundPlane',
+    [imagePoints[0], imagePoints[1]],
+    getDistance(worldPoints[0], worldPoints[1]),
+    imageWidth,
+    imageHeight
+  );
+
+  return {
+    ...calibration,
+    groundPlane: { imagePoints, worldPoints, homography },
+  };
+};
+
+// Share of a bounding box, from the bottom, taken as the vehicle's footprint on the road;
+// the rest is the body rising above it
+const FOOTPRINT_RATIO = 0.5;
+
+/**
+ * Measure a vehicle, in perspective if the camera has a ground-plane calibration
+ * @param box Bounding box of the vehicle in pixels
+ * @param calibration Calibration profile, or null for an uncalibrated camera
+ * @param frameWidth Width of the frame the box is in
+ * @param frameHeight Height of the frame the box is in
+ * @returns Estimated vehicle dimensions in metres
+ */
+export const measureVehicle = (
+  box: { x: number; y: number; width: number; height: number },
+  calibration: CameraCalibration | null,
+  frameWidth: number,
+  frameHeight: number
+): VehicleDimensions => {
+  if (!calibration?.groundPlane) {
+    return calculateVehicleDimensions(box, getMetresPerPixel(calibration, frameWidth));
+  }
+
+  const { homography } = calibration.groundPlane;
+  const toRoad = (x: number, y: number) => applyHomography(homography, { x: x / frameWidth, y: y / frameHeight });
+
+  const bottom = box.y + box.height;
+  const footprintTop = bottom - box.height * FOOTPRINT_RATIO;
+  const footprint = [
+    toRoad(box.x, bottom),
+    toRoad(box.x + box.width, bottom),
+    toRoad(box.x + box.width, footprintTop),
+    toRoad(box.x, footprintTop),
+  ];
+
+  const xs = footprint.map(p => p.x);
+  const ys = footprint.map(p => p.y);
+  const extentX = Math.max(...xs) - Math.min(...xs);
+  const extentY = Math.max(...ys) - Math.min(...ys);
+
+  // The road may run either way across the frame; vehicles are longer than they are wide
+  const width = Math.min(extentX, extentY);
+  const length = Math.max(extentX, extentY);
+
+  // Height from the rest of the box, at the scale of the road directly below the vehicle
+  const metresPerPixel = getDistance(footprint[0], footprint[1]) / box.width;
+  const height = box.height * (1 - FOOTPRINT_RATIO) * metresPerPixel;
+
+  return { width, height, length };
+};
@@ -0,0 +1,112 @@
+import { firestore } from '../firebase';
+import { doc, getDoc, setDoc, serverTimestamp } from 'firebase/firestore';
+import { ZoneConfig } from './zoneGeometry';
+import { MotionAlgorithm } from './motionDetection';
+import { CameraCalibration } from './calibration';
+import { SpeedTrap } from './speedEstimation';
+import { getDefaultZoneCategory, ZoneCategory } from './zoneRules';
+import { DEFAULT_REVIEW_THRESHOLDS, ReviewThresholds } from './confidence';
+import { ClipSettings, DEFAULT_CLIP_SETTINGS } from './clipRecorder';
+import { PreprocessingMode } from './preprocessing';
+
+/**
+ * Vehicle candidate source: single-frame edge contours, or background-subtraction
+ * motion blobs for static roadside cameras
+ */
+export type DetectionMode = 'contour' | 'motion';
+
+/**
+ * Detection backend: the OpenCV heuristics or a TF.js object-detection model
+ */
+export type DetectorBackend = 'opencv' | 'tfjs';
+
+/**
+ * Interface for per-camera configuration
+ */
+export interface CameraConfig {
+  location: string;
+  zone: ZoneConfig | null;
+  /** Zone category whose rules decide which vehicles may enter; null treats every entry as a violation */
+  zoneCategory: ZoneCategory | null;
+  detectorBackend: DetectorBackend;
+  detectionMode: DetectionMode;
+  motionAlgorithm: MotionAlgorithm;
+  /** Image preprocessing for night and bad weather footage; 'auto' chooses per frame */
+  preprocessing: PreprocessingMode;
+  /** Check motorcycle riders for helmets; needs the helmet model from the README */
+  helmetDetection: boolean;
+  calibration: CameraCalibration | null;
+  speedTrap: SpeedTrap | null;
+  reviewThresholds: ReviewThresholds;
+  /** Video clips recorded around each violation */
+  clipSettings: ClipSettings;
+}
+
+/**
+ * Get the Firestore document ID for a camera location
+ * @param location Camera location name
+ * @returns Document ID
+ */
+const getCameraConfigId = (location: string): string => {
+  return location.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-');
+};
+
+/**
+ * Get the default configuration for a camera that has not been set up yet
+ * @param location Camera location name
+ * @returns Default camera configuration
+ */
+export const getDefaultCameraConfig = (location: string): CameraConfig => ({
+  location,
+  zone: null,
+  zoneCategory: getDefaultZoneCategory(location),
+  detectorBackend: 'opencv',
+  detectionMode: 'contour',
+  motionAlgorithm: 'mog2',
+  preprocessing: 'auto',
+  helmetDetection: false,
+  calibration: null,
+  speedTrap: null,
+  reviewThresholds: DEFAULT_REVIEW_THRESHOLDS,
+  clipSettings: DEFAULT_CLIP_SETTINGS,
+});
+
+/**
+ * Get the configuration for a camera location
+ * @param location Camera location name
+ * @returns Promise with the saved configuration, or the defaults if none is saved
+ */
+export const getCameraConfig = async (location: string): Promise<CameraConfig> => {
+  try {
+    const docSnap = await getDoc(doc(firestore, 'cameraConfigs', getCameraConfigId(location)));
+
+    if (docSnap.exists()) {
+      return {
+        ...getDefaultCameraConfig(location),
+        ...docSnap.data(),
+      } as CameraConfig;
+    }
+
+    return getDefaultCameraConfig(location);
+  } catch (error) {
+    console.error('Error fetching camera config:', error);
+    throw error;
+  }
+};
+
+/**
+ * Save the configuration for a camera location
+ * @param config Camera configuration
+ * @returns Promise that resolves when the configuration is saved
+ */
+export const saveCameraConfig = async (config: CameraConfig): Promise<void> => {
+  try {
+    await setDoc(doc(firestore, 'cameraConfigs', getCameraConfigId(config.location)), {
+      ...config,
+      updatedAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error('Error saving camera config:', error);
+    throw error;
+  }
+};
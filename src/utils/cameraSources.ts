@@ -0,0 +1,600 @@
+// This file describes where a monitored camera's video comes from (a local
+// webcam, a video file or a network stream), keeps it connected and hands its
+// latest frame to the detection pipeline.
+
+/**
+ * Network stream protocol: progressive HTTP video, MJPEG over HTTP, an HLS
+ * playlist, or WebRTC negotiated with a WHEP signalling endpoint
+ */
+export type StreamProtocol = 'http' | 'mjpeg' | 'hls' | 'webrtc';
+
+/**
+ * Video source of a monitored camera
+ */
+export type CameraSource =
+  | { kind: 'webcam'; deviceId: string; label: string }
+  | { kind: 'file'; file: File }
+  | { kind: 'stream'; protocol: StreamProtocol; url: string };
+
+/**
+ * Interface for a local video input device
+ */
+export interface VideoDevice {
+  deviceId: string;
+  label: string;
+}
+
+export type ConnectionStatus = 'connecting' | 'live' | 'reconnecting' | 'failed';
+
+export interface ConnectionOptions {
+  /** Delay before the first reconnection attempt; doubled after every failed attempt */
+  initialRetryDelayMs: number;
+  maxRetryDelayMs: number;
+  /** A source that delivers no frame for this long is reconnected */
+  stallTimeoutMs: number;
+  onStatusChange?: (status: ConnectionStatus, error?: Error) => void;
+}
+
+interface SourceHandlers {
+  /** Called whenever the source delivers a frame */
+  onFrame: () => void;
+  /** Called when the source drops after it was opened */
+  onFailure: (error: Error) => void;
+}
+
+const DEFAULT_CONNECTION_OPTIONS: ConnectionOptions = {
+  initialRetryDelayMs: 1000,
+  maxRetryDelayMs: 30000,
+  stallTimeoutMs: 10000,
+};
+
+// Time allowed for a WHEP endpoint to answer an offer
+const SIGNALLING_TIMEOUT_MS = 10000;
+
+// Time allowed for gathering ICE candidates before the offer is sent without the rest
+const ICE_GATHERING_TIMEOUT_MS = 2000;
+
+// An MJPEG stream whose buffer grows past this without a complete frame is not MJPEG
+const MAX_MJPEG_BUFFER_BYTES = 8 * 1024 * 1024;
+
+/**
+ * List the local webcams
+ * @returns Promise with the video input devices, labelled once camera permission is granted
+ */
+export const listVideoDevices = async (): Promise<VideoDevice[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) {
+    return [];
+  }
+
+  try {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+
+    return devices
+      .filter(device => device.kind === 'videoinput')
+      .map((device, index) => ({
+        deviceId: device.deviceId,
+        // Labels are empty until the page has been granted camera access
+        label: device.label || `Camera ${index + 1}`,
+      }));
+  } catch (error) {
+    console.error('Error listing video devices:', error);
+    throw error;
+  }
+};
+
+/**
+ * Guess the protocol of a stream from its URL
+ * @param url Stream URL
+ * @returns Stream protocol, progressive HTTP video if nothing else matches
+ */
+export const detectStreamProtocol = (url: string): StreamProtocol => {
+  const path = url.split(/[?#]/)[0].toLowerCase();
+
+  if (path.endsWith('.m3u8')) {
+    return 'hls';
+  }
+
+  if (/(\.mjpe?g|\/mjpe?g|\/video\.cgi)$/.test(path)) {
+    return 'mjpeg';
+  }
+
+  return /\/whep$/.test(path) ? 'webrtc' : 'http';
+};
+
+/**
+ * Get a short description of a camera source
+ * @param source Camera source
+ * @returns Source description
+ */
+export const getCameraSourceLabel = (source: CameraSource): string => {
+  switch (source.kind) {
+    case 'webcam':
+      return source.label;
+    case 'file':
+      return source.file.name;
+    case 'stream':
+      return `${source.protocol.toUpperCase()} ${source.url}`;
+  }
+};
+
+/**
+ * Report frames and playback failures of a video element
+ * @param video Video element
+ * @param handlers Source handlers
+ * @returns Function that removes the listeners
+ */
+const watchVideo = (video: HTMLVideoElement, handlers: SourceHandlers): (() => void) => {
+  const handleError = () => handlers.onFailure(new Error(video.error?.message || 'Video playback failed'));
+  const handleEnded = () => handlers.onFailure(new Error('Stream ended'));
+
+  video.addEventListener('timeupdate', handlers.onFrame);
+  video.addEventListener('error', handleError);
+  video.addEventListener('ended', handleEnded);
+
+  return () => {
+    video.removeEventListener('timeupdate', handlers.onFrame);
+    video.removeEventListener('error', handleError);
+    video.removeEventListener('ended', handleEnded);
+  };
+};
+
+/**
+ * Detach whatever a video element is playing
+ * @param video Video element
+ */
+const resetVideo = (video: HTMLVideoElement) => {
+  video.pause();
+  video.srcObject = null;
+  video.removeAttribute('src');
+  video.load();
+};
+
+const openWebcam = async (
+  source: Extract<CameraSource, { kind: 'webcam' }>,
+  video: HTMLVideoElement,
+  handlers: SourceHandlers
+): Promise<() => void> => {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    video: { deviceId: { exact: source.deviceId } },
+  });
+
+  // A track ends when the camera is unplugged or taken by another application
+  const handleEnded = () => handlers.onFailure(new Error('Camera disconnected'));
+  stream.getVideoTracks().forEach(track => track.addEventListener('ended', handleEnded));
+
+  const unwatch = watchVideo(video, handlers);
+  video.srcObject = stream;
+
+  const stop = () => {
+    unwatch();
+    stream.getTracks().forEach(track => {
+      track.removeEventListener('ended', handleEnded);
+      track.stop();
+    });
+    resetVideo(video);
+  };
+
+  try {
+    await video.play();
+  } catch (error) {
+    stop();
+    throw error;
+  }
+
+  return stop;
+};
+
+const openVideoUrl = async (url: string, video: HTMLVideoElement, handlers: SourceHandlers): Promise<() => void> => {
+  const unwatch = watchVideo(video, handlers);
+  video.src = url;
+
+  const stop = () => {
+    unwatch();
+    resetVideo(video);
+  };
+
+  try {
+    await video.play();
+  } catch (error) {
+    stop();
+    throw error;
+  }
+
+  return stop;
+};
+
+const openHls = async (url: string, video: HTMLVideoElement, handlers: SourceHandlers): Promise<() => void> => {
+  // Safari plays HLS natively; other browsers need Media Source Extensions via hls.js
+  if (video.canPlayType('application/vnd.apple.mpegurl')) {
+    return openVideoUrl(url, video, handlers);
+  }
+
+  const { default: Hls } = await import('hls.js');
+  if (!Hls.isSupported()) {
+    throw new Error('HLS playback is not supported by this browser');
+  }
+
+  const hls = new Hls({ liveDurationInfinity: true });
+  hls.on(Hls.Events.ERROR, (_event, data) => {
+    if (data.fatal) {
+      handlers.onFailure(new Error(`HLS ${data.type}: ${data.details}`));
+    }
+  });
+
+  const unwatch = watchVideo(video, handlers);
+  hls.loadSource(url);
+  hls.attachMedia(video);
+
+  const stop = () => {
+    unwatch();
+    hls.destroy();
+    resetVideo(video);
+  };
+
+  try {
+    await video.play();
+  } catch (error) {
+    stop();
+    throw error;
+  }
+
+  return stop;
+};
+
+/**
+ * Wait until a peer connection has gathered its ICE candidates, or for a short timeout
+ * @param pc Peer connection
+ * @returns Promise that resolves when the offer can be sent
+ */
+const waitForIceGathering = (pc: RTCPeerConnection): Promise<void> => {
+  if (pc.iceGatheringState === 'complete') {
+    return Promise.resolve();
+  }
+
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timeout);
+      pc.removeEventListener('icegatheringstatechange', handleChange);
+      resolve();
+    };
+    const handleChange = () => {
+      if (pc.iceGatheringState === 'complete') done();
+    };
+    const timeout = setTimeout(done, ICE_GATHERING_TIMEOUT_MS);
+    pc.addEventListener('icegatheringstatechange', handleChange);
+  });
+};
+
+const openWebRtc = async (url: string, video: HTMLVideoElement, handlers: SourceHandlers): Promise<() => void> => {
+  const pc = new RTCPeerConnection();
+  let resourceUrl: string | null = null;
+
+  pc.addTransceiver('video', { direction: 'recvonly' });
+  pc.ontrack = (event) => {
+    video.srcObject = event.streams[0] || new MediaStream([event.track]);
+    video.play().catch(() => undefined);
+  };
+  // 'disconnected' often recovers on its own; a stream that stays down is caught by the stall timeout
+  pc.onconnectionstatechange = () => {
+    if (pc.connectionState === 'failed') {
+      handlers.onFailure(new Error('WebRTC connection failed'));
+    }
+  };
+
+  const unwatch = watchVideo(video, handlers);
+
+  const stop = () => {
+    unwatch();
+    pc.close();
+    resetVideo(video);
+    // Tell the endpoint the session is over so it can release it
+    if (resourceUrl) {
+      fetch(resourceUrl, { method: 'DELETE' }).catch(() => undefined);
+    }
+  };
+
+  try {
+    await pc.setLocalDescription(await pc.createOffer());
+    await waitForIceGathering(pc);
+
+    // WHEP: POST the offer to the endpoint, which answers with its SDP
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/sdp' },
+      body: pc.localDescription?.sdp,
+      signal: AbortSignal.timeout(SIGNALLING_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Signalling endpoint returned ${response.status}`);
+    }
+
+    const location = response.headers.get('Location');
+    resourceUrl = location ? new URL(location, url).href : null;
+
+    await pc.setRemoteDescription({ type: 'answer', sdp: await response.text() });
+  } catch (error) {
+    stop();
+    throw error;
+  }
+
+  return stop;
+};
+
+/**
+ * Find a byte pair in a buffer
+ * @param buffer Buffer to search
+ * @param first First byte
+ * @param second Second byte
+ * @param from Index to start searching at
+ * @returns Index of the first byte, or -1 if not found
+ */
+const indexOfMarker = (buffer: Uint8Array, first: number, second: number, from: number): number => {
+  for (let i = from; i < buffer.length - 1; i++) {
+    if (buffer[i] === first && buffer[i + 1] === second) {
+      return i;
+    }
+  }
+
+  return -1;
+};
+
+const openMjpeg = async (url: string, canvas: HTMLCanvasElement, handlers: SourceHandlers): Promise<() => void> => {
+  const controller = new AbortController();
+  let decoding = false;
+
+  const drawFrame = async (jpeg: Uint8Array) => {
+    // Frames that arrive while the previous one is still decoding are dropped
+    if (decoding) return;
+
+    decoding = true;
+    try {
+      const bitmap = await createImageBitmap(new Blob([jpeg], { type: 'image/jpeg' }));
+      if (!controller.signal.aborted) {
+        canvas.width = bitmap.width;
+        canvas.height = bitmap.height;
+        canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+        handlers.onFrame();
+      }
+      bitmap.close();
+    } catch {
+      // A corrupt frame is skipped; a stream of them trips the stall timeout
+    } finally {
+      decoding = false;
+    }
+  };
+
+  const read = async () => {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok || !response.body) {
+      throw new Error(`MJPEG stream returned ${response.status}`);
+    }
+
+    const reader = response.body.getReader();
+    let buffer = new Uint8Array(0);
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        throw new Error('MJPEG stream ended');
+      }
+
+      const joined = new Uint8Array(buffer.length + value.length);
+      joined.set(buffer);
+      joined.set(value, buffer.length);
+      buffer = joined;
+
+      // Each part of the multipart response is one JPEG, from its SOI to its EOI marker
+      for (;;) {
+        const start = indexOfMarker(buffer, 0xff, 0xd8, 0);
+        const end = start >= 0 ? indexOfMarker(buffer, 0xff, 0xd9, start + 2) : -1;
+
+        if (start < 0) {
+          buffer = buffer.slice(Math.max(0, buffer.length - 1));
+          break;
+        }
+
+        if (end < 0) {
+          buffer = buffer.slice(start);
+          break;
+        }
+
+        drawFrame(buffer.slice(start, end + 2));
+        buffer = buffer.slice(end + 2);
+      }
+
+      if (buffer.length > MAX_MJPEG_BUFFER_BYTES) {
+        throw new Error('MJPEG stream contains no frames');
+      }
+    }
+  };
+
+  // Frames keep arriving on the open response, so reading carries on after this resolves
+  read().catch((error) => {
+    if (!controller.signal.aborted) {
+      handlers.onFailure(error instanceof Error ? error : new Error(String(error)));
+    }
+  });
+
+  return () => controller.abort();
+};
+
+/**
+ * Open a camera source, playing it in the given element
+ * @param source Camera source
+ * @param element Video element, or a canvas for MJPEG streams
+ * @param handlers Source handlers
+ * @returns Promise with a function that closes the source
+ */
+const openSource = (
+  source: CameraSource,
+  element: HTMLVideoElement | HTMLCanvasElement,
+  handlers: SourceHandlers
+): Promise<() => void> => {
+  if (element instanceof HTMLCanvasElement) {
+    return openMjpeg((source as Extract<CameraSource, { kind: 'stream' }>).url, element, handlers);
+  }
+
+  if (source.kind === 'webcam') {
+    return openWebcam(source, element, handlers);
+  }
+
+  if (source.kind === 'file') {
+    const url = URL.createObjectURL(source.file);
+    element.loop = true;
+
+    return openVideoUrl(url, element, handlers).then(
+      (stop) => () => {
+        stop();
+        URL.revokeObjectURL(url);
+      },
+      (error) => {
+        URL.revokeObjectURL(url);
+        throw error;
+      }
+    );
+  }
+
+  // Frames of cross-origin streams can only be read back if the server allows it
+  element.crossOrigin = 'anonymous';
+
+  switch (source.protocol) {
+    case 'hls':
+      return openHls(source.url, element, handlers);
+    case 'webrtc':
+      return openWebRtc(source.url, element, handlers);
+    default:
+      return openVideoUrl(source.url, element, handlers);
+  }
+};
+
+/**
+ * Connect to a camera source, reconnecting with exponential backoff whenever
+ * it fails or stops delivering frames
+ * @param source Camera source
+ * @param options Reconnection settings and status listener
+ * @returns Camera connection
+ */
+export const createCameraConnection = (source: CameraSource, options: Partial<ConnectionOptions> = {}) => {
+  const settings = { ...DEFAULT_CONNECTION_OPTIONS, ...options };
+  const isMjpeg = source.kind === 'stream' && source.protocol === 'mjpeg';
+  const element: HTMLVideoElement | HTMLCanvasElement = document.createElement(isMjpeg ? 'canvas' : 'video');
+  // A video file cannot recover by reopening it
+  const canReconnect = source.kind !== 'file';
+
+  if (element instanceof HTMLVideoElement) {
+    element.muted = true;
+    element.playsInline = true;
+  }
+
+  let status: ConnectionStatus = 'connecting';
+  let closeSource: (() => void) | null = null;
+  let attempt = 0;
+  let lastFrameAt = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+  // Incremented for every attempt, so that late events from an abandoned attempt are ignored
+  let generation = 0;
+
+  const setStatus = (next: ConnectionStatus, error?: Error) => {
+    status = next;
+    settings.onStatusChange?.(next, error);
+  };
+
+  const handleFailure = (error: Error) => {
+    if (closed) return;
+
+    generation++;
+    closeSource?.();
+    closeSource = null;
+
+    if (!canReconnect) {
+      setStatus('failed', error);
+      return;
+    }
+
+    const delay = Math.min(settings.maxRetryDelayMs, settings.initialRetryDelayMs * 2 ** attempt);
+    attempt++;
+    setStatus('reconnecting', error);
+    retryTimer = setTimeout(connect, delay);
+  };
+
+  const connect = async () => {
+    const current = ++generation;
+    retryTimer = null;
+
+    try {
+      const stop = await openSource(source, element, {
+        onFrame: () => {
+          if (current !== generation) return;
+          lastFrameAt = Date.now();
+          if (status !== 'live') {
+            attempt = 0;
+            setStatus('live');
+          }
+        },
+        onFailure: (error) => {
+          if (current === generation) handleFailure(error);
+        },
+      });
+
+      if (closed || current !== generation) {
+        stop();
+        return;
+      }
+
+      closeSource = stop;
+      lastFrameAt = Date.now();
+    } catch (error) {
+      if (current === generation) {
+        handleFailure(error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+  };
+
+  const watchdog = setInterval(() => {
+    if (closeSource && Date.now() - lastFrameAt > settings.stallTimeoutMs) {
+      handleFailure(new Error('No frames received'));
+    }
+  }, 1000);
+
+  setStatus('connecting');
+  connect();
+
+  return {
+    /** Element showing the live picture, to be placed in the page by the caller */
+    element,
+
+    getStatus: (): ConnectionStatus => status,
+
+    /**
+     * Copy the latest frame into a new canvas
+     * @returns Canvas with the frame, or null if no frame has arrived yet
+     */
+    grabFrame: (): HTMLCanvasElement | null => {
+      const width = element instanceof HTMLVideoElement ? element.videoWidth : element.width;
+      const height = element instanceof HTMLVideoElement ? element.videoHeight : element.height;
+
+      if (status !== 'live' || !width || !height) {
+        return null;
+      }
+
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      canvas.getContext('2d')?.drawImage(element, 0, 0, width, height);
+      return canvas;
+    },
+
+    close: () => {
+      closed = true;
+      generation++;
+      clearInterval(watchdog);
+      if (retryTimer) clearTimeout(retryTimer);
+      closeSource?.();
+      closeSource = null;
+    },
+  };
+};
+
+export type CameraConnection = ReturnType<typeof createCameraConnection>;
@@ -1,8 +1,15 @@
 import { firestore } from '../firebase';
-import { collection, query, where, getDocs, addDoc, updateDoc, doc, serverTimestamp, orderBy, getDoc, Timestamp } from 'firebase/firestore';
+import { collection, query, where, getDocs, addDoc, updateDoc, doc, serverTimestamp, orderBy, getDoc, Timestamp, DocumentReference } from 'firebase/firestore';
 import fs from 'fs';
 import path from 'path';
 import challanData from '../data/challanData.json';
+import { normaliseRegistrationNumber } from './registrationNumber';
+import { VehicleDimensions } from './calibration';
+import { ChallanEvidence, EvidenceCapture, EvidenceImage, uploadEvidence, uploadEvidenceClip } from './evidence';
+import { getSpeedLimit, getVehicleDataType } from './speedEstimation';
+import { evaluateZoneRules, ZoneCategory, ZoneRuleMatch } from './zoneRules';
+import { ViolationConfidence } from './confidence';
+import { BodyStyle, VehicleColour } from './vehicleAttributes';
 
 export type ViolationType = keyof typeof challanData.violationTypes;
 export type VehicleType = keyof typeof challanData.vehicleTypes;
@@ -17,11 +24,25 @@ export interface Challan {
   timestamp: Timestamp;
   amount: number;
   status: 'pending' | 'paid';
-  vehicleType: VehicleType;
+  /** Vehicle type as classified, e.g. 'Car', or a fine table key, e.g. 'car', on older challans */
+  vehicleType: string;
   violationType: ViolationType;
   userId: string;
   paidAt?: Timestamp;
   paymentMethod?: 'card' | 'wallet';
+  evidence?: ChallanEvidence;
+  /** Measured speed and the limit it broke, in km/h, for speeding challans */
+  measuredSpeed?: number;
+  speedLimit?: number;
+  /** Speed limit set at the camera, if any, in km/h */
+  zoneSpeedLimit?: number;
+  /** Zone rule the vehicle broke, for no-entry challans */
+  rule?: ZoneRuleMatch;
+  /** Confidence of the detection the challan was issued from */
+  confidence?: ViolationConfidence;
+  /** Appearance of the detected vehicle, to check against its registration */
+  vehicleColour?: VehicleColour;
+  bodyStyle?: BodyStyle;
 }
 
 /**
@@ -90,6 +111,34 @@ export const getPendingChallans = async (userId: string): Promise<Challan[]> =>
   }
 };
 
+/**
+ * Get every challan in the system, newest first
+ * @returns Promise with array of challans
+ */
+export const getAllChallans = async (): Promise<Challan[]> => {
+  try {
+    const q = query(collection(firestore, 'challans'), orderBy('timestamp', 'desc'));
+
+    const querySnapshot = await getDocs(q);
+    const challans: Challan[] = [];
+
+    querySnapshot.forEach((doc) => {
+      const data = doc.data();
+      challans.push({
+        id: doc.id,
+        ...data,
+        timestamp: data.timestamp as Timestamp,
+        paidAt: data.paidAt as Timestamp,
+      } as Challan);
+    });
+
+    return challans;
+  } catch (error) {
+    console.error('Error fetching challans:', error);
+    throw error;
+  }
+};
+
 /**
  * Get a specific challan by ID
  * @param challanId Challan ID
@@ -117,6 +166,17 @@ export const getChallanById = async (challanId: string): Promise<Challan | null>
   }
 };
 
+/**
+ * Get the Firestore fields of a new challan
+ * @param challanData Challan data
+ * @returns Document fields, with the vehicle number normalised and the server time as the timestamp
+ */
+export const getNewChallanFields = (challanData: Omit<Challan, 'id'>) => ({
+  ...challanData,
+  vehicleNumber: normaliseRegistrationNumber(challanData.vehicleNumber),
+  timestamp: serverTimestamp(),
+});
+
 /**
  * Create a new challan
  * @param challanData Challan data
@@ -124,10 +184,7 @@ export const getChallanById = async (challanId: string): Promise<Challan | null>
  */
 export const createChallan = async (challanData: Omit<Challan, 'id'>): Promise<string> => {
   try {
-    const docRef = await addDoc(collection(firestore, 'challans'), {
-      ...challanData,
-      timestamp: serverTimestamp(),
-    });
+    const docRef = await addDoc(collection(firestore, 'challans'), getNewChallanFields(challanData));
 
     return docRef.id;
   } catch (error) {
@@ -171,8 +228,13 @@ export const getViolationDescription = (violationType: ViolationType): string =>
   return challanData.violationTypes[violationType].description;
 };
 
-export const getVehicleDescription = (vehicleType: VehicleType): string => {
-  return challanData.vehicleTypes[vehicleType].description;
+/**
+ * Get the description of a vehicle type
+ * @param vehicleType Vehicle type as stored on the challan, e.g. 'Car', or a fine table key, e.g. 'car'
+ * @returns Description, e.g. 'Four-wheeler'
+ */
+export const getVehicleDescription = (vehicleType: string): string => {
+  return challanData.vehicleTypes[getVehicleDataType(vehicleType)].description;
 };
 
 export const getAllViolationTypes = (): ViolationType[] => {
@@ -183,6 +245,339 @@ export const getAllVehicleTypes = (): VehicleType[] => {
   return Object.keys(challanData.vehicleTypes) as VehicleType[];
 };
 
+/**
+ * Interface for a detected violation before it is written to Firestore
+ */
+export interface ViolationAssessment {
+  vehicleNumber: string;
+  vehicleType: string;
+  violationType: string;
+  dimensions: VehicleDimensions;
+  fineAmount: number;
+  /** Measured speed and the limit that applied, in km/h, for speeding violations */
+  measuredSpeed?: number;
+  speedLimit?: number;
+  /** Speed limit set at the camera, kept so the limit can be worked out again for a corrected vehicle type */
+  zoneSpeedLimit?: number;
+  /** Zone rule the vehicle broke, if the camera's zone category was checked */
+  rule?: ZoneRuleMatch;
+  /** Confidence of the detection, set by the pipeline */
+  confidence?: ViolationConfidence;
+  /** Appearance of the vehicle, set by the pipeline */
+  vehicleColour?: VehicleColour;
+  bodyStyle?: BodyStyle;
+}
+
+/**
+ * Work out the fine for a vehicle that entered a no-entry zone
+ * @param vehicleNumber Plate text aggregated across the track
+ * @param vehicleType Vehicle type from the detector, or from classifyVehicleType if it gives none
+ * @param dimensions Vehicle dimensions measured with the camera's calibration
+ * @param zoneCategory Zone category of the camera; without one every entry is a violation
+ * @param at Time the vehicle was seen, for time-windowed rules
+ * @returns Violation details, or null if the zone rules allow the vehicle
+ */
+export const assessVehicleViolation = (
+  vehicleNumber: string,
+  vehicleType: string,
+  dimensions: VehicleDimensions,
+  zoneCategory: ZoneCategory | null = null,
+  at: Date = new Date()
+): ViolationAssessment | null => {
+  const rule = zoneCategory ? evaluateZoneRules(vehicleType, zoneCategory, at) : null;
+  if (zoneCategory && !rule) {
+    return null;
+  }
+  
+  return {
+    vehicleNumber,
+    vehicleType,
+    violationType: 'No-Entry Zone Violation',
+    dimensions,
+    // Calculate fine based on vehicle type
+    fineAmount: calculateFine(vehicleType),
+    ...(rule && { rule })
+  };
+};
+
+/**
+ * Check a measured speed against the limit for the vehicle
+ * @param vehicleNumber Plate text aggregated across the track
+ * @param vehicleType Vehicle type from the detector, or from classifyVehicleType if it gives none
+ * @param dimensions Vehicle dimensions measured with the camera's calibration
+ * @param measuredSpeed Measured speed in km/h
+ * @param zoneLimit Speed limit at the camera, if one is set
+ * @returns Violation details, or null if the vehicle was within the limit
+ */
+export const assessSpeedingViolation = (
+  vehicleNumber: string,
+  vehicleType: string,
+  dimensions: VehicleDimensions,
+  measuredSpeed: number,
+  zoneLimit: number | null
+): ViolationAssessment | null => {
+  const speedLimit = getSpeedLimit(vehicleType, zoneLimit);
+
+  if (measuredSpeed <= speedLimit) {
+    return null;
+  }
+
+  return {
+    vehicleNumber,
+    vehicleType,
+    violationType: 'speeding',
+    dimensions,
+    fineAmount: getViolationFine('speeding', vehicleType),
+    measuredSpeed: Math.round(measuredSpeed),
+    speedLimit,
+    ...(zoneLimit && { zoneSpeedLimit: zoneLimit })
+  };
+};
+
+/**
+ * Work out the fine for a motorcycle rider seen without a helmet
+ * @param vehicleNumber Plate text aggregated across the track
+ * @param dimensions Vehicle dimensions measured with the camera's calibration
+ * @returns Violation details
+ */
+export const assessHelmetViolation = (
+  vehicleNumber: string,
+  dimensions: VehicleDimensions
+): ViolationAssessment => {
+  // The helmet check only runs on motorcycles, whatever their measured size suggests
+  const vehicleType = 'Motorcycle';
+
+  return {
+    vehicleNumber,
+    vehicleType,
+    violationType: 'noHelmet',
+    dimensions,
+    fineAmount: getViolationFine('noHelmet', vehicleType)
+  };
+};
+
+/**
+ * Interface for the parts of a violation that depend on the vehicle type
+ */
+export interface ReassessedViolation {
+  fineAmount: number;
+  speedLimit?: number;
+  rule?: ZoneRuleMatch;
+}
+
+/**
+ * Check a detected violation again for a corrected vehicle type
+ * @param violation Violation as detected
+ * @param vehicleType Corrected vehicle type, e.g. 'Car'
+ * @param at Time the vehicle was seen, for time-windowed rules
+ * @returns Fine, speed limit and zone rule for the corrected type, or null if a vehicle of that type did not violate
+ */
+export const reassessViolation = (
+  violation: Pick<ViolationAssessment, 'violationType' | 'measuredSpeed' | 'zoneSpeedLimit' | 'rule'>,
+  vehicleType: string,
+  at: Date
+): ReassessedViolation | null => {
+  const fineAmount = getViolationFine(violation.violationType, vehicleType);
+
+  if (violation.violationType === 'speeding') {
+    const speedLimit = getSpeedLimit(vehicleType, violation.zoneSpeedLimit ?? null);
+    return violation.measuredSpeed !== undefined && violation.measuredSpeed > speedLimit
+      ? { fineAmount, speedLimit }
+      : null;
+  }
+
+  if (violation.violationType === 'noHelmet') {
+    return vehicleType.toLowerCase() === 'motorcycle' ? { fineAmount } : null;
+  }
+
+  // Without a zone category every vehicle in the zone violates, whatever its type
+  if (!violation.rule) {
+    return { fineAmount };
+  }
+
+  const rule = evaluateZoneRules(vehicleType, violation.rule.category, at);
+  return rule ? { fineAmount, rule } : null;
+};
+
+/**
+ * Describe a detected violation for display
+ * @param violation Violation type, and the measured speed for speeding
+ * @returns Description, e.g. 'Speeding at 72 km/h' or 'Not wearing helmet'
+ */
+export const describeViolation = (violation: { violationType: string; measuredSpeed?: number }): string => {
+  if (violation.violationType === 'speeding') {
+    return `Speeding at ${violation.measuredSpeed} km/h`;
+  }
+
+  return violation.violationType in challanData.violationTypes
+    ? getViolationDescription(violation.violationType as ViolationType)
+    : violation.violationType;
+};
+
+/**
+ * Get the Firestore fields describing a detected violation
+ * @param violation Violation details
+ * @returns Document fields, without the optional ones that are not set
+ */
+export const getViolationFields = (violation: ViolationAssessment) => {
+  const {
+    vehicleNumber,
+    vehicleType,
+    violationType,
+    dimensions,
+    fineAmount,
+    measuredSpeed,
+    speedLimit,
+    zoneSpeedLimit,
+    rule,
+    confidence,
+    vehicleColour,
+    bodyStyle
+  } = violation;
+
+  return {
+    vehicleNumber,
+    vehicleType,
+    violationType,
+    dimensions,
+    amount: fineAmount,
+    // Firestore rejects undefined fields
+    ...(measuredSpeed !== undefined && { measuredSpeed, speedLimit }),
+    ...(zoneSpeedLimit !== undefined && { zoneSpeedLimit }),
+    ...(rule && { rule }),
+    ...(confidence && { confidence }),
+    ...(vehicleColour && { vehicleColour }),
+    ...(bodyStyle && { bodyStyle })
+  };
+};
+
+/**
+ * Get the Firestore fields of a challan issued for a detected violation
+ *
+ * Challans issued automatically and those approved from the review queue are
+ * written with the same fields.
+ * @param violation Violation details
+ * @param location Detection location
+ * @returns Document fields, with the server time as the timestamp
+ */
+export const getDetectedChallanFields = (violation: ViolationAssessment, location: string) => ({
+  ...getViolationFields(violation),
+  vehicleNumber: normaliseRegistrationNumber(violation.vehicleNumber),
+  location,
+  timestamp: serverTimestamp(),
+  status: 'pending' as const,
+  // Owners are matched to detected challans by vehicle number, not at issue time
+  userId: '',
+});
+
+/**
+ * Upload evidence for a violation document and attach it
+ * @param docRef Challan or review document
+ * @param capture Evidence images, if any were captured
+ * @returns Stored evidence, or null if there was none or the upload failed
+ */
+export const attachEvidence = async (
+  docRef: DocumentReference,
+  capture: EvidenceCapture | null
+): Promise<ChallanEvidence | null> => {
+  if (!capture) {
+    return null;
+  }
+
+  // The document stands without its evidence, so a failed upload is logged rather than thrown
+  try {
+    const evidence = await uploadEvidence(docRef.id, capture);
+    await updateDoc(docRef, { evidence });
+    return evidence;
+  } catch (error) {
+    console.error('Error attaching evidence:', error);
+    return null;
+  }
+};
+
+/**
+ * Upload a violation's video clip and add it to the evidence of its document
+ * @param docRef Challan or review item that already has its evidence images
+ * @param clip WebM clip
+ * @returns Promise with the stored clip, or null if it could not be attached
+ */
+export const attachEvidenceClip = async (docRef: DocumentReference, clip: Blob): Promise<EvidenceImage | null> => {
+  // As with the images, the document stands without its clip
+  try {
+    const stored = await uploadEvidenceClip(docRef.id, clip);
+    await updateDoc(docRef, { 'evidence.clip': stored });
+    return stored;
+  } catch (error) {
+    console.error('Error attaching evidence clip:', error);
+    return null;
+  }
+};
+
+/**
+ * Attach a video clip to an issued challan
+ * @param challanId Challan ID
+ * @param clip WebM clip
+ * @returns Promise with the stored clip, or null if it could not be attached
+ */
+export const attachChallanClip = (challanId: string, clip: Blob): Promise<EvidenceImage | null> => {
+  return attachEvidenceClip(doc(firestore, 'challans', challanId), clip);
+};
+
+/**
+ * Record a detected violation as a challan
+ * @param violation Violation details from assessVehicleViolation, assessSpeedingViolation or assessHelmetViolation
+ * @param location Detection location
+ * @param capture Evidence images to upload and attach to the challan
+ * @returns Created challan details, or null on failure
+ */
+export const recordVehicleViolation = async (
+  violation: ViolationAssessment,
+  location: string,
+  capture: EvidenceCapture | null = null
+) => {
+  try {
+    // Create challan in Firestore
+    const challanRef = await addDoc(collection(firestore, 'challans'), getDetectedChallanFields(violation, location));
+
+    const evidence = await attachEvidence(challanRef, capture);
+
+    return {
+      id: challanRef.id,
+      ...violation,
+      evidence
+    };
+  } catch (error) {
+    console.error('Error recording vehicle violation:', error);
+    return null;
+  }
+};
+
+/**
+ * Get the fine for a detected violation
+ * @param violationType Violation type, e.g. 'speeding', 'noHelmet' or 'No-Entry Zone Violation'
+ * @param vehicleType Vehicle type from classifyVehicleType
+ * @returns Fine amount
+ */
+export const getViolationFine = (violationType: string, vehicleType: string): number => {
+  if (violationType in challanData.violationTypes) {
+    return getChallanAmount(violationType as ViolationType, getVehicleDataType(vehicleType));
+  }
+
+  return calculateFine(vehicleType);
+};
+
+const calculateFine = (vehicleType: string): number => {
+  const baseFines = {
+    'Motorcycle': 500,
+    'Car': 1000,
+    'Van': 1500,
+    'Bus': 2000,
+    'Truck': 2500
+  };
+  
+  return baseFines[vehicleType as keyof typeof baseFines] || 1000;
+};
+
 /**
  * Add challans from a JSON file to Firestore
  * @param userId User ID to associate with the challans
@@ -0,0 +1,343 @@
+// This file keeps a rolling recording of a camera feed with MediaRecorder, so
+// that each violation can be saved as a clip from before to after it happened,
+// and records whole sessions for export with a log of the detections.
+
+import { fitFrame, OverlayFrame, renderAnnotations } from './annotationRenderer';
+import { attachChallanClip } from './challanUtils';
+import { TrackAnnotation } from './detectionPipeline';
+import { EvidenceImage } from './evidence';
+import { attachReviewClip } from './reviewQueue';
+import { ZoneConfig } from './zoneGeometry';
+
+/**
+ * Interface for a camera's evidence clip settings
+ */
+export interface ClipSettings {
+  enabled: boolean;
+  /** Seconds recorded before and after each violation */
+  seconds: number;
+  /** Draw the detection overlay into the clips */
+  burnInOverlay: boolean;
+}
+
+export const DEFAULT_CLIP_SETTINGS: ClipSettings = {
+  enabled: false,
+  seconds: 5,
+  burnInOverlay: true,
+};
+
+export interface ClipRecorderOptions {
+  /** Video or canvas showing the feed */
+  getMedia: () => HTMLVideoElement | HTMLCanvasElement | null;
+  /** Latest annotations and zone, drawn into the recording when the overlay is burned in */
+  getOverlay?: () => { frame: OverlayFrame | null; zone: ZoneConfig | null };
+  burnInOverlay: boolean;
+  /** Keep the rolling buffer that violation clips are cut from; sessions can be recorded without it */
+  rollingClips: boolean;
+  /** Video kept before a violation */
+  preRollMs: number;
+  /** Video recorded after a violation */
+  postRollMs: number;
+  fps?: number;
+}
+
+/**
+ * Interface for the detections logged alongside a session recording
+ */
+export interface SessionLog {
+  location: string;
+  /** ISO timestamp of the start of the recording */
+  startedAt: string;
+  /** Annotations of each processed frame, by time into the recording */
+  frames: { offsetMs: number; annotations: TrackAnnotation[] }[];
+  violations: {
+    offsetMs: number;
+    id: string;
+    vehicleNumber: string;
+    violationType: string;
+    inReview: boolean;
+  }[];
+}
+
+export interface SessionRecording {
+  video: Blob;
+  log: SessionLog;
+}
+
+interface Segment {
+  recorder: MediaRecorder;
+  chunks: Blob[];
+  startedAt: number;
+  /** Time the segment records until, once a clip needs it */
+  stopAt: number | null;
+  stopTimer: ReturnType<typeof setTimeout> | null;
+  waiters: ((clip: Blob | null) => void)[];
+}
+
+const DEFAULT_FPS = 15;
+
+// Recorded data is collected in chunks of this length rather than all at the end
+const CHUNK_MS = 1000;
+
+// Preferred recording formats, best first
+const MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+/**
+ * Check whether the browser can record clips
+ * @returns True if MediaRecorder and canvas capture are available
+ */
+export const isClipRecordingSupported = (): boolean => {
+  return typeof MediaRecorder !== 'undefined' && typeof HTMLCanvasElement.prototype.captureStream === 'function';
+};
+
+/**
+ * Create a rolling recorder for a camera feed
+ *
+ * A WebM file cannot be cut from the middle of a recording, so recordings are
+ * started in overlapping segments, one every pre-roll period. A clip keeps the
+ * segment that started just before its pre-roll running until the post-roll
+ * has been recorded; segments no clip needs are discarded.
+ * @param options Feed, overlay and clip lengths
+ * @returns Clip recorder
+ */
+export const createClipRecorder = (options: ClipRecorderOptions) => {
+  const fps = options.fps || DEFAULT_FPS;
+  const segmentIntervalMs = Math.max(1000, options.preRollMs);
+  const canvas = document.createElement('canvas');
+  const stream = canvas.captureStream(fps);
+  const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  let segments: Segment[] = [];
+  let lastSegmentAt = 0;
+  let session: { recorder: MediaRecorder; chunks: Blob[]; startedAt: number; log: SessionLog } | null = null;
+
+  /**
+   * Copy the current picture of the feed, and the overlay if burned in, to the recorded canvas
+   * @returns True if a picture was drawn
+   */
+  const drawFrame = (): boolean => {
+    const media = options.getMedia();
+    const width = media instanceof HTMLVideoElement ? media.videoWidth : media?.width || 0;
+    const height = media instanceof HTMLVideoElement ? media.videoHeight : media?.height || 0;
+    const ctx = canvas.getContext('2d');
+
+    if (!media || !width || !height || !ctx) {
+      return false;
+    }
+
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+
+    ctx.drawImage(media, 0, 0, width, height);
+
+    if (options.burnInOverlay && options.getOverlay) {
+      const { frame, zone } = options.getOverlay();
+      renderAnnotations(ctx, frame, zone, fitFrame(width, height, width, height), Math.max(11, Math.round(width / 80)));
+    }
+
+    return true;
+  };
+
+  const startSegment = (now: number) => {
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const segment: Segment = { recorder, chunks: [], startedAt: now, stopAt: null, stopTimer: null, waiters: [] };
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) segment.chunks.push(event.data);
+    };
+    recorder.onstop = () => {
+      const clip = segment.waiters.length > 0 && segment.chunks.length > 0
+        ? new Blob(segment.chunks, { type: recorder.mimeType || 'video/webm' })
+        : null;
+      segment.chunks = [];
+      segment.waiters.forEach(resolve => resolve(clip));
+    };
+
+    recorder.start(CHUNK_MS);
+    segments.push(segment);
+    lastSegmentAt = now;
+  };
+
+  const stopSegment = (segment: Segment) => {
+    segments = segments.filter(s => s !== segment);
+    if (segment.stopTimer) clearTimeout(segment.stopTimer);
+
+    if (segment.recorder.state !== 'inactive') {
+      segment.recorder.stop();
+    } else {
+      segment.waiters.forEach(resolve => resolve(null));
+    }
+  };
+
+  const tick = () => {
+    if (!drawFrame()) return;
+
+    const now = Date.now();
+    if (options.rollingClips && now - lastSegmentAt >= segmentIntervalMs) {
+      startSegment(now);
+    }
+
+    // Once a younger segment covers the pre-roll, older unclaimed ones are no longer needed
+    segments
+      .filter(segment => segment.stopAt === null && now - segment.startedAt > options.preRollMs + segmentIntervalMs)
+      .forEach(stopSegment);
+  };
+
+  const interval = setInterval(tick, 1000 / fps);
+
+  return {
+    /**
+     * Save a clip around a moment
+     * @param at Time of the violation, in ms since the epoch
+     * @returns Promise with the WebM clip once the post-roll has been recorded, or null if nothing was recorded
+     */
+    captureClip: (at: number = Date.now()): Promise<Blob | null> => {
+      if (segments.length === 0) {
+        return Promise.resolve(null);
+      }
+
+      // The youngest segment that covers the pre-roll, or the oldest one if none does yet
+      const covering = segments.filter(segment => segment.startedAt <= at - options.preRollMs);
+      const segment = covering.length > 0 ? covering[covering.length - 1] : segments[0];
+
+      // Violations close together share a segment, which then records until the last one's post-roll
+      segment.stopAt = Math.max(segment.stopAt || 0, at + options.postRollMs);
+      if (segment.stopTimer) clearTimeout(segment.stopTimer);
+      segment.stopTimer = setTimeout(() => stopSegment(segment), Math.max(0, segment.stopAt - Date.now()));
+
+      return new Promise(resolve => segment.waiters.push(resolve));
+    },
+
+    isSessionRecording: () => session !== null,
+
+    /**
+     * Start recording a session
+     * @param location Camera location, stored in the session log
+     */
+    startSession: (location: string) => {
+      if (session) return;
+
+      const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+      const chunks: Blob[] = [];
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      recorder.start(CHUNK_MS);
+
+      const startedAt = Date.now();
+      session = {
+        recorder,
+        chunks,
+        startedAt,
+        log: { location, startedAt: new Date(startedAt).toISOString(), frames: [], violations: [] },
+      };
+    },
+
+    /**
+     * Add a processed frame to the session log
+     * @param frame Annotations of the frame
+     */
+    logFrame: (frame: OverlayFrame) => {
+      session?.log.frames.push({ offsetMs: frame.timestamp - session.startedAt, annotations: frame.annotations });
+    },
+
+    /**
+     * Add a violation to the session log
+     * @param violation Recorded violation
+     * @param inReview Whether it was sent to the review queue
+     * @param at Time of the violation, in ms since the epoch
+     */
+    logViolation: (
+      violation: { id: string; vehicleNumber: string; violationType: string },
+      inReview: boolean,
+      at: number
+    ) => {
+      session?.log.violations.push({
+        offsetMs: at - session.startedAt,
+        id: violation.id,
+        vehicleNumber: violation.vehicleNumber,
+        violationType: violation.violationType,
+        inReview,
+      });
+    },
+
+    /**
+     * Stop recording the session
+     * @returns Promise with the recording and its log, or null if no session was recording
+     */
+    stopSession: (): Promise<SessionRecording | null> => {
+      const current = session;
+      session = null;
+
+      if (!current) {
+        return Promise.resolve(null);
+      }
+
+      return new Promise(resolve => {
+        current.recorder.onstop = () => {
+          resolve({
+            video: new Blob(current.chunks, { type: current.recorder.mimeType || 'video/webm' }),
+            log: current.log,
+          });
+        };
+        current.recorder.stop();
+      });
+    },
+
+    dispose: () => {
+      clearInterval(interval);
+      [...segments].forEach(stopSegment);
+      if (session && session.recorder.state !== 'inactive') {
+        session.recorder.stop();
+      }
+      session = null;
+      stream.getTracks().forEach(track => track.stop());
+    },
+  };
+};
+
+export type ClipRecorder = ReturnType<typeof createClipRecorder>;
+
+/**
+ * Attach the clip of a violation to its challan or review item once it has been recorded
+ * @param clipRequest Clip from captureClip, requested when the violation was decided
+ * @param violationId Challan or review item ID
+ * @param inReview Whether the violation was sent to the review queue
+ * @returns Promise with the stored clip, or null if none was recorded or it could not be attached
+ */
+export const attachViolationClip = async (
+  clipRequest: Promise<Blob | null>,
+  violationId: string,
+  inReview: boolean
+): Promise<EvidenceImage | null> => {
+  const clip = await clipRequest;
+  if (!clip) {
+    return null;
+  }
+
+  return inReview ? attachReviewClip(violationId, clip) : attachChallanClip(violationId, clip);
+};
+
+/**
+ * Download a session recording as a WebM file with a JSON sidecar of its detections
+ * @param recording Session recording
+ * @param baseName File name without extension
+ */
+export const downloadSessionRecording = (recording: SessionRecording, baseName: string) => {
+  const files: [Blob, string][] = [
+    [recording.video, `${baseName}.webm`],
+    [new Blob([JSON.stringify(recording.log, null, 2)], { type: 'application/json' }), `${baseName}.json`],
+  ];
+
+  for (const [blob, fileName] of files) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', fileName);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+};
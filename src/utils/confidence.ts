@@ -0,0 +1,163 @@
+// This file scores how far a detected violation can be trusted, from the
+// detector's score, the OCR character confidences, how well the plate fits a
+// registration format and how steadily the vehicle was tracked.
+
+import { DetectedPlate } from './numberPlateDetection';
+import { parseRegistrationNumber, RegistrationNumber } from './registrationNumber';
+import { Track } from './vehicleTracker';
+
+/**
+ * Interface for the confidence stored on a violation, each part in the range 0..1
+ */
+export interface ViolationConfidence {
+  overall: number;
+  /** Mean detector score, absent when the detector gives none */
+  detection?: number;
+  ocr: number;
+  plateFormat: number;
+  stability: number;
+  /** Classifier's probability that the rider wore no helmet, for no-helmet violations */
+  helmet?: number;
+}
+
+/**
+ * Interface for a camera's review thresholds, in the range 0..1
+ */
+export interface ReviewThresholds {
+  /** At or above this, challans are issued automatically */
+  autoIssue: number;
+  /** At or above this, and below autoIssue, violations go to manual review; below it they are discarded */
+  review: number;
+}
+
+export type ConfidenceDecision = 'issue' | 'review' | 'discard';
+
+export const DEFAULT_REVIEW_THRESHOLDS: ReviewThresholds = {
+  autoIssue: 0.8,
+  review: 0.5,
+};
+
+// Share of each part in the overall confidence
+const WEIGHTS = {
+  detection: 0.3,
+  ocr: 0.3,
+  plateFormat: 0.15,
+  stability: 0.25,
+};
+
+// Share of the helmet classifier in the overall confidence of a no-helmet violation
+const HELMET_WEIGHT = 0.4;
+
+// Frames after which a track counts as fully stable
+const STABLE_HITS = 6;
+
+// Confidence lost for each character OCR had to correct to fit the plate format
+const CORRECTION_PENALTY = 0.1;
+
+const mean = (values: number[]): number => {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+};
+
+/**
+ * Score a single plate reading
+ * @param plate Plate read from one frame
+ * @returns Mean character confidence, reduced for every corrected character
+ */
+export const getReadingConfidence = (plate: DetectedPlate): number => {
+  const ocr = plate.characters.length > 0 ? mean(plate.characters.map(c => c.confidence)) : plate.confidence;
+  return ocr * Math.max(0, 1 - plate.registration.corrections * CORRECTION_PENALTY);
+};
+
+/**
+ * Score how plausible a registration number is as printed on a real plate
+ * @param registration Parsed registration number, or null if it fits no format
+ * @returns 1 for a complete number, less for short numbers and rarer formats
+ */
+export const getPlateFormatScore = (registration: RegistrationNumber | null): number => {
+  if (!registration) {
+    return 0;
+  }
+
+  if (registration.kind === 'standard') {
+    // Real plates carry a four-digit number; shorter ones are usually partial reads
+    return Math.max(0, 1 - (4 - registration.number.length) * 0.2);
+  }
+
+  // Temporary and diplomatic plates are rare enough that a match is weaker evidence
+  return registration.kind === 'bh' ? 1 : 0.8;
+};
+
+/**
+ * Score a track that is about to raise a violation
+ * @param track Track with its detections and plate readings
+ * @param plate Plate text chosen for the track
+ * @returns Confidence of the violation
+ */
+export const scoreTrackConfidence = (track: Track, plate: string): ViolationConfidence => {
+  const scores = track.history.map(point => point.score).filter((score): score is number => score !== undefined);
+  const detection = scores.length > 0 ? mean(scores) : undefined;
+
+  const votes = track.plateReadings[plate] || 0;
+  const totalVotes = Object.values(track.plateReadings).reduce((sum, count) => sum + count, 0);
+  const ocr = votes > 0 ? (track.plateConfidence[plate] || 0) / votes : 0;
+
+  const plateFormat = getPlateFormatScore(parseRegistrationNumber(plate));
+
+  // A long-lived track whose readings agree is unlikely to be a mismatched or phantom vehicle
+  const hitsFactor = Math.min(1, track.hits / STABLE_HITS);
+  const agreement = totalVotes > 0 ? votes / totalVotes : 0;
+  const stability = (hitsFactor + agreement) / 2;
+
+  const evidence =
+    ocr * WEIGHTS.ocr +
+    plateFormat * WEIGHTS.plateFormat +
+    stability * WEIGHTS.stability;
+
+  // Without a detector score the other parts share its weight
+  const overall = detection !== undefined
+    ? evidence + detection * WEIGHTS.detection
+    : evidence / (1 - WEIGHTS.detection);
+
+  // Firestore rejects undefined fields
+  return { overall, ...(detection !== undefined && { detection }), ocr, plateFormat, stability };
+};
+
+/**
+ * Check whether a track has been seen long enough for its confidence to stop growing with its age
+ * @param track Track to check
+ * @returns True once the track counts as fully stable
+ */
+export const isStableTrack = (track: Track): boolean => {
+  return track.hits >= STABLE_HITS;
+};
+
+/**
+ * Score a track that is about to raise a no-helmet violation
+ * @param track Track with its detections and plate readings
+ * @param plate Plate text chosen for the track
+ * @param noHelmetProbability Mean probability from the helmet classifier across the track
+ * @returns Confidence of the violation, weighing the classifier alongside the plate and tracking
+ */
+export const scoreHelmetConfidence = (track: Track, plate: string, noHelmetProbability: number): ViolationConfidence => {
+  const confidence = scoreTrackConfidence(track, plate);
+
+  return {
+    ...confidence,
+    overall: confidence.overall * (1 - HELMET_WEIGHT) + noHelmetProbability * HELMET_WEIGHT,
+    helmet: noHelmetProbability,
+  };
+};
+
+/**
+ * Decide what to do with a violation of a given confidence
+ * @param confidence Overall confidence
+ * @param thresholds Camera's review thresholds
+ * @returns Whether to issue the challan, send it for review or discard it
+ */
+export const decideByConfidence = (confidence: number, thresholds: ReviewThresholds): ConfidenceDecision => {
+  if (confidence >= thresholds.autoIssue) {
+    return 'issue';
+  }
+
+  return confidence >= thresholds.review ? 'review' : 'discard';
+};
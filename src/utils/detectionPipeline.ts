@@ -0,0 +1,475 @@
+// This file ties vehicle detection, tracking, speed measurement, helmet checks
+// and plate OCR together into a per-camera pipeline that is fed one frame at a time.
+
+import { DetectedPlate, detectNumberPlate } from './numberPlateDetection';
+import {
+  assessHelmetViolation,
+  assessSpeedingViolation,
+  assessVehicleViolation,
+  recordVehicleViolation,
+  ViolationAssessment,
+} from './challanUtils';
+import { BoundingBox, createVehicleTracker, defaultTrackerOptions, Track, TrackerOptions } from './vehicleTracker';
+import { getGroundPoint, isZoneEntry, ZoneConfig } from './zoneGeometry';
+import { DetectionBox, VehicleDetector } from './detectors';
+import { classifyVehicleType, formatVehicleType } from './vehicleDetection';
+import { isWorkerPoolError } from './workerPool';
+import { captureCrop, captureEvidence, captureFrame, ChallanEvidence, EvidenceCapture } from './evidence';
+import { CameraCalibration, measureVehicle } from './calibration';
+import { createSpeedEstimator, SpeedTrap } from './speedEstimation';
+import { ZoneCategory } from './zoneRules';
+import {
+  ConfidenceDecision,
+  decideByConfidence,
+  DEFAULT_REVIEW_THRESHOLDS,
+  getReadingConfidence,
+  isStableTrack,
+  ReviewThresholds,
+  scoreHelmetConfidence,
+  scoreTrackConfidence,
+  ViolationConfidence,
+} from './confidence';
+import { getRiderHeadRegion } from './helmetDetection';
+import { getVehicleAttributes } from './vehicleAttributes';
+import { submitForReview } from './reviewQueue';
+
+export interface PipelineOptions {
+  location: string;
+  /** Pixel-to-metre calibration; rough defaults are used without one */
+  calibration: CameraCalibration | null;
+  /**
+   * No-entry zone; without one every confirmed vehicle is a violation, unless
+   * the camera has a speed trap, in which case only speeding is enforced
+   */
+  zone?: ZoneConfig | null;
+  /** Zone category whose rules decide which vehicles may enter; without one every entry is a violation */
+  zoneCategory?: ZoneCategory | null;
+  /** Reference lines for speed measurement and speeding violations */
+  speedTrap?: SpeedTrap | null;
+  /** Loaded detector; the pipeline does not take ownership of it */
+  detector: VehicleDetector;
+  /** Plate reader, e.g. one backed by the vision workers; defaults to reading on the calling thread */
+  plateReader?: (frame: HTMLCanvasElement, box: Track['box']) => Promise<DetectedPlate | null>;
+  /**
+   * Helmet classifier, e.g. classifyHelmetInWorker, giving the probability that
+   * a rider's head region shows no helmet; without one, helmets are not checked
+   */
+  helmetClassifier?: (frame: HTMLCanvasElement, headBox: BoundingBox) => Promise<number>;
+  /** Called when the helmet classifier fails, after which helmets are no longer checked */
+  onHelmetClassifierError?: (error: Error) => void;
+  /**
+   * Start a violation's clip, e.g. with ClipRecorder.captureClip, when the violation is
+   * decided rather than once it is written, so the clip's pre-roll is still buffered
+   */
+  requestClip?: (at: number) => Promise<Blob | null> | null;
+  tracker?: Partial<TrackerOptions>;
+  /** Confidence bands for issuing, reviewing and discarding violations */
+  reviewThresholds?: ReviewThresholds;
+  /** Write violations to Firestore as they are found (default true) */
+  recordViolations?: boolean;
+  /** Capture evidence images of each violation (default true) */
+  captureEvidence?: boolean;
+}
+
+export interface ViolationCandidate extends ViolationAssessment {
+  trackId: number;
+  /** What would have happened to the violation had it been recorded */
+  decision: ConfidenceDecision;
+  /** Evidence captured from the frame, uploaded once the violation is recorded */
+  capture: EvidenceCapture | null;
+}
+
+export interface PipelineViolation extends ViolationAssessment {
+  id: string;
+  trackId: number;
+  evidence: ChallanEvidence | null;
+  /** Clip requested from requestClip, resolved once its post-roll has been recorded */
+  clip?: Promise<Blob | null>;
+}
+
+/**
+ * Interface for what the pipeline knows about a track in a frame, for drawing over the video
+ */
+export interface TrackAnnotation {
+  trackId: number;
+  box: BoundingBox;
+  /** Box movement in pixels per ms, from the track's last two positions */
+  velocity: { x: number; y: number };
+  /** Class from the detector, or from the measured dimensions if the detector gives none */
+  vehicleType: string;
+  /** Seen in enough frames to raise violations */
+  confirmed: boolean;
+  /** Plate read in this frame */
+  plate: { text: string; box: BoundingBox } | null;
+  /** Plate agreed across frames, once there are enough readings */
+  vehicleNumber: string | null;
+  /** Raised a violation that was issued or sent for review */
+  violating: boolean;
+}
+
+export interface FrameResult {
+  vehicleCount: number;
+  tracks: Track[];
+  annotations: TrackAnnotation[];
+  /** Violations issued as challans in this frame */
+  violations: PipelineViolation[];
+  /** Violations sent to the review queue in this frame */
+  reviews: PipelineViolation[];
+  /** Violations found while recordViolations is off; nothing was written for these */
+  candidates: ViolationCandidate[];
+}
+
+// Head regions classified before a motorcycle's helmet check is decided, so one blurred frame cannot raise it
+const HELMET_SAMPLES = 3;
+
+// Mean no-helmet probability at or above which a rider is taken to wear no helmet
+const NO_HELMET_THRESHOLD = 0.5;
+
+/**
+ * Create a detection pipeline for a single camera
+ * @param options Location, detector, camera calibration and tracker options
+ * @returns Pipeline instance
+ */
+export const createDetectionPipeline = (options: PipelineOptions) => {
+  const tracker = createVehicleTracker(options.tracker);
+  const enteredTracks = new Set<number>();
+  // Tracks that entered the zone but are allowed there by the zone rules
+  const allowedTracks = new Set<number>();
+  const plateReader = options.plateReader || detectNumberPlate;
+  const reviewThresholds = options.reviewThresholds || DEFAULT_REVIEW_THRESHOLDS;
+  const speedTrap = options.speedTrap || null;
+  const speedEstimator = speedTrap ? createSpeedEstimator(speedTrap) : null;
+  // Frames in which each track crossed a speed-trap line, kept as speeding evidence
+  const crossingFrames = new Map<number, Blob[]>();
+  // Tracks whose measured speed has been checked against the limit
+  const speedChecked = new Set<number>();
+  // Tracks with a violation that was issued or sent for review
+  const violatingTracks = new Set<number>();
+  // No-helmet probabilities of each motorcycle's head region, one per classified frame
+  const helmetScores = new Map<number, number[]>();
+  // Motorcycles whose rider's helmet has been checked
+  const helmetChecked = new Set<number>();
+  // Set when the helmet classifier fails, e.g. on a missing model; helmets are then no longer checked
+  let helmetClassifierFailed = false;
+  const minHits = options.tracker?.minHits ?? defaultTrackerOptions.minHits;
+
+  /**
+   * Check whether a track still needs a speed check
+   * @param track Track to check
+   * @returns True if the camera has a speed trap and the track's speed has not been checked yet
+   */
+  const needsSpeedCheck = (track: Track): boolean => {
+    return speedEstimator !== null && !speedChecked.has(track.id);
+  };
+
+  /**
+   * Get a track's vehicle type
+   * @param track Track to classify
+   * @param frame Frame the track was seen in
+   * @param vehicles Detections of the frame
+   * @returns Class from the detector, or from the measured dimensions if the detector gives none
+   */
+  const getVehicleType = (track: Track, frame: HTMLCanvasElement, vehicles: DetectionBox[]): string => {
+    // The tracker keeps the matched detection itself as the track's box
+    const detected = vehicles.find(vehicle => vehicle === track.box);
+
+    return detected?.vehicleType
+      ? formatVehicleType(detected.vehicleType)
+      : classifyVehicleType(measureVehicle(track.box, options.calibration, frame.width, frame.height));
+  };
+
+  /**
+   * Check whether a track still needs its rider's helmet checked
+   * @param track Track to check
+   * @param vehicleType Track's vehicle type in this frame
+   * @returns True if helmets are checked and the track is a motorcycle that has not been checked yet
+   */
+  const needsHelmetCheck = (track: Track, vehicleType: string): boolean => {
+    return options.helmetClassifier !== undefined
+      && !helmetClassifierFailed
+      && vehicleType.toLowerCase() === 'motorcycle'
+      && !helmetChecked.has(track.id);
+  };
+
+  /**
+   * Check whether a track's latest movement entered the no-entry zone
+   * @param track Track to check
+   * @param frame Frame the track was seen in
+   * @returns True once the track has entered the zone in the forbidden direction
+   */
+  const hasEnteredZone = (track: Track, frame: HTMLCanvasElement): boolean => {
+    if (!options.zone) {
+      return !speedTrap;
+    }
+
+    if (enteredTracks.has(track.id)) {
+      return true;
+    }
+
+    if (track.history.length < 2) {
+      return false;
+    }
+
+    const previous = track.history[track.history.length - 2].box;
+    const from = getGroundPoint(previous, frame.width, frame.height);
+    const to = getGroundPoint(track.box, frame.width, frame.height);
+
+    if (isZoneEntry(from, to, options.zone)) {
+      enteredTracks.add(track.id);
+      return true;
+    }
+
+    return false;
+  };
+
+  /**
+   * Run detection, tracking and OCR on a frame
+   * @param frame Canvas containing the frame
+   * @param timestamp Frame timestamp in ms
+   * @returns Tracks seen in the frame and any violations they raised
+   */
+  const processFrame = async (frame: HTMLCanvasElement, timestamp: number): Promise<FrameResult> => {
+    const vehicles = await options.detector.detect(frame);
+    const { active, removed } = tracker.update(vehicles, timestamp);
+    const violations: PipelineViolation[] = [];
+    const reviews: PipelineViolation[] = [];
+    const candidates: ViolationCandidate[] = [];
+
+    removed.forEach(track => {
+      enteredTracks.delete(track.id);
+      allowedTracks.delete(track.id);
+      speedEstimator?.forget(track.id);
+      crossingFrames.delete(track.id);
+      speedChecked.delete(track.id);
+      violatingTracks.delete(track.id);
+      helmetScores.delete(track.id);
+      helmetChecked.delete(track.id);
+    });
+
+    if (speedEstimator) {
+      for (const track of active.filter(needsSpeedCheck)) {
+        const crossed = speedEstimator.update(track, frame.width, frame.height);
+
+        if (crossed && options.captureEvidence !== false) {
+          const image = await captureFrame(frame, options.location, new Date());
+          crossingFrames.set(track.id, [...(crossingFrames.get(track.id) || []), image]);
+        }
+      }
+    }
+
+    const vehicleTypes = new Map(active.map(track => [track.id, getVehicleType(track, frame, vehicles)]));
+
+    const pending = active.filter(track =>
+      (!track.violationIssued && !allowedTracks.has(track.id))
+        || needsSpeedCheck(track)
+        || needsHelmetCheck(track, vehicleTypes.get(track.id)!)
+    );
+
+    /**
+     * Score a violation and issue it, send it for review or discard it by its confidence,
+     * or keep it as a candidate while recordViolations is off
+     * @param track Track that raised the violation
+     * @param violation Violation details
+     * @param plateBox Plate found in this frame, if any
+     * @param extra Speed-trap crossing frames or the rider's head region to attach as evidence
+     * @param confidence Confidence of the violation, scored from the track by default
+     * @returns True once the violation is handled; one below the review threshold is only
+     * discarded once its track is stable, since its confidence grows as the track is seen longer
+     */
+    const raiseViolation = async (
+      track: Track,
+      violation: ViolationAssessment,
+      plateBox: DetectedPlate['box'] | null,
+      extra: { crossings?: Blob[]; headBox?: BoundingBox } = {},
+      confidence: ViolationConfidence = scoreTrackConfidence(track, violation.vehicleNumber)
+    ): Promise<boolean> => {
+      const decision = decideByConfidence(confidence.overall, reviewThresholds);
+
+      if (decision === 'discard') {
+        return isStableTrack(track);
+      }
+
+      const attributes = getVehicleAttributes(frame, track.box, violation.dimensions, vehicleTypes.get(track.id)!);
+      const assessment = { ...violation, ...attributes, confidence };
+
+      violatingTracks.add(track.id);
+
+      // Requested before the evidence uploads and the write, which can take longer than the pre-roll
+      const clip = options.recordViolations === false ? null : options.requestClip?.(timestamp) || null;
+
+      const capturedAt = new Date();
+      const capture = options.captureEvidence === false
+        ? null
+        : {
+          ...await captureEvidence(frame, track.box, plateBox, options.location, capturedAt),
+          crossings: extra.crossings,
+          head: extra.headBox ? await captureCrop(frame, extra.headBox, options.location, capturedAt) : undefined,
+        };
+
+      if (options.recordViolations === false) {
+        candidates.push({ ...assessment, trackId: track.id, decision, capture });
+        return true;
+      }
+
+      const result = decision === 'issue'
+        ? await recordVehicleViolation(assessment, options.location, capture)
+        : await submitForReview(assessment, options.location, capture);
+
+      if (result) {
+        (decision === 'issue' ? violations : reviews).push({ ...result, trackId: track.id, ...(clip && { clip }) });
+        return true;
+      }
+
+      return false;
+    };
+
+    // Keep reading plates until a track has raised its violation, so that the
+    // final plate is a vote across several frames. Reads run concurrently;
+    // one dropped by a busy worker pool only costs that frame's vote.
+    const plates = await Promise.all(pending.map(track =>
+      plateReader(frame, track.box).catch((error) => {
+        if (isWorkerPoolError(error)) {
+          return null;
+        }
+        throw error;
+      })
+    ));
+
+    // Confirmed motorcycles have their rider's head classified alongside the plate reads
+    const headBoxes = new Map(pending
+      .filter(track => track.hits >= minHits && needsHelmetCheck(track, vehicleTypes.get(track.id)!))
+      .map(track => [track.id, getRiderHeadRegion(track.box, frame.width, frame.height)]));
+
+    await Promise.all(Array.from(headBoxes, ([trackId, headBox]) =>
+      options.helmetClassifier!(frame, headBox)
+        .then(probability => {
+          helmetScores.set(trackId, [...(helmetScores.get(trackId) || []), probability]);
+        })
+        .catch((error) => {
+          // A failed classifier costs the helmet checks, not the plate reads and other violations of the frame
+          if (!isWorkerPoolError(error)) {
+            console.error('Error classifying helmet, helmet checks are skipped:', error);
+            if (!helmetClassifierFailed) {
+              options.onHelmetClassifierError?.(error instanceof Error ? error : new Error(String(error)));
+            }
+            helmetClassifierFailed = true;
+            helmetScores.clear();
+          }
+        })
+    ));
+
+    for (let i = 0; i < pending.length; i++) {
+      const track = pending[i];
+      const inZone = hasEnteredZone(track, frame);
+      const plate = plates[i];
+
+      if (plate) {
+        tracker.addPlateReading(track.id, plate.text, getReadingConfidence(plate));
+      }
+
+      if (inZone && !allowedTracks.has(track.id) && tracker.isReadyForViolation(track)) {
+        const assessment = assessVehicleViolation(
+          tracker.getPlate(track)!,
+          vehicleTypes.get(track.id)!,
+          measureVehicle(track.box, options.calibration, frame.width, frame.height),
+          options.zoneCategory || null,
+          new Date()
+        );
+
+        if (!assessment) {
+          allowedTracks.add(track.id);
+        } else if (await raiseViolation(track, assessment, plate?.box || null)) {
+          tracker.markViolationIssued(track.id);
+        }
+      }
+
+      const measurement = speedEstimator?.getMeasurement(track.id);
+      const vehicleNumber = tracker.getPlate(track);
+
+      // A speed is only checked once the plate is known, which may be some frames after the second line
+      if (speedTrap && measurement && vehicleNumber && needsSpeedCheck(track)) {
+        const assessment = assessSpeedingViolation(
+          vehicleNumber,
+          vehicleTypes.get(track.id)!,
+          measureVehicle(track.box, options.calibration, frame.width, frame.height),
+          measurement.speed,
+          speedTrap.speedLimit
+        );
+
+        if (!assessment || await raiseViolation(track, assessment, plate?.box || null, { crossings: crossingFrames.get(track.id) })) {
+          speedChecked.add(track.id);
+          crossingFrames.delete(track.id);
+        }
+      }
+
+      const scores = helmetScores.get(track.id) || [];
+      const headBox = headBoxes.get(track.id);
+
+      // Decided once enough head regions are classified and the plate is known, from the mean across them
+      if (headBox && scores.length >= HELMET_SAMPLES && vehicleNumber && needsHelmetCheck(track, vehicleTypes.get(track.id)!)) {
+        const noHelmetProbability = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+        const handled = noHelmetProbability < NO_HELMET_THRESHOLD || await raiseViolation(
+          track,
+          assessHelmetViolation(vehicleNumber, measureVehicle(track.box, options.calibration, frame.width, frame.height)),
+          plate?.box || null,
+          { headBox },
+          scoreHelmetConfidence(track, vehicleNumber, noHelmetProbability)
+        );
+
+        if (handled) {
+          helmetChecked.add(track.id);
+          helmetScores.delete(track.id);
+        }
+      }
+    }
+
+    const readPlates = new Map(pending.map((track, i) => [track.id, plates[i]]));
+
+    const annotations = active.map((track): TrackAnnotation => {
+      const previous = track.history[track.history.length - 2];
+      const latest = track.history[track.history.length - 1];
+      const elapsed = previous ? latest.timestamp - previous.timestamp : 0;
+      const plate = readPlates.get(track.id);
+
+      return {
+        trackId: track.id,
+        box: track.box,
+        velocity: elapsed > 0
+          ? { x: (latest.box.x - previous.box.x) / elapsed, y: (latest.box.y - previous.box.y) / elapsed }
+          : { x: 0, y: 0 },
+        vehicleType: vehicleTypes.get(track.id)!,
+        confirmed: track.hits >= minHits,
+        plate: plate ? { text: plate.text, box: plate.box } : null,
+        vehicleNumber: tracker.getPlate(track),
+        violating: violatingTracks.has(track.id),
+      };
+    });
+
+    return {
+      vehicleCount: vehicles.length,
+      tracks: active,
+      annotations,
+      violations,
+      reviews,
+      candidates,
+    };
+  };
+
+  return {
+    processFrame,
+    reset: () => {
+      tracker.reset();
+      enteredTracks.clear();
+      allowedTracks.clear();
+      speedEstimator?.reset();
+      crossingFrames.clear();
+      speedChecked.clear();
+      violatingTracks.clear();
+      helmetScores.clear();
+      helmetChecked.clear();
+      helmetClassifierFailed = false;
+    },
+  };
+};
+
+export type DetectionPipeline = ReturnType<typeof createDetectionPipeline>;
@@ -0,0 +1,30 @@
+import { CameraConfig } from '../cameraConfig';
+import { createOpenCVDetector } from './opencvDetector';
+import { createTFJSDetector } from './tfjsDetector';
+import { VehicleDetector } from './types';
+
+export type { DetectionBox, DetectorFrame, VehicleDetector } from './types';
+export { createOpenCVDetector } from './opencvDetector';
+export { createTFJSDetector } from './tfjsDetector';
+
+/**
+ * The parts of a camera configuration that decide which detector runs
+ */
+export type DetectorSettings = Pick<CameraConfig, 'detectorBackend' | 'detectionMode' | 'motionAlgorithm' | 'preprocessing'>;
+
+/**
+ * Create the detector a camera is configured to use
+ * @param config Detector settings of the camera
+ * @returns Vehicle detector (not yet loaded)
+ */
+export const createVehicleDetector = (config: DetectorSettings): VehicleDetector => {
+  if (config.detectorBackend === 'tfjs') {
+    return createTFJSDetector();
+  }
+
+  return createOpenCVDetector({
+    mode: config.detectionMode,
+    motionAlgorithm: config.motionAlgorithm,
+    preprocessing: config.preprocessing,
+  });
+};
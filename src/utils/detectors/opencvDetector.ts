@@ -0,0 +1,50 @@
+import { DetectedVehicle, detectVehicles, initOpenCV } from '../vehicleDetection';
+import { createMotionDetector, MotionAlgorithm } from '../motionDetection';
+import { PreprocessingMode } from '../preprocessing';
+import { DetectionBox, DetectorFrame, VehicleDetector } from './types';
+
+export interface OpenCVDetectorOptions {
+  mode: 'contour' | 'motion';
+  motionAlgorithm?: MotionAlgorithm;
+  /** Preprocessing before contour detection; motion detection models the raw frames */
+  preprocessing?: PreprocessingMode;
+}
+
+/**
+ * Convert an OpenCV candidate into a detection box
+ * @param vehicle Candidate from contour or motion detection
+ * @returns Detection box without a class or score, since the heuristics give neither
+ */
+const toDetectionBox = (vehicle: DetectedVehicle): DetectionBox => ({
+  x: vehicle.x,
+  y: vehicle.y,
+  width: vehicle.width,
+  height: vehicle.height,
+  vehicleType: null,
+});
+
+/**
+ * Create a detector backed by the OpenCV contour or motion heuristics
+ * @param options Detection mode, motion and preprocessing settings
+ * @returns Vehicle detector
+ */
+export const createOpenCVDetector = (options: OpenCVDetectorOptions): VehicleDetector => {
+  const motionDetector = options.mode === 'motion'
+    ? createMotionDetector({ algorithm: options.motionAlgorithm })
+    : null;
+
+  return {
+    name: options.mode === 'motion' ? 'OpenCV motion' : 'OpenCV contours',
+    load: initOpenCV,
+    detect: async (frame: DetectorFrame) => {
+      const vehicles = motionDetector
+        ? await motionDetector.detect(frame)
+        : await detectVehicles(frame, options.preprocessing);
+
+      return vehicles.map(toDetectionBox);
+    },
+    dispose: () => {
+      motionDetector?.dispose();
+    },
+  };
+};
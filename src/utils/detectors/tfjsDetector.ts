@@ -0,0 +1,138 @@
+import type * as tfjs from '@tensorflow/tfjs';
+import { VehicleType } from '../challanUtils';
+import { trackAssetLoad, updateAssetState, VISION_ASSET_PATHS } from '../visionAssets';
+import { DetectionBox, DetectorFrame, VehicleDetector } from './types';
+
+export interface TFJSDetectorOptions {
+  /** URL of a COCO-SSD graph model bundled with the app */
+  modelUrl: string;
+  /** Minimum score for a detection to be kept */
+  scoreThreshold: number;
+  /** IoU threshold for non-maximum suppression */
+  iouThreshold: number;
+  maxDetections: number;
+}
+
+export const defaultTFJSDetectorOptions: TFJSDetectorOptions = {
+  modelUrl: VISION_ASSET_PATHS.cocoSsdModel,
+  scoreThreshold: 0.4,
+  iouThreshold: 0.5,
+  maxDetections: 20,
+};
+
+// COCO category IDs of the classes we care about
+const COCO_VEHICLE_CLASSES: Record<number, VehicleType> = {
+  3: 'car',
+  4: 'motorcycle',
+  6: 'bus',
+  8: 'truck',
+};
+
+/**
+ * Create a detector backed by a TF.js COCO-SSD object detection model
+ * @param options Model location and detection thresholds, merged over the defaults
+ * @returns Vehicle detector
+ */
+export const createTFJSDetector = (options: Partial<TFJSDetectorOptions> = {}): VehicleDetector => {
+  const config: TFJSDetectorOptions = { ...defaultTFJSDetectorOptions, ...options };
+  let tf: typeof tfjs | null = null;
+  let model: tfjs.GraphModel | null = null;
+
+  const load = async () => {
+    if (model) return;
+
+    model = await trackAssetLoad('model', async () => {
+      // Loaded on demand so the OpenCV-only setup does not pay for TF.js
+      tf = await import('@tensorflow/tfjs');
+      await tf.ready();
+      return tf.loadGraphModel(config.modelUrl, {
+        onProgress: (progress) => updateAssetState('model', { progress }),
+      });
+    });
+  };
+
+  const detect = async (frame: DetectorFrame): Promise<DetectionBox[]> => {
+    await load();
+    const tfl = tf!;
+
+    const input = tfl.tidy(() => tfl.browser.fromPixels(frame).expandDims(0));
+    const [scoresTensor, boxesTensor] = await model!.executeAsync(input) as tfjs.Tensor[];
+    input.dispose();
+
+    // scores: [1, numBoxes, numClasses], boxes: [1, numBoxes, 1, 4] as [y1, x1, y2, x2] in 0..1
+    const [, numBoxes, numClasses] = scoresTensor.shape;
+    const scores = await scoresTensor.data();
+    const boxes = await boxesTensor.data();
+    scoresTensor.dispose();
+    boxesTensor.dispose();
+
+    const candidates: { index: number; score: number; vehicleType: VehicleType }[] = [];
+    for (let i = 0; i < numBoxes; i++) {
+      let bestScore = 0;
+      let bestClass = -1;
+
+      for (let j = 0; j < numClasses; j++) {
+        const score = scores[i * numClasses + j];
+        if (score > bestScore) {
+          bestScore = score;
+          bestClass = j;
+        }
+      }
+
+      // Class index 0 is background, so index j is COCO category j + 1
+      const vehicleType = COCO_VEHICLE_CLASSES[bestClass + 1];
+      if (vehicleType && bestScore >= config.scoreThreshold) {
+        candidates.push({ index: i, score: bestScore, vehicleType });
+      }
+    }
+
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const candidateBoxes = tfl.tensor2d(
+      candidates.flatMap(c => Array.from(boxes.slice(c.index * 4, c.index * 4 + 4))),
+      [candidates.length, 4]
+    );
+    const candidateScores = tfl.tensor1d(candidates.map(c => c.score));
+    const keptTensor = await tfl.image.nonMaxSuppressionAsync(
+      candidateBoxes,
+      candidateScores,
+      config.maxDetections,
+      config.iouThreshold,
+      config.scoreThreshold
+    );
+    const kept = await keptTensor.data();
+    candidateBoxes.dispose();
+    candidateScores.dispose();
+    keptTensor.dispose();
+
+    return Array.from(kept).map((k) => {
+      const { index, score, vehicleType } = candidates[k];
+      const [y1, x1, y2, x2] = boxes.slice(index * 4, index * 4 + 4);
+      const x = Math.max(0, Math.round(x1 * frame.width));
+      const y = Math.max(0, Math.round(y1 * frame.height));
+
+      return {
+        x,
+        y,
+        width: Math.min(frame.width, Math.round(x2 * frame.width)) - x,
+        height: Math.min(frame.height, Math.round(y2 * frame.height)) - y,
+        vehicleType,
+        score,
+      };
+    });
+  };
+
+  const dispose = () => {
+    model?.dispose();
+    model = null;
+  };
+
+  return {
+    name: 'TF.js COCO-SSD',
+    load,
+    detect,
+    dispose,
+  };
+};
@@ -0,0 +1,34 @@
+import { VehicleType } from '../challanUtils';
+import { FrameSource } from '../vehicleDetection';
+
+/**
+ * A single detected object in a frame
+ */
+export interface DetectionBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Detected vehicle class, or null if the backend cannot tell */
+  vehicleType: VehicleType | null;
+  /** Detector confidence in the range 0..1, if the backend gives one */
+  score?: number;
+}
+
+/**
+ * Frame sources a detector can read from
+ */
+export type DetectorFrame = FrameSource;
+
+/**
+ * Interface implemented by every vehicle detection backend
+ */
+export interface VehicleDetector {
+  readonly name: string;
+  /** Load models or runtimes; safe to call more than once */
+  load(): Promise<void>;
+  /** Detect vehicles in a frame */
+  detect(frame: DetectorFrame): Promise<DetectionBox[]>;
+  /** Release models and any state kept across frames */
+  dispose(): void;
+}
@@ -0,0 +1,259 @@
+// This file captures the evidence images attached to a challan: the full frame,
+// the vehicle crop, the plate crop and, for speeding, the speed-trap crossing
+// frames or, for no-helmet violations, the rider's head, each captioned with
+// time and location, plus an optional video clip.
+
+import { storage } from '../firebase';
+import { getDownloadURL, ref, uploadBytes } from 'firebase/storage';
+
+type Box = { x: number; y: number; width: number; height: number };
+
+/**
+ * Interface for an evidence image stored in Firebase Storage
+ */
+export interface EvidenceImage {
+  path: string;
+  url: string;
+}
+
+/**
+ * Interface for the evidence stored on a challan document
+ */
+export interface ChallanEvidence {
+  frame: EvidenceImage;
+  vehicle: EvidenceImage;
+  /** Null if no plate region was found in the frame */
+  plate: EvidenceImage | null;
+  /** Frames in which the vehicle crossed each speed-trap line, for speeding challans */
+  crossings?: EvidenceImage[];
+  /** Rider's head region, for no-helmet challans */
+  head?: EvidenceImage;
+  /** WebM clip from before to after the violation, attached once recorded */
+  clip?: EvidenceImage;
+  /** ISO timestamp of the frame */
+  capturedAt: string;
+}
+
+/**
+ * Evidence images captured from a frame but not yet uploaded
+ */
+export interface EvidenceCapture {
+  frame: Blob;
+  vehicle: Blob;
+  plate: Blob | null;
+  crossings?: Blob[];
+  head?: Blob;
+  capturedAt: Date;
+}
+
+const JPEG_QUALITY = 0.9;
+// Small crops are scaled up so that the caption stays legible
+const MIN_CROP_WIDTH = 320;
+
+/**
+ * Format the caption burned into evidence images
+ * @param location Detection location
+ * @param capturedAt Frame time
+ * @returns Caption text
+ */
+const formatCaption = (location: string, capturedAt: Date): string => {
+  return `${capturedAt.toLocaleString('en-IN', { hour12: false })} | ${location}`;
+};
+
+/**
+ * Copy a region of a frame onto a new canvas with a caption bar below it
+ * @param frame Source frame
+ * @param region Region to copy, padded by the given fraction and clamped to the frame
+ * @param padding Fraction of the region size added on each side
+ * @param caption Caption text
+ * @returns Captioned canvas
+ */
+const cropWithCaption = (frame: HTMLCanvasElement, region: Box, padding: number, caption: string): HTMLCanvasElement => {
+  const padX = region.width * padding;
+  const padY = region.height * padding;
+  const x = Math.max(0, Math.round(region.x - padX));
+  const y = Math.max(0, Math.round(region.y - padY));
+  const width = Math.min(frame.width, Math.round(region.x + region.width + padX)) - x;
+  const height = Math.min(frame.height, Math.round(region.y + region.height + padY)) - y;
+
+  const scale = Math.max(1, MIN_CROP_WIDTH / width);
+  const imageWidth = Math.round(width * scale);
+  const imageHeight = Math.round(height * scale);
+  const fontSize = Math.max(12, Math.round(imageWidth / 40));
+  const barHeight = Math.round(fontSize * 1.8);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = imageWidth;
+  canvas.height = imageHeight + barHeight;
+  const ctx = canvas.getContext('2d');
+
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+
+  ctx.drawImage(frame, x, y, width, height, 0, 0, imageWidth, imageHeight);
+
+  // The caption goes below the image so that it never hides part of the evidence
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, imageHeight, imageWidth, barHeight);
+  ctx.fillStyle = '#ffffff';
+  ctx.font = `${fontSize}px monospace`;
+  ctx.textBaseline = 'middle';
+  ctx.fillText(caption, fontSize / 2, imageHeight + barHeight / 2, imageWidth - fontSize);
+
+  return canvas;
+};
+
+/**
+ * Encode a canvas as a JPEG
+ * @param canvas Canvas to encode
+ * @returns Promise with the JPEG blob
+ */
+const canvasToBlob = (canvas: HTMLCanvasElement): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Could not encode evidence image'))),
+      'image/jpeg',
+      JPEG_QUALITY
+    );
+  });
+};
+
+/**
+ * Capture a captioned copy of a whole frame
+ * @param frame Canvas containing the frame
+ * @param location Detection location
+ * @param capturedAt Frame time
+ * @returns Promise with the JPEG image
+ */
+export const captureFrame = (frame: HTMLCanvasElement, location: string, capturedAt: Date): Promise<Blob> => {
+  const fullFrame: Box = { x: 0, y: 0, width: frame.width, height: frame.height };
+  return canvasToBlob(cropWithCaption(frame, fullFrame, 0, formatCaption(location, capturedAt)));
+};
+
+/**
+ * Capture a captioned crop of a region of a frame
+ * @param frame Canvas containing the frame
+ * @param region Region in frame coordinates
+ * @param location Detection location
+ * @param capturedAt Frame time
+ * @returns Promise with the JPEG image
+ */
+export const captureCrop = (frame: HTMLCanvasElement, region: Box, location: string, capturedAt: Date): Promise<Blob> => {
+  return canvasToBlob(cropWithCaption(frame, region, 0.1, formatCaption(location, capturedAt)));
+};
+
+/**
+ * Capture evidence images from the frame a violation was detected in
+ * @param frame Canvas containing the frame
+ * @param vehicleBox Vehicle bounding box in frame coordinates
+ * @param plateBox Plate bounding box in frame coordinates, if one was found
+ * @param location Detection location
+ * @param capturedAt Frame time
+ * @returns Promise with the captioned images
+ */
+export const captureEvidence = async (
+  frame: HTMLCanvasElement,
+  vehicleBox: Box,
+  plateBox: Box | null,
+  location: string,
+  capturedAt: Date
+): Promise<EvidenceCapture> => {
+  const caption = formatCaption(location, capturedAt);
+
+  const [frameBlob, vehicleBlob, plateBlob] = await Promise.all([
+    captureFrame(frame, location, capturedAt),
+    canvasToBlob(cropWithCaption(frame, vehicleBox, 0.1, caption)),
+    plateBox ? canvasToBlob(cropWithCaption(frame, plateBox, 0.2, caption)) : Promise.resolve(null),
+  ]);
+
+  return {
+    frame: frameBlob,
+    vehicle: vehicleBlob,
+    plate: plateBlob,
+    capturedAt,
+  };
+};
+
+/**
+ * Upload a single evidence file
+ * @param path Storage path
+ * @param blob JPEG image or video clip
+ * @param contentType MIME type of the file
+ * @returns Promise with the stored file reference
+ */
+const uploadFile = async (path: string, blob: Blob, contentType = 'image/jpeg'): Promise<EvidenceImage> => {
+  const imageRef = ref(storage, path);
+  await uploadBytes(imageRef, blob, { contentType });
+  return { path, url: await getDownloadURL(imageRef) };
+};
+
+/**
+ * Upload captured evidence for a challan to Firebase Storage
+ * @param challanId Challan the evidence belongs to
+ * @param capture Captured evidence images
+ * @returns Promise with the references to store on the challan
+ */
+export const uploadEvidence = async (challanId: string, capture: EvidenceCapture): Promise<ChallanEvidence> => {
+  try {
+    const basePath = `evidence/${challanId}`;
+
+    const [frame, vehicle, plate] = await Promise.all([
+      uploadFile(`${basePath}/frame.jpg`, capture.frame),
+      uploadFile(`${basePath}/vehicle.jpg`, capture.vehicle),
+      capture.plate ? uploadFile(`${basePath}/plate.jpg`, capture.plate) : Promise.resolve(null),
+    ]);
+
+    const evidence: ChallanEvidence = {
+      frame,
+      vehicle,
+      plate,
+      capturedAt: capture.capturedAt.toISOString(),
+    };
+
+    if (capture.crossings?.length) {
+      evidence.crossings = await Promise.all(
+        capture.crossings.map((blob, index) => uploadFile(`${basePath}/crossing-${index + 1}.jpg`, blob))
+      );
+    }
+
+    if (capture.head) {
+      evidence.head = await uploadFile(`${basePath}/head.jpg`, capture.head);
+    }
+
+    return evidence;
+  } catch (error) {
+    console.error('Error uploading evidence:', error);
+    throw error;
+  }
+};
+
+/**
+ * Upload the video clip of a violation to Firebase Storage
+ * @param challanId Challan or review item the clip belongs to
+ * @param clip WebM clip
+ * @returns Promise with the stored clip reference
+ */
+export const uploadEvidenceClip = async (challanId: string, clip: Blob): Promise<EvidenceImage> => {
+  try {
+    return await uploadFile(`evidence/${challanId}/clip.webm`, clip, clip.type || 'video/webm');
+  } catch (error) {
+    console.error('Error uploading evidence clip:', error);
+    throw error;
+  }
+};
+
+/**
+ * Upload the frame a watchlisted vehicle was seen in to Firebase Storage
+ * @param hitId Watchlist hit the frame belongs to
+ * @param frame Captioned JPEG frame
+ * @returns Promise with the stored frame reference
+ */
+export const uploadWatchlistFrame = async (hitId: string, frame: Blob): Promise<EvidenceImage> => {
+  try {
+    return await uploadFile(`watchlist-hits/${hitId}/frame.jpg`, frame);
+  } catch (error) {
+    console.error('Error uploading watchlist frame:', error);
+    throw error;
+  }
+};
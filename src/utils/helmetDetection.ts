@@ -0,0 +1,129 @@
+// This file checks whether motorcycle riders wear a helmet, by classifying the
+// rider's head region with a TF.js model served with the app.
+
+import type * as tfjs from '@tensorflow/tfjs';
+import { trackAssetLoad, updateAssetState, VISION_ASSET_PATHS } from './visionAssets';
+
+type Box = { x: number; y: number; width: number; height: number };
+
+export interface HelmetClassifierOptions {
+  /** URL of a Keras image classifier converted with tensorflowjs_converter */
+  modelUrl: string;
+}
+
+export const defaultHelmetClassifierOptions: HelmetClassifierOptions = {
+  modelUrl: VISION_ASSET_PATHS.helmetModel,
+};
+
+// A two-class model outputs [helmet, no helmet]; a single-output model gives the no-helmet probability
+const NO_HELMET_CLASS = 1;
+
+export const HELMET_MODEL_MISSING_MESSAGE = 'No helmet model is installed, so helmets are not checked; see the README';
+
+let modelCheck: Promise<boolean> | null = null;
+
+/**
+ * Check whether a helmet model is installed, without loading it
+ *
+ * None is shipped with the app, since none is published; each deployment adds its own.
+ * @returns Promise with true if the model's manifest is served
+ */
+export const isHelmetModelAvailable = (): Promise<boolean> => {
+  // The dev server answers unknown paths with the app page, so only a JSON manifest counts
+  modelCheck = modelCheck || fetch(defaultHelmetClassifierOptions.modelUrl, { method: 'HEAD' })
+    .then(response => response.ok && (response.headers.get('Content-Type') || '').includes('json'))
+    .catch(() => false);
+
+  return modelCheck;
+};
+
+/**
+ * Get the region of a motorcycle's box where the rider's head is expected
+ *
+ * Detectors box the motorcycle with or without its rider, so the region takes
+ * the middle of the box's top quarter and extends well above it.
+ * @param box Motorcycle bounding box
+ * @param frameWidth Frame width, to clamp the region to
+ * @param frameHeight Frame height, to clamp the region to
+ * @returns Head region in frame coordinates
+ */
+export const getRiderHeadRegion = (box: Box, frameWidth: number, frameHeight: number): Box => {
+  const x = Math.max(0, Math.round(box.x + box.width * 0.2));
+  const y = Math.max(0, Math.round(box.y - box.height * 0.35));
+  const right = Math.min(frameWidth, Math.round(box.x + box.width * 0.8));
+  const bottom = Math.min(frameHeight, Math.round(box.y + box.height * 0.25));
+
+  return { x, y, width: Math.max(1, right - x), height: Math.max(1, bottom - y) };
+};
+
+/**
+ * Create a helmet classifier
+ * @param options Model location, merged over the defaults
+ * @returns Helmet classifier
+ */
+export const createHelmetClassifier = (options: Partial<HelmetClassifierOptions> = {}) => {
+  const config: HelmetClassifierOptions = { ...defaultHelmetClassifierOptions, ...options };
+  let tf: typeof tfjs | null = null;
+  let model: tfjs.LayersModel | null = null;
+  let modelPromise: Promise<tfjs.LayersModel> | null = null;
+
+  const load = async () => {
+    if (model) return;
+
+    // Crops classified while the model loads wait for the same load rather than starting another
+    if (!modelPromise) {
+      modelPromise = trackAssetLoad('helmetModel', async () => {
+        tf = await import('@tensorflow/tfjs');
+        await tf.ready();
+        return tf.loadLayersModel(config.modelUrl, {
+          onProgress: (progress) => updateAssetState('helmetModel', { progress }),
+        });
+      });
+
+      modelPromise.catch(() => {
+        modelPromise = null;
+      });
+    }
+
+    model = await modelPromise;
+  };
+
+  /**
+   * Classify a rider's head region
+   * @param crop Head region of the frame
+   * @returns Promise with the probability, 0..1, that the rider wears no helmet
+   */
+  const classify = async (crop: ImageData): Promise<number> => {
+    await load();
+    const tfl = tf!;
+    const [, height, width] = model!.inputs[0].shape;
+
+    const output = tfl.tidy(() => {
+      const input = tfl.image
+        .resizeBilinear(tfl.browser.fromPixels(crop), [height || 96, width || 96])
+        .toFloat()
+        .div(255)
+        .expandDims(0);
+      return model!.predict(input) as tfjs.Tensor;
+    });
+
+    const scores = await output.data();
+    output.dispose();
+
+    return scores.length === 1 ? scores[0] : scores[NO_HELMET_CLASS];
+  };
+
+  const dispose = () => {
+    model?.dispose();
+    model = null;
+    modelPromise = null;
+  };
+
+  return {
+    load,
+    classify,
+    dispose,
+  };
+};
+
+export type HelmetClassifier = ReturnType<typeof createHelmetClassifier>;
@@ -0,0 +1,109 @@
+// This file maps image points onto the road surface with a planar homography,
+// so that vehicles can be measured in metres regardless of perspective.
+
+import { Point } from './zoneGeometry';
+
+/**
+ * Row-major 3x3 homography matrix, normalised so that the last element is 1
+ */
+export type Homography = number[];
+
+/**
+ * Solve a square linear system by Gaussian elimination with partial pivoting
+ * @param a Coefficient matrix (modified in place)
+ * @param b Right-hand side (modified in place)
+ * @returns Solution vector, or null if the system is singular
+ */
+const solveLinearSystem = (a: number[][], b: number[]): number[] | null => {
+  const n = b.length;
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) {
+        pivot = row;
+      }
+    }
+
+    if (Math.abs(a[pivot][col]) < 1e-12) {
+      return null;
+    }
+
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    [b[col], b[pivot]] = [b[pivot], b[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k < n; k++) {
+        a[row][k] -= factor * a[col][k];
+      }
+      b[row] -= factor * b[col];
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = b[row];
+    for (let k = row + 1; k < n; k++) {
+      sum -= a[row][k] * x[k];
+    }
+    x[row] = sum / a[row][row];
+  }
+
+  return x;
+};
+
+/**
+ * Compute the homography that maps four source points onto four destination points
+ * @param src Source points, e.g. normalised image coordinates
+ * @param dst Destination points, e.g. road coordinates in metres
+ * @returns Homography matrix
+ */
+export const computeHomography = (src: Point[], dst: Point[]): Homography => {
+  if (src.length !== 4 || dst.length !== 4) {
+    throw new Error('A homography needs exactly four point pairs');
+  }
+
+  const a: number[][] = [];
+  const b: number[] = [];
+
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = src[i];
+    const { x: u, y: v } = dst[i];
+    a.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    b.push(u);
+    a.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    b.push(v);
+  }
+
+  const h = solveLinearSystem(a, b);
+  if (!h) {
+    throw new Error('Three of the four points lie on one line; mark points that span the road');
+  }
+
+  return [...h, 1];
+};
+
+/**
+ * Map a point through a homography
+ * @param h Homography matrix
+ * @param point Point to map
+ * @returns Mapped point
+ */
+export const applyHomography = (h: Homography, point: Point): Point => {
+  const w = h[6] * point.x + h[7] * point.y + h[8];
+  return {
+    x: (h[0] * point.x + h[1] * point.y + h[2]) / w,
+    y: (h[3] * point.x + h[4] * point.y + h[5]) / w,
+  };
+};
+
+/**
+ * Distance between two points
+ * @param a First point
+ * @param b Second point
+ * @returns Euclidean distance
+ */
+export const getDistance = (a: Point, b: Point): number => {
+  return Math.sqrt((b.x - a.x) ** 2 + (b.y - a.y) ** 2);
+};
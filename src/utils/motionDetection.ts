@@ -0,0 +1,118 @@
+// This file contains a motion-based vehicle detector that keeps an OpenCV
+// background model across frames, so only moving objects become candidates.
+
+import { CvMat, DetectedVehicle, findVehicleContours, FrameSource, initOpenCV, readFrame } from './vehicleDetection';
+
+export type MotionAlgorithm = 'mog2' | 'knn';
+
+export interface MotionDetectorOptions {
+  algorithm: MotionAlgorithm;
+  /** Number of frames the background model remembers */
+  history: number;
+  /** Distance threshold for a pixel to be considered foreground */
+  threshold: number;
+  /** Minimum blob area in pixels */
+  minArea: number;
+}
+
+export const defaultMotionDetectorOptions: MotionDetectorOptions = {
+  algorithm: 'mog2',
+  history: 500,
+  threshold: 16,
+  minArea: 1500,
+};
+
+// Background subtractors mark shadows as 127; anything above this is real foreground
+const FOREGROUND_THRESHOLD = 200;
+
+/**
+ * Get the background models the loaded OpenCV build provides
+ *
+ * KNN is not part of every opencv.js build, including the one bundled with the app.
+ * @returns Available algorithms; MOG2 is always among them
+ */
+export const getAvailableMotionAlgorithms = (): MotionAlgorithm[] => {
+  return self.cv.BackgroundSubtractorKNN ? ['mog2', 'knn'] : ['mog2'];
+};
+
+/**
+ * Create a background subtractor
+ * @param options Motion detector options
+ * @returns OpenCV background subtractor; MOG2 if the requested algorithm is not available
+ */
+const createBackgroundSubtractor = (options: MotionDetectorOptions) => {
+  const cv = self.cv;
+
+  if (options.algorithm === 'knn') {
+    if (cv.BackgroundSubtractorKNN) {
+      return new cv.BackgroundSubtractorKNN(options.history, options.threshold * options.threshold, true);
+    }
+    console.warn('KNN background subtraction is not available in this OpenCV build, using MOG2');
+  }
+
+  return new cv.BackgroundSubtractorMOG2(options.history, options.threshold, true);
+};
+
+/**
+ * Create a motion detector
+ * @param options Motion detector options, merged over the defaults
+ * @returns Motion detector instance
+ */
+export const createMotionDetector = (options: Partial<MotionDetectorOptions> = {}) => {
+  const config: MotionDetectorOptions = { ...defaultMotionDetectorOptions, ...options };
+  let subtractor: CvMat | null = null;
+  let kernel: CvMat | null = null;
+
+  /**
+   * Update the background model with a frame and extract moving blobs
+   * @param imageElement HTML image, canvas element or image data containing the frame
+   * @returns Array of moving objects with their bounding boxes
+   */
+  const detect = async (imageElement: FrameSource): Promise<DetectedVehicle[]> => {
+    await initOpenCV();
+
+    const cv = self.cv;
+
+    if (!subtractor) {
+      subtractor = createBackgroundSubtractor(config);
+      kernel = cv.getStructuringElement(cv.MORPH_ELLIPSE, new cv.Size(5, 5));
+    }
+
+    const src = readFrame(imageElement);
+    const foreground = new cv.Mat();
+    const mask = new cv.Mat();
+
+    subtractor.apply(src, foreground);
+
+    // Drop shadows, then remove speckle noise and fill holes inside vehicles
+    cv.threshold(foreground, mask, FOREGROUND_THRESHOLD, 255, cv.THRESH_BINARY);
+    cv.morphologyEx(mask, mask, cv.MORPH_OPEN, kernel);
+    cv.morphologyEx(mask, mask, cv.MORPH_CLOSE, kernel, new cv.Point(-1, -1), 2);
+    cv.dilate(mask, mask, kernel);
+
+    const vehicles = findVehicleContours(mask, config.minArea);
+
+    src.delete();
+    foreground.delete();
+    mask.delete();
+
+    return vehicles;
+  };
+
+  /**
+   * Release the background model
+   */
+  const dispose = () => {
+    subtractor?.delete();
+    kernel?.delete();
+    subtractor = null;
+    kernel = null;
+  };
+
+  return {
+    detect,
+    dispose,
+  };
+};
+
+export type MotionDetector = ReturnType<typeof createMotionDetector>;
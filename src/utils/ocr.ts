@@ -0,0 +1,113 @@
+// This file owns the shared Tesseract worker used for number plate OCR.
+
+import { createWorker, OEM, PSM } from 'tesseract.js';
+import { trackAssetLoad, updateAssetState, VISION_ASSET_PATHS } from './visionAssets';
+
+// Characters that can appear on a registration plate
+export const PLATE_CHARACTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+
+export interface RecognizedCharacter {
+  char: string;
+  /** Tesseract confidence in the range 0..1 */
+  confidence: number;
+}
+
+export interface RecognizedText {
+  text: string;
+  confidence: number;
+  characters: RecognizedCharacter[];
+}
+
+/**
+ * Interface for where the Tesseract worker loads from and how plate images reach it
+ */
+export interface TesseractRuntime {
+  workerOptions: Partial<Tesseract.WorkerOptions>;
+  /** Convert a plate image into something the worker can read */
+  prepareImage: (image: HTMLCanvasElement | OffscreenCanvas) => Tesseract.ImageLike;
+}
+
+// The browser reads canvases directly; the benchmark runner replaces this in Node
+let runtime: TesseractRuntime = {
+  workerOptions: VISION_ASSET_PATHS.tesseract,
+  prepareImage: (image) => image,
+};
+
+let worker: Tesseract.Worker | null = null;
+let workerPromise: Promise<Tesseract.Worker> | null = null;
+
+// Tail of the plate reads queued on the worker; parameters are set per read, so reads must not overlap
+let readQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Replace the Tesseract runtime; must be called before the worker is created
+ * @param changes Worker options or image conversion to replace
+ */
+export const configureTesseractRuntime = (changes: Partial<TesseractRuntime>) => {
+  runtime = { ...runtime, ...changes };
+};
+
+/**
+ * Initialize the shared Tesseract worker from the assets served with the app
+ * @returns Promise with the worker; rejects with a VisionAssetError on failure or timeout
+ */
+export const initTesseract = async () => {
+  if (worker) {
+    return worker;
+  }
+
+  if (!workerPromise) {
+    workerPromise = trackAssetLoad('tesseract', () => createWorker('eng', OEM.LSTM_ONLY, {
+      ...runtime.workerOptions,
+      workerBlobURL: false,
+      logger: (message) => {
+        // Only the language data download is big enough to be worth reporting
+        if (message.status === 'loading language traineddata') {
+          updateAssetState('tesseract', { progress: message.progress });
+        }
+      },
+    }));
+
+    workerPromise.catch(() => {
+      workerPromise = null;
+    });
+  }
+
+  worker = await workerPromise;
+  return worker;
+};
+
+/**
+ * Run plate OCR restricted to plate characters
+ * @param image Binarised plate image
+ * @param multiLine True for two-row plates
+ * @returns Recognised text with per-character confidences
+ */
+export const recognizePlateText = async (
+  image: HTMLCanvasElement | OffscreenCanvas,
+  multiLine = false
+): Promise<RecognizedText> => {
+  const tesseract = await initTesseract();
+
+  // setParameters and recognize are separate jobs, so another read could slip its mode in between
+  const read = readQueue.then(async () => {
+    await tesseract.setParameters({
+      tessedit_char_whitelist: PLATE_CHARACTERS,
+      tessedit_pageseg_mode: multiLine ? PSM.SINGLE_BLOCK : PSM.SINGLE_LINE,
+    });
+
+    return tesseract.recognize(runtime.prepareImage(image));
+  });
+  readQueue = read.catch(() => undefined);
+
+  const result = await read;
+
+  return {
+    text: result.data.text.trim(),
+    confidence: result.data.confidence / 100,
+    characters: result.data.symbols.map(symbol => ({
+      char: symbol.text,
+      confidence: symbol.confidence / 100,
+    })),
+  };
+};
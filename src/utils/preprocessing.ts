@@ -0,0 +1,212 @@
+// This file contains the image preprocessing profiles applied before vehicle
+// edge detection and plate OCR, for night footage, headlight glare and rain,
+// and picks a profile automatically from a frame's brightness statistics.
+
+import { CvMat } from './vehicleDetection';
+
+export type PreprocessingProfile = 'standard' | 'lowLight' | 'nightGlare' | 'rain';
+
+/**
+ * A camera's preprocessing setting: a fixed profile, or one chosen per frame
+ */
+export type PreprocessingMode = PreprocessingProfile | 'auto';
+
+/**
+ * Interface for the steps a profile applies to a grayscale image
+ */
+export interface PreprocessingSteps {
+  /** Gamma applied to the mid-tones; below 1 brightens dark footage */
+  gamma: number;
+  /** Level above which highlights are compressed, to flatten headlight glare; null leaves them */
+  glareKnee: number | null;
+  /** CLAHE clip limit for local contrast equalisation; null skips it */
+  claheClipLimit: number | null;
+  /** Noise filter: a light blur, a median filter for rain streaks, or an edge-preserving bilateral filter for sensor noise */
+  denoise: 'gaussian' | 'median' | 'bilateral';
+  /** Plate binarisation: global Otsu, or an adaptive threshold for unevenly lit plates */
+  plateThreshold: 'otsu' | 'adaptive';
+}
+
+export const PREPROCESSING_PROFILES: Record<PreprocessingProfile, PreprocessingSteps> = {
+  standard: { gamma: 1, glareKnee: null, claheClipLimit: null, denoise: 'gaussian', plateThreshold: 'otsu' },
+  lowLight: { gamma: 0.5, glareKnee: null, claheClipLimit: 3, denoise: 'bilateral', plateThreshold: 'adaptive' },
+  nightGlare: { gamma: 0.7, glareKnee: 200, claheClipLimit: 2, denoise: 'bilateral', plateThreshold: 'adaptive' },
+  rain: { gamma: 1, glareKnee: null, claheClipLimit: 2, denoise: 'median', plateThreshold: 'adaptive' },
+};
+
+const PROFILE_LABELS: Record<PreprocessingMode, string> = {
+  auto: 'Automatic',
+  standard: 'Standard (daylight)',
+  lowLight: 'Low light',
+  nightGlare: 'Night with headlight glare',
+  rain: 'Rain / haze',
+};
+
+/**
+ * Interface for the brightness statistics a profile is chosen from
+ */
+export interface FrameStatistics {
+  /** Mean brightness, 0..255 */
+  mean: number;
+  /** Standard deviation of brightness, a measure of contrast */
+  contrast: number;
+  /** Share of near-saturated pixels, e.g. headlights and their bloom */
+  brightFraction: number;
+}
+
+// Frames darker than this on average are treated as night footage
+const LOW_LIGHT_MEAN = 70;
+// A night frame with more than this share of saturated pixels has headlight glare
+const GLARE_FRACTION = 0.01;
+const SATURATED_LEVEL = 240;
+// Rain and haze wash a daylight frame out to low contrast
+const LOW_CONTRAST = 35;
+
+// Highlights above the glare knee keep this share of their remaining range
+const GLARE_COMPRESSION = 0.25;
+
+/**
+ * Get the display name of a preprocessing mode
+ * @param mode Preprocessing mode
+ * @returns Display name
+ */
+export const getPreprocessingLabel = (mode: PreprocessingMode): string => PROFILE_LABELS[mode];
+
+/**
+ * Get every preprocessing mode, for settings forms
+ * @returns Preprocessing modes, automatic first
+ */
+export const getAllPreprocessingModes = (): PreprocessingMode[] => Object.keys(PROFILE_LABELS) as PreprocessingMode[];
+
+/**
+ * Measure the brightness statistics of a grayscale image
+ * @param gray Grayscale mat
+ * @returns Brightness statistics
+ */
+export const measureFrameStatistics = (gray: CvMat): FrameStatistics => {
+  const cv = self.cv;
+
+  const mean = new cv.Mat();
+  const stdDev = new cv.Mat();
+  cv.meanStdDev(gray, mean, stdDev);
+
+  const saturated = new cv.Mat();
+  cv.threshold(gray, saturated, SATURATED_LEVEL, 255, cv.THRESH_BINARY);
+
+  const statistics = {
+    mean: mean.doubleAt(0, 0),
+    contrast: stdDev.doubleAt(0, 0),
+    brightFraction: cv.countNonZero(saturated) / (gray.rows * gray.cols),
+  };
+
+  mean.delete();
+  stdDev.delete();
+  saturated.delete();
+
+  return statistics;
+};
+
+/**
+ * Choose the profile suited to a frame's lighting and weather
+ * @param statistics Brightness statistics of the frame
+ * @returns Preprocessing profile
+ */
+export const selectPreprocessingProfile = (statistics: FrameStatistics): PreprocessingProfile => {
+  if (statistics.mean < LOW_LIGHT_MEAN) {
+    return statistics.brightFraction > GLARE_FRACTION ? 'nightGlare' : 'lowLight';
+  }
+
+  if (statistics.contrast < LOW_CONTRAST) {
+    return 'rain';
+  }
+
+  return 'standard';
+};
+
+/**
+ * Resolve a camera's preprocessing mode for an image
+ * @param gray Grayscale image the profile will be applied to
+ * @param mode Camera's preprocessing mode
+ * @returns Profile to apply
+ */
+export const resolvePreprocessingProfile = (gray: CvMat, mode: PreprocessingMode): PreprocessingProfile => {
+  return mode === 'auto' ? selectPreprocessingProfile(measureFrameStatistics(gray)) : mode;
+};
+
+/**
+ * Apply gamma and glare compression with a lookup table (opencv.js has no cv.LUT)
+ * @param gray Grayscale mat, changed in place
+ * @param steps Profile steps
+ */
+const applyToneCurve = (gray: CvMat, steps: PreprocessingSteps) => {
+  if (steps.gamma === 1 && steps.glareKnee === null) {
+    return;
+  }
+
+  const table = new Uint8Array(256);
+  for (let level = 0; level < 256; level++) {
+    let value = 255 * Math.pow(level / 255, steps.gamma);
+    if (steps.glareKnee !== null && value > steps.glareKnee) {
+      value = steps.glareKnee + (value - steps.glareKnee) * GLARE_COMPRESSION;
+    }
+    table[level] = Math.round(value);
+  }
+
+  const data: Uint8Array = gray.data;
+  for (let i = 0; i < data.length; i++) {
+    data[i] = table[data[i]];
+  }
+};
+
+/**
+ * Apply a profile's tonal correction and noise filter to a grayscale image
+ * @param gray Grayscale mat
+ * @param profile Preprocessing profile
+ * @param blur Apply the profile's light blur; plate location does its own
+ * @returns New preprocessed mat; the caller must delete it
+ */
+export const preprocessGray = (gray: CvMat, profile: PreprocessingProfile, blur = true): CvMat => {
+  const cv = self.cv;
+  const steps = PREPROCESSING_PROFILES[profile];
+
+  const corrected = gray.clone();
+  applyToneCurve(corrected, steps);
+
+  if (steps.claheClipLimit !== null) {
+    const clahe = new cv.CLAHE(steps.claheClipLimit, new cv.Size(8, 8));
+    clahe.apply(corrected, corrected);
+    clahe.delete();
+  }
+
+  const result = new cv.Mat();
+  if (steps.denoise === 'median') {
+    cv.medianBlur(corrected, result, 5);
+  } else if (steps.denoise === 'bilateral') {
+    cv.bilateralFilter(corrected, result, 9, 50, 50);
+  } else if (blur) {
+    cv.GaussianBlur(corrected, result, new cv.Size(5, 5), 0);
+  } else {
+    corrected.copyTo(result);
+  }
+
+  corrected.delete();
+  return result;
+};
+
+/**
+ * Binarise an upscaled plate for OCR as the profile prescribes
+ * @param plate Grayscale plate mat
+ * @param binary Output mat
+ * @param profile Preprocessing profile
+ */
+export const thresholdPlate = (plate: CvMat, binary: CvMat, profile: PreprocessingProfile) => {
+  const cv = self.cv;
+
+  if (PREPROCESSING_PROFILES[profile].plateThreshold === 'adaptive') {
+    // Block of about a third of the plate height, so one character never spans several blocks' lighting
+    const blockSize = Math.max(3, Math.round(plate.rows / 3) | 1);
+    cv.adaptiveThreshold(plate, binary, 255, cv.ADAPTIVE_THRESH_GAUSSIAN_C, cv.THRESH_BINARY, blockSize, 10);
+  } else {
+    cv.threshold(plate, binary, 0, 255, cv.THRESH_BINARY + cv.THRESH_OTSU);
+  }
+};
@@ -0,0 +1,369 @@
+// This file parses Indian vehicle registration numbers into their parts,
+// corrects common OCR confusions based on character position, produces the
+// canonical string stored as a challan's vehicleNumber, and measures how far
+// apart two plate reads are.
+
+export type RegistrationKind = 'standard' | 'bh' | 'temporary' | 'diplomatic';
+
+export interface RegistrationNumber {
+  kind: RegistrationKind;
+  /** State or union territory code, e.g. "MH" (null for BH and diplomatic plates) */
+  stateCode: string | null;
+  /** RTO number, e.g. "12" (null for BH, temporary and diplomatic plates) */
+  rto: string | null;
+  /** Series letters, or the diplomatic mission type (CD/CC/UN) */
+  series: string;
+  number: string;
+  /** Registration year (BH) or month and year of issue (temporary) */
+  period: string | null;
+  /** Canonical form, e.g. "MH 12 AB 1234" */
+  canonical: string;
+  /** Number of characters changed by OCR confusion correction */
+  corrections: number;
+}
+
+/**
+ * State and union territory codes issued by Indian RTOs
+ */
+export const STATE_CODES: Record<string, string> = {
+  AN: 'Andaman and Nicobar Islands',
+  AP: 'Andhra Pradesh',
+  AR: 'Arunachal Pradesh',
+  AS: 'Assam',
+  BR: 'Bihar',
+  CG: 'Chhattisgarh',
+  CH: 'Chandigarh',
+  DD: 'Daman and Diu',
+  DL: 'Delhi',
+  DN: 'Dadra and Nagar Haveli',
+  GA: 'Goa',
+  GJ: 'Gujarat',
+  HP: 'Himachal Pradesh',
+  HR: 'Haryana',
+  JH: 'Jharkhand',
+  JK: 'Jammu and Kashmir',
+  KA: 'Karnataka',
+  KL: 'Kerala',
+  LA: 'Ladakh',
+  LD: 'Lakshadweep',
+  MH: 'Maharashtra',
+  ML: 'Meghalaya',
+  MN: 'Manipur',
+  MP: 'Madhya Pradesh',
+  MZ: 'Mizoram',
+  NL: 'Nagaland',
+  OD: 'Odisha',
+  OR: 'Odisha',
+  PB: 'Punjab',
+  PY: 'Puducherry',
+  RJ: 'Rajasthan',
+  SK: 'Sikkim',
+  TG: 'Telangana',
+  TN: 'Tamil Nadu',
+  TR: 'Tripura',
+  TS: 'Telangana',
+  UK: 'Uttarakhand',
+  UP: 'Uttar Pradesh',
+  WB: 'West Bengal',
+};
+
+const DIPLOMATIC_TYPES = ['CD', 'CC', 'UN'];
+
+// Characters OCR commonly reads in place of a letter or a digit
+const DIGIT_TO_LETTERS: Record<string, string[]> = {
+  '0': ['O', 'D', 'Q'],
+  '1': ['I'],
+  '2': ['Z'],
+  '4': ['A'],
+  '5': ['S'],
+  '6': ['G'],
+  '7': ['T'],
+  '8': ['B'],
+};
+
+const LETTER_TO_DIGITS: Record<string, string[]> = {
+  O: ['0'],
+  Q: ['0'],
+  D: ['0'],
+  U: ['0'],
+  I: ['1'],
+  L: ['1'],
+  Z: ['2'],
+  A: ['4'],
+  S: ['5'],
+  G: ['6'],
+  T: ['7'],
+  B: ['8'],
+};
+
+type SegmentKind = 'letter' | 'digit' | 'literal';
+
+interface Segment {
+  name: 'state' | 'rto' | 'series' | 'number' | 'period' | 'prefix';
+  kind: SegmentKind;
+  min: number;
+  max: number;
+  /** Allowed values for literal segments */
+  values?: string[];
+}
+
+interface FormatDefinition {
+  kind: RegistrationKind;
+  segments: Segment[];
+}
+
+const FORMATS: FormatDefinition[] = [
+  {
+    // MH 12 AB 1234, DL 3C A 1234, KA 01 1234
+    kind: 'standard',
+    segments: [
+      { name: 'state', kind: 'letter', min: 2, max: 2 },
+      { name: 'rto', kind: 'digit', min: 1, max: 2 },
+      { name: 'series', kind: 'letter', min: 0, max: 3 },
+      { name: 'number', kind: 'digit', min: 1, max: 4 },
+    ],
+  },
+  {
+    // 22 BH 1234 AA
+    kind: 'bh',
+    segments: [
+      { name: 'period', kind: 'digit', min: 2, max: 2 },
+      { name: 'prefix', kind: 'literal', min: 2, max: 2, values: ['BH'] },
+      { name: 'number', kind: 'digit', min: 4, max: 4 },
+      { name: 'series', kind: 'letter', min: 1, max: 2 },
+    ],
+  },
+  {
+    // T 0524 KA 1234 AB
+    kind: 'temporary',
+    segments: [
+      { name: 'prefix', kind: 'literal', min: 1, max: 1, values: ['T'] },
+      { name: 'period', kind: 'digit', min: 4, max: 4 },
+      { name: 'state', kind: 'letter', min: 2, max: 2 },
+      { name: 'number', kind: 'digit', min: 4, max: 4 },
+      { name: 'series', kind: 'letter', min: 1, max: 2 },
+    ],
+  },
+  {
+    // 77 CD 12
+    kind: 'diplomatic',
+    segments: [
+      { name: 'period', kind: 'digit', min: 2, max: 3 },
+      { name: 'series', kind: 'literal', min: 2, max: 2, values: DIPLOMATIC_TYPES },
+      { name: 'number', kind: 'digit', min: 1, max: 4 },
+    ],
+  },
+];
+
+/**
+ * Get the readings of a character that fit a segment kind
+ * @param char Character read by OCR
+ * @param kind Segment kind
+ * @returns Candidate characters with their correction cost
+ */
+const getCandidates = (char: string, kind: 'letter' | 'digit'): { char: string; cost: number }[] => {
+  const isDigit = /\d/.test(char);
+
+  if (kind === 'digit') {
+    return isDigit ? [{ char, cost: 0 }] : (LETTER_TO_DIGITS[char] || []).map(c => ({ char: c, cost: 1 }));
+  }
+
+  return isDigit ? (DIGIT_TO_LETTERS[char] || []).map(c => ({ char: c, cost: 1 })) : [{ char, cost: 0 }];
+};
+
+/**
+ * Read a run of characters as a single segment kind
+ * @param text Raw characters
+ * @param kind Segment kind
+ * @returns Every corrected reading with its cost
+ */
+const readRun = (text: string, kind: 'letter' | 'digit'): { value: string; cost: number }[] => {
+  let readings = [{ value: '', cost: 0 }];
+
+  for (const char of text) {
+    const candidates = getCandidates(char, kind);
+    readings = readings.flatMap(r => candidates.map(c => ({ value: r.value + c.char, cost: r.cost + c.cost })));
+
+    if (readings.length === 0) {
+      break;
+    }
+  }
+
+  return readings;
+};
+
+interface SegmentMatch {
+  values: Partial<Record<Segment['name'], string>>;
+  cost: number;
+}
+
+/**
+ * Match raw text against a format, allowing position-aware corrections
+ * @param text Raw characters (uppercase, alphanumeric only)
+ * @param segments Remaining segments of the format
+ * @returns Every way the text fits the segments
+ */
+const matchSegments = (text: string, segments: Segment[]): SegmentMatch[] => {
+  if (segments.length === 0) {
+    return text.length === 0 ? [{ values: {}, cost: 0 }] : [];
+  }
+
+  const [segment, ...rest] = segments;
+  const matches: SegmentMatch[] = [];
+
+  for (let length = segment.min; length <= Math.min(segment.max, text.length); length++) {
+    const part = text.slice(0, length);
+    let readings: { value: string; cost: number }[];
+
+    if (segment.kind === 'literal') {
+      // Literals are letters, so read them as such and then check the allowed values
+      readings = readRun(part, 'letter').filter(r => segment.values!.includes(r.value));
+    } else {
+      readings = readRun(part, segment.kind);
+    }
+
+    if (readings.length === 0) {
+      continue;
+    }
+
+    for (const match of matchSegments(text.slice(length), rest)) {
+      for (const reading of readings) {
+        matches.push({
+          values: { ...match.values, [segment.name]: reading.value },
+          cost: match.cost + reading.cost,
+        });
+      }
+    }
+  }
+
+  return matches;
+};
+
+/**
+ * Format parsed parts into the canonical registration string
+ * @param kind Registration kind
+ * @param values Parsed segment values
+ * @returns Canonical registration number
+ */
+const formatCanonical = (kind: RegistrationKind, values: SegmentMatch['values']): string => {
+  switch (kind) {
+    case 'standard':
+      return [values.state, values.rto!.padStart(2, '0'), values.series, values.number!.padStart(4, '0')]
+        .filter(Boolean)
+        .join(' ');
+    case 'bh':
+      return `${values.period} BH ${values.number} ${values.series}`;
+    case 'temporary':
+      return `T${values.period} ${values.state} ${values.number} ${values.series}`;
+    case 'diplomatic':
+      return `${values.period} ${values.series} ${values.number}`;
+  }
+};
+
+/**
+ * Score a parse; lower is more likely
+ * @param parsed Candidate parse
+ * @returns Corrections made, plus a penalty for standard numbers shorter than
+ * the four digits printed on real plates
+ */
+const scoreParse = (parsed: RegistrationNumber): number => {
+  const missingDigits = parsed.kind === 'standard' ? 4 - parsed.number.length : 0;
+  return parsed.corrections + missingDigits * 1.5;
+};
+
+/**
+ * Check whether a state code is issued by an Indian RTO
+ * @param code Two-letter state code
+ * @returns True if the code is known
+ */
+export const isValidStateCode = (code: string): boolean => {
+  return code in STATE_CODES;
+};
+
+/**
+ * Parse an OCR or user-entered registration number
+ * @param raw Raw registration text
+ * @returns Parsed registration number with the fewest corrections, or null if it fits no format
+ */
+export const parseRegistrationNumber = (raw: string): RegistrationNumber | null => {
+  const text = raw.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  let best: RegistrationNumber | null = null;
+
+  for (const format of FORMATS) {
+    for (const match of matchSegments(text, format.segments)) {
+      const { values } = match;
+
+      if (values.state && !isValidStateCode(values.state)) {
+        continue;
+      }
+
+      const candidate: RegistrationNumber = {
+        kind: format.kind,
+        stateCode: values.state || null,
+        rto: format.kind === 'standard' ? values.rto!.padStart(2, '0') : null,
+        series: values.series || '',
+        number: values.number!,
+        period: values.period || null,
+        canonical: formatCanonical(format.kind, values),
+        corrections: match.cost,
+      };
+
+      if (!best || scoreParse(candidate) < scoreParse(best)) {
+        best = candidate;
+      }
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Normalise a registration number to its canonical form
+ * @param raw Raw registration text
+ * @returns Canonical registration number, or the cleaned-up input if it fits no format
+ */
+export const normaliseRegistrationNumber = (raw: string): string => {
+  const parsed = parseRegistrationNumber(raw);
+  if (parsed) {
+    return parsed.canonical;
+  }
+
+  return raw.toUpperCase().replace(/[^A-Z0-9]+/g, ' ').trim();
+};
+
+/**
+ * Check whether OCR commonly reads one character in place of the other
+ * @param a Character
+ * @param b Character
+ * @returns True if the pair is a known letter and digit confusion, e.g. O and 0
+ */
+export const isOcrConfusion = (a: string, b: string): boolean => {
+  return (DIGIT_TO_LETTERS[a] || LETTER_TO_DIGITS[a] || []).includes(b)
+    || (DIGIT_TO_LETTERS[b] || LETTER_TO_DIGITS[b] || []).includes(a);
+};
+
+/**
+ * Count the single-character edits between two strings
+ * @param a First string
+ * @param b Second string
+ * @param substitutionCost Cost of replacing one differing character with another; 1 by default
+ * @returns Levenshtein distance, weighted by the substitution costs
+ */
+export const getEditDistance = (
+  a: string,
+  b: string,
+  substitutionCost: (from: string, to: string) => number = () => 1
+): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = a[i - 1] === b[j - 1] ? 0 : substitutionCost(a[i - 1], b[j - 1]);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + substitution);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+};
@@ -0,0 +1,278 @@
+// This file holds detections that were not confident enough to issue a challan
+// automatically, until an officer reviews them.
+
+import { firestore } from '../firebase';
+import {
+  addDoc,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  orderBy,
+  query,
+  runTransaction,
+  serverTimestamp,
+  Timestamp,
+  updateDoc,
+  where,
+} from 'firebase/firestore';
+import {
+  attachEvidence,
+  attachEvidenceClip,
+  getDetectedChallanFields,
+  getViolationFields,
+  reassessViolation,
+  ViolationAssessment,
+} from './challanUtils';
+import { ChallanEvidence, EvidenceCapture, EvidenceImage } from './evidence';
+
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+/**
+ * Reasons an officer can give for rejecting a detection
+ */
+export const REJECTION_REASONS = {
+  plate_unreadable: 'Plate unreadable or misread',
+  wrong_vehicle: 'Plate belongs to another vehicle',
+  no_violation: 'No violation occurred',
+  duplicate: 'Duplicate detection',
+  exempt: 'Exempt vehicle (emergency or official)',
+};
+
+export type RejectionReason = keyof typeof REJECTION_REASONS;
+
+/**
+ * Interface for a detection awaiting review
+ */
+export interface ReviewItem {
+  id: string;
+  vehicleNumber: string;
+  vehicleType: string;
+  violationType: string;
+  location: string;
+  amount: number;
+  status: ReviewStatus;
+  createdAt: Timestamp;
+  dimensions: ViolationAssessment['dimensions'];
+  measuredSpeed?: number;
+  speedLimit?: number;
+  zoneSpeedLimit?: number;
+  rule?: ViolationAssessment['rule'];
+  confidence?: ViolationAssessment['confidence'];
+  vehicleColour?: ViolationAssessment['vehicleColour'];
+  bodyStyle?: ViolationAssessment['bodyStyle'];
+  evidence?: ChallanEvidence;
+  /** Set once reviewed */
+  reviewedAt?: Timestamp;
+  challanId?: string;
+  rejectionReason?: RejectionReason;
+}
+
+/**
+ * Error thrown when a detection cannot be approved
+ */
+export class ReviewError extends Error {
+  constructor(public readonly reason: 'not_pending' | 'no_violation', message: string) {
+    super(message);
+    this.name = 'ReviewError';
+  }
+}
+
+/**
+ * Corrections an officer made before approving a detection
+ */
+export interface ReviewCorrections {
+  vehicleNumber: string;
+  /** Vehicle type as classified, e.g. 'Car' */
+  vehicleType: string;
+}
+
+/**
+ * Send a detected violation to the review queue instead of issuing a challan
+ * @param violation Violation details
+ * @param location Detection location
+ * @param capture Evidence images to upload and attach to the review item
+ * @returns Queued review details, or null on failure
+ */
+export const submitForReview = async (
+  violation: ViolationAssessment,
+  location: string,
+  capture: EvidenceCapture | null = null
+) => {
+  try {
+    const reviewRef = await addDoc(collection(firestore, 'violationReviews'), {
+      ...getViolationFields(violation),
+      location,
+      status: 'pending',
+      createdAt: serverTimestamp()
+    });
+
+    const evidence = await attachEvidence(reviewRef, capture);
+
+    return {
+      id: reviewRef.id,
+      ...violation,
+      evidence
+    };
+  } catch (error) {
+    console.error('Error submitting violation for review:', error);
+    return null;
+  }
+};
+
+/**
+ * Attach a video clip to a detection awaiting review
+ *
+ * The clip is only ready after its post-roll, so the item may have been
+ * approved meanwhile; its challan then copied the evidence without the clip,
+ * and the clip is added to the challan as well.
+ * @param itemId Review item ID
+ * @param clip WebM clip
+ * @returns Promise with the stored clip, or null if it could not be attached
+ */
+export const attachReviewClip = async (itemId: string, clip: Blob): Promise<EvidenceImage | null> => {
+  const reviewRef = doc(firestore, 'violationReviews', itemId);
+  const stored = await attachEvidenceClip(reviewRef, clip);
+  if (!stored) {
+    return null;
+  }
+
+  // Read after the clip is written, so an approval either copied it or is seen here
+  try {
+    const challanId = (await getDoc(reviewRef)).data()?.challanId;
+    if (challanId) {
+      await updateDoc(doc(firestore, 'challans', challanId), { 'evidence.clip': stored });
+    }
+  } catch (error) {
+    console.error('Error copying evidence clip to challan:', error);
+  }
+
+  return stored;
+};
+
+/**
+ * Get the detections waiting for review, oldest first
+ * @returns Promise with array of review items
+ */
+export const getPendingReviews = async (): Promise<ReviewItem[]> => {
+  try {
+    const q = query(
+      collection(firestore, 'violationReviews'),
+      where('status', '==', 'pending'),
+      orderBy('createdAt', 'asc')
+    );
+
+    const querySnapshot = await getDocs(q);
+    const items: ReviewItem[] = [];
+
+    querySnapshot.forEach((doc) => {
+      items.push({ id: doc.id, ...doc.data() } as ReviewItem);
+    });
+
+    return items;
+  } catch (error) {
+    console.error('Error fetching pending reviews:', error);
+    throw error;
+  }
+};
+
+/**
+ * Approve a detection and issue its challan
+ *
+ * The review item is read and marked approved in the same transaction as the
+ * challan is written, so an item is only ever issued once, from its stored
+ * fields rather than a copy loaded earlier.
+ * @param itemId Review item ID
+ * @param corrections Plate and vehicle type as confirmed by the officer
+ * @returns Promise with the new challan ID; rejects with a ReviewError if the item
+ * was already reviewed or the corrected vehicle did not violate
+ */
+export const approveReview = async (itemId: string, corrections: ReviewCorrections): Promise<string> => {
+  const reviewRef = doc(firestore, 'violationReviews', itemId);
+  const challanRef = doc(collection(firestore, 'challans'));
+
+  try {
+    return await runTransaction(firestore, async (transaction) => {
+      const snapshot = await transaction.get(reviewRef);
+
+      if (!snapshot.exists() || snapshot.data().status !== 'pending') {
+        throw new ReviewError('not_pending', 'This detection has already been reviewed');
+      }
+
+      const item = { id: snapshot.id, ...snapshot.data() } as ReviewItem;
+
+      // A corrected type can change the rule, limit and fine, or mean there was no violation at all
+      const assessed = corrections.vehicleType === item.vehicleType
+        ? { fineAmount: item.amount, speedLimit: item.speedLimit, rule: item.rule }
+        : reassessViolation(item, corrections.vehicleType, item.createdAt.toDate());
+
+      if (!assessed) {
+        throw new ReviewError('no_violation', `A ${corrections.vehicleType.toLowerCase()} does not commit this violation here`);
+      }
+
+      const violation: ViolationAssessment = {
+        vehicleNumber: corrections.vehicleNumber,
+        // Stored as classified, e.g. 'Car', like automatically issued challans
+        vehicleType: corrections.vehicleType,
+        violationType: item.violationType,
+        dimensions: item.dimensions,
+        fineAmount: assessed.fineAmount,
+        measuredSpeed: item.measuredSpeed,
+        speedLimit: assessed.speedLimit,
+        zoneSpeedLimit: item.zoneSpeedLimit,
+        rule: assessed.rule,
+        confidence: item.confidence,
+        vehicleColour: item.vehicleColour,
+        bodyStyle: item.bodyStyle,
+      };
+
+      transaction.set(challanRef, {
+        ...getDetectedChallanFields(violation, item.location),
+        ...(item.evidence && { evidence: item.evidence }),
+      });
+
+      transaction.update(reviewRef, {
+        status: 'approved',
+        challanId: challanRef.id,
+        reviewedAt: serverTimestamp(),
+        corrections,
+      });
+
+      return challanRef.id;
+    });
+  } catch (error) {
+    console.error('Error approving review:', error);
+    throw error;
+  }
+};
+
+/**
+ * Reject a detection without issuing a challan
+ * @param itemId Review item ID
+ * @param reason Rejection reason code
+ * @returns Promise that resolves when the rejection is saved; rejects with a ReviewError
+ * if the item was already reviewed
+ */
+export const rejectReview = async (itemId: string, reason: RejectionReason): Promise<void> => {
+  const reviewRef = doc(firestore, 'violationReviews', itemId);
+
+  try {
+    // As with approval, an item another officer has reviewed meanwhile is left as it is
+    await runTransaction(firestore, async (transaction) => {
+      const snapshot = await transaction.get(reviewRef);
+
+      if (!snapshot.exists() || snapshot.data().status !== 'pending') {
+        throw new ReviewError('not_pending', 'This detection has already been reviewed');
+      }
+
+      transaction.update(reviewRef, {
+        status: 'rejected',
+        rejectionReason: reason,
+        reviewedAt: serverTimestamp(),
+      });
+    });
+  } catch (error) {
+    console.error('Error rejecting review:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,181 @@
+// This file estimates vehicle speeds from the times tracked vehicles cross two
+// reference lines a known distance apart on the road.
+
+import vehicleData from '../data/vehicleData.json';
+import { getGroundPoint, Point } from './zoneGeometry';
+import { Track } from './vehicleTracker';
+import { CameraCalibration } from './calibration';
+import { applyHomography, getDistance } from './homography';
+
+export interface SpeedLine {
+  start: Point;
+  end: Point;
+}
+
+/**
+ * Interface for a camera's speed trap
+ */
+export interface SpeedTrap {
+  /** Reference lines across the road, in normalised frame coordinates */
+  lines: [SpeedLine, SpeedLine];
+  /** Distance between the lines along the road, in metres */
+  distance: number;
+  /** Speed limit at this camera in km/h; without one each vehicle type's limit applies */
+  speedLimit: number | null;
+}
+
+export interface SpeedMeasurement {
+  /** Measured speed in km/h */
+  speed: number;
+  /** Times the vehicle crossed the first and the second line it passed, in ms */
+  crossedAt: [number, number];
+}
+
+export type VehicleDataType = keyof typeof vehicleData.vehicles;
+
+/**
+ * Map a classified vehicle type onto its entry in the vehicle data
+ * @param vehicleType Vehicle type from classifyVehicleType
+ * @returns Vehicle data key; vans are treated as cars
+ */
+export const getVehicleDataType = (vehicleType: string): VehicleDataType => {
+  const key = vehicleType.toLowerCase();
+  return key in vehicleData.vehicles ? key as VehicleDataType : 'car';
+};
+
+/**
+ * Get the speed limit that applies to a vehicle
+ * @param vehicleType Vehicle type from classifyVehicleType
+ * @param zoneLimit Speed limit at the camera, if one is set
+ * @returns Speed limit in km/h: the lower of the vehicle type's and the camera's
+ */
+export const getSpeedLimit = (vehicleType: string, zoneLimit: number | null): number => {
+  const typeLimit = vehicleData.vehicles[getVehicleDataType(vehicleType)].maxSpeed;
+  return zoneLimit ? Math.min(typeLimit, zoneLimit) : typeLimit;
+};
+
+/**
+ * Measure the road distance between the two lines of a speed trap
+ * @param lines Reference lines, in normalised frame coordinates
+ * @param calibration Camera calibration
+ * @returns Distance between the line midpoints in metres, or null without a ground-plane calibration
+ */
+export const measureLineDistance = (lines: [SpeedLine, SpeedLine], calibration: CameraCalibration | null): number | null => {
+  if (!calibration?.groundPlane) {
+    return null;
+  }
+
+  const [a, b] = lines.map(line => applyHomography(calibration.groundPlane!.homography, {
+    x: (line.start.x + line.end.x) / 2,
+    y: (line.start.y + line.end.y) / 2,
+  }));
+
+  return getDistance(a, b);
+};
+
+/**
+ * Find where a movement crosses a line
+ * @param from Previous position
+ * @param to Current position
+ * @param line Line to test
+ * @returns Fraction of the movement at which the line is crossed, or null if it is not crossed
+ */
+const getCrossingFraction = (from: Point, to: Point, line: SpeedLine): number | null => {
+  const rx = to.x - from.x;
+  const ry = to.y - from.y;
+  const sx = line.end.x - line.start.x;
+  const sy = line.end.y - line.start.y;
+  const denominator = rx * sy - ry * sx;
+
+  if (denominator === 0) {
+    return null;
+  }
+
+  const qx = line.start.x - from.x;
+  const qy = line.start.y - from.y;
+  const t = (qx * sy - qy * sx) / denominator;
+  const u = (qx * ry - qy * rx) / denominator;
+
+  return t >= 0 && t <= 1 && u >= 0 && u <= 1 ? t : null;
+};
+
+/**
+ * Create a speed estimator for a camera's speed trap
+ * @param trap Speed trap configuration
+ * @returns Estimator instance
+ */
+export const createSpeedEstimator = (trap: SpeedTrap) => {
+  // Crossing time of each line, per track
+  const crossings = new Map<number, (number | null)[]>();
+  const measurements = new Map<number, SpeedMeasurement>();
+
+  /**
+   * Check a track's latest movement against both lines
+   * @param track Track seen in the current frame
+   * @param frameWidth Frame width in pixels
+   * @param frameHeight Frame height in pixels
+   * @returns True if the track crossed a line it had not crossed before
+   */
+  const update = (track: Track, frameWidth: number, frameHeight: number): boolean => {
+    if (track.history.length < 2 || measurements.has(track.id)) {
+      return false;
+    }
+
+    const previous = track.history[track.history.length - 2];
+    const current = track.history[track.history.length - 1];
+    const from = getGroundPoint(previous.box, frameWidth, frameHeight);
+    const to = getGroundPoint(current.box, frameWidth, frameHeight);
+    const times = crossings.get(track.id) || [null, null];
+    let crossed = false;
+
+    trap.lines.forEach((line, index) => {
+      if (times[index] !== null) {
+        return;
+      }
+
+      const fraction = getCrossingFraction(from, to, line);
+      if (fraction !== null) {
+        // Interpolate between frames, so the sampling rate does not limit precision
+        times[index] = previous.timestamp + fraction * (current.timestamp - previous.timestamp);
+        crossed = true;
+      }
+    });
+
+    crossings.set(track.id, times);
+
+    if (times[0] !== null && times[1] !== null) {
+      const first = Math.min(times[0], times[1]);
+      const second = Math.max(times[0], times[1]);
+
+      if (second > first) {
+        measurements.set(track.id, {
+          speed: (trap.distance / ((second - first) / 1000)) * 3.6,
+          crossedAt: [first, second],
+        });
+      }
+    }
+
+    return crossed;
+  };
+
+  const getMeasurement = (trackId: number) => measurements.get(trackId) || null;
+
+  const forget = (trackId: number) => {
+    crossings.delete(trackId);
+    measurements.delete(trackId);
+  };
+
+  const reset = () => {
+    crossings.clear();
+    measurements.clear();
+  };
+
+  return {
+    update,
+    getMeasurement,
+    forget,
+    reset,
+  };
+};
+
+export type SpeedEstimator = ReturnType<typeof createSpeedEstimator>;
@@ -0,0 +1,252 @@
+// This file describes a detected vehicle beyond its plate: its dominant paint
+// colour, clustered in CIELAB so that distances follow perceived difference,
+// and its body style from the measured dimensions. Officers compare these with
+// the registration records to catch misread plates.
+
+type Box = { x: number; y: number; width: number; height: number };
+type Lab = [number, number, number];
+
+export type VehicleColour =
+  | 'white'
+  | 'silver'
+  | 'grey'
+  | 'black'
+  | 'red'
+  | 'orange'
+  | 'yellow'
+  | 'green'
+  | 'blue'
+  | 'brown';
+
+export type BodyStyle = 'motorcycle' | 'hatchback' | 'sedan' | 'suv' | 'pickup' | 'van' | 'bus' | 'truck';
+
+/**
+ * Interface for the attributes stored on a violation
+ */
+export interface VehicleAttributes {
+  /** Unset if too little of the vehicle was visible to judge */
+  vehicleColour?: VehicleColour;
+  bodyStyle: BodyStyle;
+}
+
+// Typical paint of each colour name, in sRGB
+const COLOUR_PALETTE: Record<VehicleColour, [number, number, number]> = {
+  white: [240, 240, 236],
+  silver: [190, 192, 194],
+  grey: [110, 112, 114],
+  black: [28, 28, 30],
+  red: [165, 28, 34],
+  orange: [228, 112, 24],
+  yellow: [232, 196, 36],
+  green: [34, 104, 56],
+  blue: [32, 62, 148],
+  brown: [112, 76, 48],
+};
+
+const BODY_STYLE_LABELS: Record<BodyStyle, string> = {
+  motorcycle: 'Motorcycle',
+  hatchback: 'Hatchback',
+  sedan: 'Sedan',
+  suv: 'SUV',
+  pickup: 'Pickup',
+  van: 'Van',
+  bus: 'Bus',
+  truck: 'Truck',
+};
+
+// Pixels sampled from a vehicle; enough for stable clusters at a fraction of the cost of every pixel
+const MAX_SAMPLES = 1024;
+const MIN_SAMPLES = 32;
+
+// Clusters found in the samples; windows, shadows and highlights each take one, leaving the paint
+const CLUSTERS = 4;
+const KMEANS_ITERATIONS = 8;
+
+/**
+ * Convert an sRGB colour to CIELAB under a D65 white point
+ * @param r Red, 0..255
+ * @param g Green, 0..255
+ * @param b Blue, 0..255
+ * @returns L*, a* and b*
+ */
+const rgbToLab = (r: number, g: number, b: number): Lab => {
+  const linear = [r, g, b].map((channel) => {
+    const c = channel / 255;
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  });
+
+  const x = (linear[0] * 0.4124 + linear[1] * 0.3576 + linear[2] * 0.1805) / 0.95047;
+  const y = linear[0] * 0.2126 + linear[1] * 0.7152 + linear[2] * 0.0722;
+  const z = (linear[0] * 0.0193 + linear[1] * 0.1192 + linear[2] * 0.9505) / 1.08883;
+
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+
+  return [116 * f(y) - 16, 500 * (f(x) - f(y)), 200 * (f(y) - f(z))];
+};
+
+const distanceSquared = (a: Lab, b: Lab): number => {
+  return (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+};
+
+const PALETTE_LAB = (Object.keys(COLOUR_PALETTE) as VehicleColour[]).map((colour) => ({
+  colour,
+  lab: rgbToLab(...COLOUR_PALETTE[colour]),
+}));
+
+/**
+ * Get the display name of a body style
+ * @param bodyStyle Body style
+ * @returns Display name
+ */
+export const getBodyStyleLabel = (bodyStyle: BodyStyle): string => BODY_STYLE_LABELS[bodyStyle];
+
+/**
+ * Get the display name of a colour
+ * @param colour Vehicle colour
+ * @returns Display name
+ */
+export const getVehicleColourLabel = (colour: VehicleColour): string => {
+  return colour.charAt(0).toUpperCase() + colour.slice(1);
+};
+
+/**
+ * Get every body style, for filters
+ * @returns Body styles
+ */
+export const getAllBodyStyles = (): BodyStyle[] => Object.keys(BODY_STYLE_LABELS) as BodyStyle[];
+
+/**
+ * Get every colour name, for filters
+ * @returns Vehicle colours
+ */
+export const getAllVehicleColours = (): VehicleColour[] => Object.keys(COLOUR_PALETTE) as VehicleColour[];
+
+/**
+ * Find the dominant colour of a vehicle crop with k-means in CIELAB
+ * @param image Pixels of the vehicle's body panels
+ * @returns Nearest colour name to the largest cluster, or null if too few pixels were sampled
+ */
+export const extractDominantColour = (image: ImageData): VehicleColour | null => {
+  const pixels = image.width * image.height;
+  const step = Math.max(1, Math.floor(Math.sqrt(pixels / MAX_SAMPLES)));
+  const samples: Lab[] = [];
+
+  for (let y = 0; y < image.height; y += step) {
+    for (let x = 0; x < image.width; x += step) {
+      const i = (y * image.width + x) * 4;
+      samples.push(rgbToLab(image.data[i], image.data[i + 1], image.data[i + 2]));
+    }
+  }
+
+  if (samples.length < MIN_SAMPLES) {
+    return null;
+  }
+
+  // Seeded from lightness quantiles rather than at random, so a vehicle always gets the same colour
+  const byLightness = [...samples].sort((a, b) => a[0] - b[0]);
+  let centres: Lab[] = Array.from({ length: CLUSTERS }, (_, k) =>
+    byLightness[Math.floor(((k + 0.5) / CLUSTERS) * byLightness.length)]
+  );
+  let counts: number[] = [];
+
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    const sums: Lab[] = centres.map(() => [0, 0, 0]);
+    counts = centres.map(() => 0);
+
+    for (const sample of samples) {
+      let nearest = 0;
+      for (let k = 1; k < centres.length; k++) {
+        if (distanceSquared(sample, centres[k]) < distanceSquared(sample, centres[nearest])) {
+          nearest = k;
+        }
+      }
+      sums[nearest] = [sums[nearest][0] + sample[0], sums[nearest][1] + sample[1], sums[nearest][2] + sample[2]];
+      counts[nearest]++;
+    }
+
+    centres = centres.map((centre, k) =>
+      counts[k] > 0 ? [sums[k][0] / counts[k], sums[k][1] / counts[k], sums[k][2] / counts[k]] : centre
+    );
+  }
+
+  const dominant = centres[counts.indexOf(Math.max(...counts))];
+
+  return PALETTE_LAB.reduce((best, entry) =>
+    distanceSquared(dominant, entry.lab) < distanceSquared(dominant, best.lab) ? entry : best
+  ).colour;
+};
+
+/**
+ * Work out a vehicle's body style
+ * @param dimensions Vehicle dimensions in metres, measured with the camera's calibration
+ * @param vehicleType Vehicle type from the detector or classifyVehicleType
+ * @returns Body style; two-wheelers, buses and trucks keep their type
+ */
+export const classifyBodyStyle = (
+  dimensions: { width: number; height: number; length: number },
+  vehicleType: string
+): BodyStyle => {
+  const type = vehicleType.toLowerCase();
+  if (type === 'motorcycle' || type === 'bus' || type === 'truck') {
+    return type;
+  }
+
+  const { height, length } = dimensions;
+
+  if (height >= 1.9) {
+    return 'van';
+  } else if (length >= 4.9) {
+    // Longer than a saloon but no taller than one: a load bed rather than a cabin
+    return 'pickup';
+  } else if (height >= 1.6) {
+    return 'suv';
+  } else if (length < 4.0) {
+    return 'hatchback';
+  }
+
+  return 'sedan';
+};
+
+/**
+ * Get the attributes of a vehicle seen in a frame
+ *
+ * The colour is sampled from the middle of the box, below the windows and
+ * above the wheels and road, where body panels fill most of the view.
+ * @param frame Canvas containing the frame
+ * @param box Vehicle bounding box in frame coordinates
+ * @param dimensions Vehicle dimensions in metres
+ * @param vehicleType Vehicle type from the detector or classifyVehicleType
+ * @returns Colour and body style
+ */
+export const getVehicleAttributes = (
+  frame: HTMLCanvasElement,
+  box: Box,
+  dimensions: { width: number; height: number; length: number },
+  vehicleType: string
+): VehicleAttributes => {
+  const bodyStyle = classifyBodyStyle(dimensions, vehicleType);
+  const ctx = frame.getContext('2d');
+
+  const x = Math.max(0, Math.round(box.x + box.width * 0.2));
+  const y = Math.max(0, Math.round(box.y + box.height * 0.35));
+  const width = Math.min(frame.width - x, Math.round(box.width * 0.6));
+  const height = Math.min(frame.height - y, Math.round(box.height * 0.4));
+
+  if (!ctx || width <= 0 || height <= 0) {
+    return { bodyStyle };
+  }
+
+  const vehicleColour = extractDominantColour(ctx.getImageData(x, y, width, height));
+
+  return vehicleColour ? { vehicleColour, bodyStyle } : { bodyStyle };
+};
+
+/**
+ * Describe a vehicle for display
+ * @param vehicle Vehicle type and, if known, its attributes
+ * @returns Description, e.g. 'Blue SUV', or the vehicle type if no attributes are known
+ */
+export const describeVehicle = (vehicle: { vehicleType: string } & Partial<VehicleAttributes>): string => {
+  const kind = vehicle.bodyStyle ? getBodyStyleLabel(vehicle.bodyStyle) : vehicle.vehicleType;
+  return vehicle.vehicleColour ? `${getVehicleColourLabel(vehicle.vehicleColour)} ${kind}` : kind;
+};
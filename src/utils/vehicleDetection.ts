@@ -1,66 +1,85 @@
 // This file contains utility functions for vehicle detection using OpenCV.js
 
+import { recognizePlateText, RecognizedCharacter } from './ocr';
+import { loadOpenCV } from './visionAssets';
+import { PreprocessingMode, PreprocessingProfile, preprocessGray, resolvePreprocessingProfile, thresholdPlate } from './preprocessing';
+
 /**
  * Initialize OpenCV.js
  * @returns Promise that resolves when OpenCV is ready
  */
 export const initOpenCV = (): Promise<void> => {
-  return new Promise((resolve) => {
-    if (window.cv) {
-      resolve();
-      return;
-    }
+  // Loads the copy served with the app; rejects with a VisionAssetError on failure or timeout
+  return loadOpenCV();
+};
 
-    // Set up a one-time event listener for OpenCV ready
-    const onReadyHandler = () => {
-      resolve();
-      document.removeEventListener('opencv-ready', onReadyHandler);
-    };
-    
-    document.addEventListener('opencv-ready', onReadyHandler);
-  });
+/**
+ * Frame sources OpenCV can read from; ImageData is what the vision worker receives
+ */
+export type FrameSource = HTMLImageElement | HTMLCanvasElement | ImageData;
+
+/**
+ * Read a frame into an OpenCV mat
+ * @param source Image, canvas or raw image data
+ * @returns RGBA mat; the caller must delete it
+ */
+export const readFrame = (source: FrameSource): CvMat => {
+  const cv = self.cv;
+  return source instanceof ImageData ? cv.matFromImageData(source) : cv.imread(source);
 };
 
 /**
- * Detect vehicles in an image
- * @param imageElement HTML image or canvas element containing the image
- * @returns Array of detected vehicles with their bounding boxes
+ * Draw a mat onto an offscreen canvas (cv.imshow needs a DOM canvas)
+ * @param mat Grayscale or RGBA mat
+ * @returns Offscreen canvas containing the image
  */
-export const detectVehicles = async (imageElement: HTMLImageElement | HTMLCanvasElement) => {
-  // Ensure OpenCV is initialized
-  await initOpenCV();
-  
-  const cv = window.cv;
-  
-  // Create OpenCV mat from image
-  const src = cv.imread(imageElement);
+export const matToCanvas = (mat: CvMat): OffscreenCanvas => {
+  const cv = self.cv;
   
-  // Convert to grayscale for better detection
-  const gray = new cv.Mat();
-  cv.cvtColor(src, gray, cv.COLOR_RGBA2GRAY);
+  const rgba = new cv.Mat();
+  if (mat.channels() === 1) {
+    cv.cvtColor(mat, rgba, cv.COLOR_GRAY2RGBA);
+  } else {
+    mat.copyTo(rgba);
+  }
   
-  // Apply Gaussian blur to reduce noise
-  const blurred = new cv.Mat();
-  const ksize = new cv.Size(5, 5);
-  cv.GaussianBlur(gray, blurred, ksize, 0);
+  const canvas = new OffscreenCanvas(rgba.cols, rgba.rows);
+  const imageData = new ImageData(new Uint8ClampedArray(rgba.data), rgba.cols, rgba.rows);
+  canvas.getContext('2d')!.putImageData(imageData, 0, 0);
+  rgba.delete();
   
-  // Apply Canny edge detection
-  const edges = new cv.Mat();
-  cv.Canny(blurred, edges, 50, 150);
+  return canvas;
+};
+
+export interface DetectedVehicle {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  area: number;
+}
+
+/**
+ * Find vehicle-like shapes in a binary mask
+ * @param mask Single-channel binary OpenCV mat (edges or foreground)
+ * @param minArea Minimum contour area in pixels
+ * @returns Bounding boxes of contours with a vehicle-like size and aspect ratio
+ */
+export const findVehicleContours = (mask: CvMat, minArea = 1000): DetectedVehicle[] => {
+  const cv = self.cv;
   
-  // Find contours
   const contours = new cv.MatVector();
   const hierarchy = new cv.Mat();
-  cv.findContours(edges, contours, hierarchy, cv.RETR_EXTERNAL, cv.CHAIN_APPROX_SIMPLE);
+  cv.findContours(mask, contours, hierarchy, cv.RETR_EXTERNAL, cv.CHAIN_APPROX_SIMPLE);
   
   // Filter contours to find potential vehicles
-  const vehicles = [];
+  const vehicles: DetectedVehicle[] = [];
   for (let i = 0; i < contours.size(); ++i) {
     const contour = contours.get(i);
     const area = cv.contourArea(contour);
     
     // Filter by area to remove small noise
-    if (area > 1000) {
+    if (area > minArea) {
       const rect = cv.boundingRect(contour);
       
       // Filter by aspect ratio to find vehicle-like shapes
@@ -79,74 +98,284 @@ export const detectVehicles = async (imageElement: HTMLImageElement | HTMLCanvas
     contour.delete();
   }
   
+  contours.delete();
+  hierarchy.delete();
+  
+  return vehicles;
+};
+
+/**
+ * Detect vehicles in an image
+ * @param imageElement HTML image, canvas element or image data containing the image
+ * @param preprocessing Preprocessing profile, or 'auto' to choose one from the frame's brightness
+ * @returns Array of detected vehicles with their bounding boxes
+ */
+export const detectVehicles = async (imageElement: FrameSource, preprocessing: PreprocessingMode = 'standard') => {
+  // Ensure OpenCV is initialized
+  await initOpenCV();
+  
+  const cv = self.cv;
+  
+  // Create OpenCV mat from image
+  const src = readFrame(imageElement);
+  
+  // Convert to grayscale for better detection
+  const gray = new cv.Mat();
+  cv.cvtColor(src, gray, cv.COLOR_RGBA2GRAY);
+  
+  // Correct for the lighting and reduce noise
+  const blurred = preprocessGray(gray, resolvePreprocessingProfile(gray, preprocessing));
+  
+  // Apply Canny edge detection
+  const edges = new cv.Mat();
+  cv.Canny(blurred, edges, 50, 150);
+  
+  // Find contours
+  const vehicles = findVehicleContours(edges);
+  
   // Clean up
   src.delete();
   gray.delete();
   blurred.delete();
   edges.delete();
+  
+  return vehicles;
+};
+
+export interface PlateReading {
+  text: string;
+  /** Plate bounding box in frame coordinates */
+  box: { x: number; y: number; width: number; height: number };
+  /** Overall OCR confidence in the range 0..1 */
+  confidence: number;
+  characters: RecognizedCharacter[];
+}
+
+interface PlateRegion {
+  center: { x: number; y: number };
+  width: number;
+  height: number;
+  angle: number;
+}
+
+// Single-row plates are ~4.7:1, two-row (mostly two-wheeler) plates ~1.7:1
+const MIN_PLATE_ASPECT = 1.4;
+const MAX_PLATE_ASPECT = 6.5;
+const MIN_PLATE_AREA_FRACTION = 0.004;
+const MAX_PLATE_AREA_FRACTION = 0.35;
+const OCR_PLATE_HEIGHT = 100;
+
+/**
+ * Locate the most plate-like rectangle in a grayscale vehicle crop
+ * @param gray Grayscale vehicle crop
+ * @returns Rotated plate region in crop coordinates, or null if none is found
+ */
+const locatePlateRegion = (gray: CvMat): PlateRegion | null => {
+  const cv = self.cv;
+  const cropArea = gray.rows * gray.cols;
+  
+  // Blackhat picks out dark characters on a light plate; the horizontal
+  // gradient then favours rows of vertical character strokes
+  const rectKernel = cv.getStructuringElement(cv.MORPH_RECT, new cv.Size(13, 5));
+  const blackhat = new cv.Mat();
+  cv.morphologyEx(gray, blackhat, cv.MORPH_BLACKHAT, rectKernel);
+  
+  const gradX = new cv.Mat();
+  cv.Sobel(blackhat, gradX, cv.CV_32F, 1, 0, -1);
+  cv.convertScaleAbs(gradX, gradX);
+  
+  // Merge the characters into a single blob and binarise
+  const mask = new cv.Mat();
+  cv.GaussianBlur(gradX, mask, new cv.Size(5, 5), 0);
+  cv.morphologyEx(mask, mask, cv.MORPH_CLOSE, rectKernel);
+  cv.threshold(mask, mask, 0, 255, cv.THRESH_BINARY + cv.THRESH_OTSU);
+  const smallKernel = cv.Mat.ones(3, 3, cv.CV_8U);
+  cv.erode(mask, mask, smallKernel, new cv.Point(-1, -1), 2);
+  cv.dilate(mask, mask, smallKernel, new cv.Point(-1, -1), 2);
+  
+  const contours = new cv.MatVector();
+  const hierarchy = new cv.Mat();
+  cv.findContours(mask, contours, hierarchy, cv.RETR_EXTERNAL, cv.CHAIN_APPROX_SIMPLE);
+  
+  let best: PlateRegion | null = null;
+  let bestArea = 0;
+  
+  for (let i = 0; i < contours.size(); ++i) {
+    const contour = contours.get(i);
+    const rotated = cv.minAreaRect(contour);
+    contour.delete();
+    
+    // Normalise so width is the long side and the angle is within +/-45 degrees
+    let { width, height } = rotated.size;
+    let angle = rotated.angle;
+    if (width < height) {
+      [width, height] = [height, width];
+      angle += 90;
+    }
+    if (angle > 45) angle -= 90;
+    if (angle < -45) angle += 90;
+    
+    const area = width * height;
+    const aspect = height > 0 ? width / height : 0;
+    
+    if (
+      aspect >= MIN_PLATE_ASPECT && aspect <= MAX_PLATE_ASPECT &&
+      area >= cropArea * MIN_PLATE_AREA_FRACTION && area <= cropArea * MAX_PLATE_AREA_FRACTION &&
+      area > bestArea
+    ) {
+      best = { center: rotated.center, width, height, angle };
+      bestArea = area;
+    }
+  }
+  
+  rectKernel.delete();
+  smallKernel.delete();
+  blackhat.delete();
+  gradX.delete();
+  mask.delete();
   contours.delete();
   hierarchy.delete();
   
-  return vehicles;
+  return best;
+};
+
+/**
+ * Deskew, crop and binarise a plate region for OCR
+ * @param gray Grayscale vehicle crop
+ * @param plate Plate region in crop coordinates
+ * @param profile Preprocessing profile deciding how the plate is binarised
+ * @returns Binarised plate with dark characters on white
+ */
+const preparePlateForOCR = (gray: CvMat, plate: PlateRegion, profile: PreprocessingProfile): CvMat => {
+  const cv = self.cv;
+  
+  // Rotate the crop around the plate centre so the plate is level
+  const rotation = cv.getRotationMatrix2D(new cv.Point(plate.center.x, plate.center.y), plate.angle, 1);
+  const rotated = new cv.Mat();
+  cv.warpAffine(gray, rotated, rotation, new cv.Size(gray.cols, gray.rows), cv.INTER_CUBIC, cv.BORDER_REPLICATE);
+  
+  const x = Math.max(0, Math.round(plate.center.x - plate.width / 2));
+  const y = Math.max(0, Math.round(plate.center.y - plate.height / 2));
+  const width = Math.min(rotated.cols - x, Math.round(plate.width));
+  const height = Math.min(rotated.rows - y, Math.round(plate.height));
+  const plateRoi = rotated.roi(new cv.Rect(x, y, width, height));
+  
+  // Upscale to a character height Tesseract handles well
+  const scaled = new cv.Mat();
+  const scale = OCR_PLATE_HEIGHT / height;
+  cv.resize(plateRoi, scaled, new cv.Size(Math.round(width * scale), OCR_PLATE_HEIGHT), 0, 0, cv.INTER_CUBIC);
+  
+  const binary = new cv.Mat();
+  thresholdPlate(scaled, binary, profile);
+  
+  // Tesseract expects dark text on a light background
+  if (cv.mean(binary)[0] < 127) {
+    cv.bitwise_not(binary, binary);
+  }
+  
+  const padded = new cv.Mat();
+  cv.copyMakeBorder(binary, padded, 10, 10, 10, 10, cv.BORDER_CONSTANT, new cv.Scalar(255));
+  
+  rotation.delete();
+  rotated.delete();
+  plateRoi.delete();
+  scaled.delete();
+  binary.delete();
+  
+  return padded;
 };
 
 /**
  * Extract license plate text from an image
- * @param imageElement HTML image or canvas element containing the image
- * @param region Region of interest (x, y, width, height)
- * @returns Detected license plate text
+ * @param imageElement HTML image, canvas element or image data containing the image
+ * @param region Region of interest (x, y, width, height), usually a vehicle bounding box
+ * @param preprocessing Preprocessing profile, or 'auto' to choose one from the vehicle's brightness
+ * @returns Plate text, bounding box and character confidences, or null if no plate is found
  */
 export const extractLicensePlate = async (
-  imageElement: HTMLImageElement | HTMLCanvasElement,
-  region: { x: number; y: number; width: number; height: number }
-) => {
+  imageElement: FrameSource,
+  region: { x: number; y: number; width: number; height: number },
+  preprocessing: PreprocessingMode = 'standard'
+): Promise<PlateReading | null> => {
   // Ensure OpenCV is initialized
   await initOpenCV();
   
-  const cv = window.cv;
+  const cv = self.cv;
   
   // Create OpenCV mat from image
-  const src = cv.imread(imageElement);
+  const src = readFrame(imageElement);
   
-  // Extract region of interest
-  const roi = src.roi(new cv.Rect(region.x, region.y, region.width, region.height));
+  // Extract region of interest, clamped to the frame
+  const x = Math.max(0, Math.round(region.x));
+  const y = Math.max(0, Math.round(region.y));
+  const width = Math.min(src.cols - x, Math.round(region.width));
+  const height = Math.min(src.rows - y, Math.round(region.height));
+  const roi = src.roi(new cv.Rect(x, y, width, height));
   
   // Convert to grayscale
   const gray = new cv.Mat();
   cv.cvtColor(roi, gray, cv.COLOR_RGBA2GRAY);
   
-  // Apply threshold to get binary image
-  const binary = new cv.Mat();
-  cv.threshold(gray, binary, 0, 255, cv.THRESH_BINARY + cv.THRESH_OTSU);
+  // The profile is chosen from the vehicle alone, since glare around a plate is local
+  const profile = resolvePreprocessingProfile(gray, preprocessing);
+  const prepared = preprocessGray(gray, profile, false);
   
-  // In a real implementation, we would use OCR here
-  // For this demo, we'll return a placeholder
+  const plate = locatePlateRegion(prepared);
+  let binary: CvMat | null = null;
+  if (plate) {
+    binary = preparePlateForOCR(prepared, plate, profile);
+  }
   
   // Clean up
   src.delete();
   roi.delete();
   gray.delete();
+  prepared.delete();
+  
+  if (!plate || !binary) {
+    return null;
+  }
+  
+  const plateCanvas = matToCanvas(binary);
   binary.delete();
   
-  // In a real implementation, this would be the result of OCR
-  return "AB 12 CD 345";
+  const ocr = await recognizePlateText(plateCanvas, plate.width / plate.height < 2.5);
+  const characters = ocr.characters.filter(c => c.char.trim() !== '');
+  
+  if (characters.length === 0) {
+    return null;
+  }
+  
+  // Axis-aligned bounds of the rotated plate, in frame coordinates
+  const radians = (plate.angle * Math.PI) / 180;
+  const boundsWidth = Math.abs(plate.width * Math.cos(radians)) + Math.abs(plate.height * Math.sin(radians));
+  const boundsHeight = Math.abs(plate.width * Math.sin(radians)) + Math.abs(plate.height * Math.cos(radians));
+  
+  return {
+    text: characters.map(c => c.char).join(''),
+    box: {
+      x: Math.round(x + plate.center.x - boundsWidth / 2),
+      y: Math.round(y + plate.center.y - boundsHeight / 2),
+      width: Math.round(boundsWidth),
+      height: Math.round(boundsHeight)
+    },
+    confidence: ocr.confidence,
+    characters
+  };
 };
 
 /**
- * Calculate vehicle dimensions based on camera calibration and distance
- * @param boundingBox Bounding box of the vehicle (x, y, width, height)
- * @param cameraParams Camera calibration parameters
- * @returns Estimated vehicle dimensions (width, height, length)
+ * Calculate vehicle dimensions from the camera's pixel-to-metre scale
+ * @param boundingBox Bounding box of the vehicle in pixels
+ * @param metresPerPixel Scale of the frame, from the camera's calibration
+ * @returns Estimated vehicle dimensions in metres (width, height, length)
  */
 export const calculateVehicleDimensions = (
   boundingBox: { width: number; height: number },
-  cameraParams: { focalLength: number; sensorWidth: number; distance: number }
+  metresPerPixel: number
 ) => {
-  // Calculate real-world width using similar triangles
-  const realWidth = (boundingBox.width * cameraParams.distance) / cameraParams.focalLength;
-  
-  // Calculate real-world height using similar triangles
-  const realHeight = (boundingBox.height * cameraParams.distance) / cameraParams.focalLength;
+  const realWidth = boundingBox.width * metresPerPixel;
+  const realHeight = boundingBox.height * metresPerPixel;
   
   // Estimate length based on vehicle type (this would be more sophisticated in a real implementation)
   const estimatedLength = realWidth * 2.5;
@@ -179,10 +408,21 @@ export const classifyVehicleType = (dimensions: { width: number; height: number;
   }
 };
 
+/**
+ * Name a detector class the way classifyVehicleType names vehicle types
+ * @param vehicleType Detector class, e.g. 'motorcycle'
+ * @returns Vehicle type, e.g. 'Motorcycle'
+ */
+export const formatVehicleType = (vehicleType: string): string => {
+  return vehicleType.charAt(0).toUpperCase() + vehicleType.slice(1).toLowerCase();
+};
+
+// OpenCV.js ships without typings, so mats are only named for readability
+export type CvMat = InstanceType<Window['cv']['Mat']>;
+
 // Add OpenCV type definitions to the Window interface
 declare global {
   interface Window {
     cv: any;
-    onOpenCVReady: () => void;
   }
 }
\ No newline at end of file
@@ -0,0 +1,272 @@
+// This file contains a multi-frame tracker that associates per-frame vehicle
+// detections into stable tracks, so that one physical vehicle yields one violation.
+
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TrackPoint {
+  timestamp: number;
+  box: BoundingBox;
+  /** Detector score of the box, if the detector gives one */
+  score?: number;
+}
+
+/**
+ * A detection fed to the tracker
+ */
+export type TrackedDetection = BoundingBox & { score?: number };
+
+export interface Track {
+  id: number;
+  box: BoundingBox;
+  history: TrackPoint[];
+  firstSeen: number;
+  lastSeen: number;
+  hits: number;
+  misses: number;
+  plateReadings: Record<string, number>;
+  /** Sum of the reading confidences behind each plate's votes */
+  plateConfidence: Record<string, number>;
+  violationIssued: boolean;
+}
+
+export interface TrackerOptions {
+  /** Minimum IoU for a detection to be matched to an existing track */
+  iouThreshold: number;
+  /** Maximum centroid distance (as a fraction of the track's diagonal) for a fallback match */
+  maxCentroidDistance: number;
+  /** Number of frames a track must be seen in before it is confirmed */
+  minHits: number;
+  /** Time in ms after which a track that has not been seen is dropped */
+  maxLostMs: number;
+  /** Number of agreeing OCR readings required before a plate is accepted */
+  minPlateVotes: number;
+  /** Number of past positions kept on each track */
+  historyLength: number;
+}
+
+export interface TrackerUpdate {
+  /** Tracks that were matched or created in this frame */
+  active: Track[];
+  /** Tracks that were dropped in this frame */
+  removed: Track[];
+}
+
+export const defaultTrackerOptions: TrackerOptions = {
+  iouThreshold: 0.3,
+  maxCentroidDistance: 0.5,
+  minHits: 3,
+  maxLostMs: 6000,
+  minPlateVotes: 2,
+  historyLength: 30,
+};
+
+/**
+ * Calculate the intersection-over-union of two bounding boxes
+ * @param a First bounding box
+ * @param b Second bounding box
+ * @returns IoU in the range 0..1
+ */
+export const calculateIoU = (a: BoundingBox, b: BoundingBox): number => {
+  const x1 = Math.max(a.x, b.x);
+  const y1 = Math.max(a.y, b.y);
+  const x2 = Math.min(a.x + a.width, b.x + b.width);
+  const y2 = Math.min(a.y + a.height, b.y + b.height);
+
+  const intersection = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+  const union = a.width * a.height + b.width * b.height - intersection;
+
+  return union > 0 ? intersection / union : 0;
+};
+
+const centroidDistance = (a: BoundingBox, b: BoundingBox): number => {
+  const dx = (a.x + a.width / 2) - (b.x + b.width / 2);
+  const dy = (a.y + a.height / 2) - (b.y + b.height / 2);
+  return Math.sqrt(dx * dx + dy * dy);
+};
+
+/**
+ * Get the plate text with the most OCR votes on a track
+ * @param track Track to inspect
+ * @param minVotes Minimum number of agreeing readings
+ * @returns Plate text, or null if no reading has enough votes
+ */
+export const getTrackPlate = (track: Track, minVotes: number): string | null => {
+  let best: string | null = null;
+  let bestVotes = 0;
+
+  for (const [plate, votes] of Object.entries(track.plateReadings)) {
+    if (votes > bestVotes) {
+      best = plate;
+      bestVotes = votes;
+    }
+  }
+
+  return bestVotes >= minVotes ? best : null;
+};
+
+/**
+ * Create a vehicle tracker
+ * @param options Tracker options, merged over the defaults
+ * @returns Tracker instance
+ */
+export const createVehicleTracker = (options: Partial<TrackerOptions> = {}) => {
+  const config: TrackerOptions = { ...defaultTrackerOptions, ...options };
+  let tracks: Track[] = [];
+  let nextId = 1;
+
+  /**
+   * Associate a frame's detections with the existing tracks
+   * @param detections Bounding boxes detected in the frame
+   * @param timestamp Frame timestamp in ms
+   * @returns Active and removed tracks
+   */
+  const update = (detections: TrackedDetection[], timestamp: number): TrackerUpdate => {
+    // Score every track/detection pair, preferring overlap over proximity
+    const candidates: { trackIndex: number; detectionIndex: number; score: number }[] = [];
+
+    tracks.forEach((track, trackIndex) => {
+      const diagonal = Math.sqrt(track.box.width ** 2 + track.box.height ** 2);
+
+      detections.forEach((detection, detectionIndex) => {
+        const iou = calculateIoU(track.box, detection);
+        if (iou >= config.iouThreshold) {
+          candidates.push({ trackIndex, detectionIndex, score: 1 + iou });
+          return;
+        }
+
+        const distance = centroidDistance(track.box, detection) / diagonal;
+        if (distance <= config.maxCentroidDistance) {
+          candidates.push({ trackIndex, detectionIndex, score: 1 - distance });
+        }
+      });
+    });
+
+    candidates.sort((a, b) => b.score - a.score);
+
+    const matchedTracks = new Set<number>();
+    const matchedDetections = new Set<number>();
+    const active: Track[] = [];
+
+    // Greedy assignment, best-scoring pairs first
+    for (const { trackIndex, detectionIndex } of candidates) {
+      if (matchedTracks.has(trackIndex) || matchedDetections.has(detectionIndex)) {
+        continue;
+      }
+
+      const track = tracks[trackIndex];
+      track.box = detections[detectionIndex];
+      track.history = [
+        ...track.history,
+        { timestamp, box: track.box, score: detections[detectionIndex].score },
+      ].slice(-config.historyLength);
+      track.lastSeen = timestamp;
+      track.hits++;
+      track.misses = 0;
+
+      matchedTracks.add(trackIndex);
+      matchedDetections.add(detectionIndex);
+      active.push(track);
+    }
+
+    tracks.forEach((track, trackIndex) => {
+      if (!matchedTracks.has(trackIndex)) {
+        track.misses++;
+      }
+    });
+
+    // Start a new track for every unmatched detection
+    detections.forEach((detection, detectionIndex) => {
+      if (matchedDetections.has(detectionIndex)) {
+        return;
+      }
+
+      const track: Track = {
+        id: nextId++,
+        box: detection,
+        history: [{ timestamp, box: detection, score: detection.score }],
+        firstSeen: timestamp,
+        lastSeen: timestamp,
+        hits: 1,
+        misses: 0,
+        plateReadings: {},
+        plateConfidence: {},
+        violationIssued: false,
+      };
+
+      tracks.push(track);
+      active.push(track);
+    });
+
+    // Drop lost tracks; a track still being matched is kept however long the vehicle stays in view,
+    // so that a parked or queueing vehicle never raises a second violation
+    const removed = tracks.filter(track => timestamp - track.lastSeen > config.maxLostMs);
+    tracks = tracks.filter(track => !removed.includes(track));
+
+    return {
+      active: active.filter(track => !removed.includes(track)),
+      removed,
+    };
+  };
+
+  /**
+   * Record an OCR reading for a track
+   * @param trackId Track ID
+   * @param plate Recognised plate text
+   * @param confidence Confidence of the reading in the range 0..1
+   */
+  const addPlateReading = (trackId: number, plate: string, confidence = 1) => {
+    const track = tracks.find(t => t.id === trackId);
+    if (track) {
+      track.plateReadings[plate] = (track.plateReadings[plate] || 0) + 1;
+      track.plateConfidence[plate] = (track.plateConfidence[plate] || 0) + confidence;
+    }
+  };
+
+  /**
+   * Check whether a track is ready to raise its violation
+   * @param track Track to check
+   * @returns True if the track is confirmed, has a plate and has not yet raised a violation
+   */
+  const isReadyForViolation = (track: Track): boolean => {
+    return !track.violationIssued &&
+      track.hits >= config.minHits &&
+      getTrackPlate(track, config.minPlateVotes) !== null;
+  };
+
+  /**
+   * Mark a track as having raised its violation
+   * @param trackId Track ID
+   */
+  const markViolationIssued = (trackId: number) => {
+    const track = tracks.find(t => t.id === trackId);
+    if (track) {
+      track.violationIssued = true;
+    }
+  };
+
+  const getPlate = (track: Track) => getTrackPlate(track, config.minPlateVotes);
+
+  const getTracks = () => [...tracks];
+
+  const reset = () => {
+    tracks = [];
+    nextId = 1;
+  };
+
+  return {
+    update,
+    addPlateReading,
+    isReadyForViolation,
+    markViolationIssued,
+    getPlate,
+    getTracks,
+    reset,
+  };
+};
+
+export type VehicleTracker = ReturnType<typeof createVehicleTracker>;
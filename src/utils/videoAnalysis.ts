@@ -0,0 +1,185 @@
+// This file runs the detection pipeline over a whole uploaded video by seeking
+// through it at a fixed sampling rate, and collects a timeline of the vehicles seen.
+
+import { DetectionPipeline, ViolationCandidate } from './detectionPipeline';
+import { BoundingBox, getTrackPlate } from './vehicleTracker';
+
+/**
+ * A vehicle seen in the video, from the first to the last frame it was tracked in
+ */
+export interface TimelineEntry {
+  trackId: number;
+  /** Video time in seconds */
+  startTime: number;
+  endTime: number;
+  /** Most-read plate so far, or null if none was read */
+  vehicleNumber: string | null;
+  /** Box in the frame the vehicle was first seen in */
+  box: BoundingBox;
+  /** Set if the vehicle raised a violation */
+  violation: ViolationCandidate | null;
+}
+
+export interface VideoAnalysisOptions {
+  /** Frames analysed per second of video */
+  sampleRate: number;
+  /** Called after every analysed frame with progress in the range 0..1 */
+  onProgress?: (progress: number, timeline: TimelineEntry[]) => void;
+  /** Stops the analysis early; the timeline so far is still returned */
+  signal?: AbortSignal;
+}
+
+export interface VideoAnalysisResult {
+  fileName: string;
+  duration: number;
+  sampleRate: number;
+  framesAnalysed: number;
+  /** Frames the video could not be seeked to, which were left out */
+  framesSkipped: number;
+  /** True if the analysis was stopped before the end of the video */
+  cancelled: boolean;
+  timeline: TimelineEntry[];
+}
+
+// Seeking can stall on badly encoded files; give up on a frame after this long
+const SEEK_TIMEOUT_MS = 5000;
+
+/**
+ * Seek a video and wait for the frame to be available
+ * @param video Video element
+ * @param time Time in seconds
+ * @returns Promise that resolves once the video has seeked
+ */
+const seekVideo = (video: HTMLVideoElement, time: number): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      video.removeEventListener('seeked', onSeeked);
+      reject(new Error(`Timed out seeking to ${time.toFixed(2)}s`));
+    }, SEEK_TIMEOUT_MS);
+
+    const onSeeked = () => {
+      clearTimeout(timer);
+      video.removeEventListener('seeked', onSeeked);
+      resolve();
+    };
+
+    video.addEventListener('seeked', onSeeked);
+    video.currentTime = time;
+  });
+};
+
+/**
+ * Analyse every sampled frame of a video
+ * @param video Video element with the uploaded file loaded; it is paused and seeked
+ * @param pipeline Pipeline to run, normally with recordViolations off
+ * @param fileName Name of the uploaded file
+ * @param options Sampling rate, progress callback and abort signal
+ * @returns Promise with the detection timeline
+ */
+export const analyzeVideo = async (
+  video: HTMLVideoElement,
+  pipeline: DetectionPipeline,
+  fileName: string,
+  options: VideoAnalysisOptions
+): Promise<VideoAnalysisResult> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const ctx = canvas.getContext('2d');
+
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+
+  const duration = video.duration;
+  const step = 1 / options.sampleRate;
+  const entries = new Map<number, TimelineEntry>();
+  let framesAnalysed = 0;
+  let framesSkipped = 0;
+  let cancelled = false;
+
+  video.pause();
+  pipeline.reset();
+
+  for (let time = 0; time < duration; time += step) {
+    if (options.signal?.aborted) {
+      cancelled = true;
+      break;
+    }
+
+    try {
+      await seekVideo(video, time);
+    } catch (error) {
+      console.error('Error seeking video:', error);
+      framesSkipped++;
+      options.onProgress?.(Math.min(1, (time + step) / duration), Array.from(entries.values()));
+      continue;
+    }
+
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+    // Video time rather than wall-clock time, so tracking is independent of how fast frames are processed
+    const result = await pipeline.processFrame(canvas, time * 1000);
+    framesAnalysed++;
+
+    for (const track of result.tracks) {
+      const entry = entries.get(track.id);
+
+      if (entry) {
+        entry.endTime = time;
+        entry.vehicleNumber = getTrackPlate(track, 1);
+      } else {
+        entries.set(track.id, {
+          trackId: track.id,
+          startTime: time,
+          endTime: time,
+          vehicleNumber: getTrackPlate(track, 1),
+          box: { ...track.box },
+          violation: null,
+        });
+      }
+    }
+
+    for (const candidate of result.candidates) {
+      const entry = entries.get(candidate.trackId);
+      if (entry) {
+        entry.violation = candidate;
+      }
+    }
+
+    options.onProgress?.(Math.min(1, (time + step) / duration), Array.from(entries.values()));
+  }
+
+  return {
+    fileName,
+    duration,
+    sampleRate: options.sampleRate,
+    framesAnalysed,
+    framesSkipped,
+    cancelled,
+    timeline: Array.from(entries.values()),
+  };
+};
+
+/**
+ * Convert an analysis result to CSV, one row per timeline entry
+ * @param result Video analysis result
+ * @returns CSV text
+ */
+export const videoAnalysisToCSV = (result: VideoAnalysisResult): string => {
+  const header = ['Track', 'Start (s)', 'End (s)', 'Vehicle Number', 'Violation', 'Vehicle Type', 'Speed (km/h)', 'Fine'];
+  const rows = result.timeline.map(entry => [
+    entry.trackId,
+    entry.startTime.toFixed(2),
+    entry.endTime.toFixed(2),
+    entry.vehicleNumber || '',
+    entry.violation?.violationType || '',
+    entry.violation?.vehicleType || '',
+    entry.violation?.measuredSpeed ?? '',
+    entry.violation?.fineAmount ?? '',
+  ]);
+
+  return [header, ...rows]
+    .map(row => row.map(value => `"${String(value).replace(/"/g, '""')}"`).join(','))
+    .join('\n');
+};
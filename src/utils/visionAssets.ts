@@ -0,0 +1,216 @@
+// This file loads the vision runtimes and models served with the app, so that
+// detection works without internet access, and tracks how far each one has got.
+
+import opencvUrl from 'opencv.js/opencv.js?url';
+import tesseractWorkerUrl from 'tesseract.js/dist/worker.min.js?url';
+// The non-SIMD build runs on older roadside machines as well
+import tesseractCoreUrl from 'tesseract.js-core/tesseract-core-lstm.wasm.js?url';
+
+export type VisionAsset = 'opencv' | 'tesseract' | 'model' | 'helmetModel';
+
+export type AssetStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+export interface AssetState {
+  status: AssetStatus;
+  /** Download progress in the range 0..1 */
+  progress: number;
+  error: string | null;
+}
+
+export type VisionReadiness = Record<VisionAsset, AssetState>;
+
+/**
+ * Locations of the vision assets; everything is served by the app itself
+ */
+export const VISION_ASSET_PATHS = {
+  opencv: opencvUrl,
+  tesseract: {
+    workerPath: tesseractWorkerUrl,
+    corePath: tesseractCoreUrl,
+    // Fetched into public/ by `npm run vision-assets`
+    langPath: '/vision/tessdata',
+  },
+  cocoSsdModel: '/models/coco-ssd/model.json',
+  // Trained for the deployment and copied in by hand; see README
+  helmetModel: '/models/helmet/model.json',
+};
+
+/**
+ * Time allowed for each asset to download and initialise
+ */
+export const ASSET_TIMEOUT_MS: Record<VisionAsset, number> = {
+  opencv: 60000,
+  tesseract: 60000,
+  model: 60000,
+  helmetModel: 60000,
+};
+
+/**
+ * Error thrown when a vision asset fails to load or times out
+ */
+export class VisionAssetError extends Error {
+  constructor(public readonly asset: VisionAsset, message: string) {
+    super(message);
+    this.name = 'VisionAssetError';
+  }
+}
+
+const ASSET_NAMES: Record<VisionAsset, string> = {
+  opencv: 'OpenCV',
+  tesseract: 'Tesseract OCR',
+  model: 'detection model',
+  helmetModel: 'helmet model',
+};
+
+const readiness: VisionReadiness = {
+  opencv: { status: 'idle', progress: 0, error: null },
+  tesseract: { status: 'idle', progress: 0, error: null },
+  model: { status: 'idle', progress: 0, error: null },
+  helmetModel: { status: 'idle', progress: 0, error: null },
+};
+
+const listeners = new Set<(readiness: VisionReadiness, asset: VisionAsset) => void>();
+
+/**
+ * Get the current load state of every vision asset
+ * @returns Snapshot of the readiness state
+ */
+export const getVisionReadiness = (): VisionReadiness => ({ ...readiness });
+
+/**
+ * Subscribe to load state changes
+ * @param listener Called with a snapshot and the asset that changed
+ * @returns Function that unsubscribes the listener
+ */
+export const subscribeVisionReadiness = (listener: (readiness: VisionReadiness, asset: VisionAsset) => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Update the load state of an asset; also used to apply updates reported by the vision workers
+ * @param asset Asset that changed
+ * @param state Changed fields
+ */
+export const updateAssetState = (asset: VisionAsset, state: Partial<AssetState>) => {
+  readiness[asset] = { ...readiness[asset], ...state };
+  const snapshot = getVisionReadiness();
+  listeners.forEach(listener => listener(snapshot, asset));
+};
+
+/**
+ * Run an asset load with a timeout, recording its state as it goes
+ * @param asset Asset being loaded
+ * @param load Function that loads the asset
+ * @returns Promise with the load result; rejects with a VisionAssetError on failure or timeout
+ */
+export const trackAssetLoad = async <T>(asset: VisionAsset, load: () => Promise<T>): Promise<T> => {
+  const timeoutMs = ASSET_TIMEOUT_MS[asset];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  updateAssetState(asset, { status: 'loading', progress: 0, error: null });
+
+  try {
+    const result = await Promise.race([
+      load(),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          reject(new VisionAssetError(asset, `Timed out loading ${ASSET_NAMES[asset]} after ${timeoutMs / 1000}s`));
+        }, timeoutMs);
+      }),
+    ]);
+
+    updateAssetState(asset, { status: 'ready', progress: 1 });
+    return result;
+  } catch (error) {
+    const assetError = error instanceof VisionAssetError
+      ? error
+      : new VisionAssetError(asset, `Failed to load ${ASSET_NAMES[asset]}: ${error instanceof Error ? error.message : String(error)}`);
+
+    console.error('Error loading vision asset:', assetError);
+    updateAssetState(asset, { status: 'error', error: assetError.message });
+    throw assetError;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Download a text asset, reporting progress
+ * @param url Asset URL
+ * @param onProgress Called with progress in the range 0..1 when the size is known
+ * @returns Promise with the response body
+ */
+const fetchTextWithProgress = async (url: string, onProgress: (progress: number) => void): Promise<string> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`${url} returned ${response.status}`);
+  }
+
+  const total = Number(response.headers.get('Content-Length')) || 0;
+  if (!response.body || !total) {
+    return response.text();
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.length;
+    onProgress(Math.min(1, loaded / total));
+  }
+
+  const bytes = new Uint8Array(loaded);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  });
+
+  return new TextDecoder().decode(bytes);
+};
+
+let openCVPromise: Promise<void> | null = null;
+
+/**
+ * Load OpenCV into the current scope (window or worker)
+ * @returns Promise that resolves when the OpenCV runtime is initialised
+ */
+export const loadOpenCV = (): Promise<void> => {
+  if (self.cv?.Mat) {
+    return Promise.resolve();
+  }
+
+  if (!openCVPromise) {
+    openCVPromise = trackAssetLoad('opencv', async () => {
+      const source = await fetchTextWithProgress(VISION_ASSET_PATHS.opencv, (progress) => {
+        // Keep the last few percent for runtime initialisation
+        updateAssetState('opencv', { progress: progress * 0.9 });
+      });
+
+      // Module workers have no importScripts, so evaluate the UMD build with `self` as its global
+      new Function(source).call(self);
+
+      if (self.cv instanceof Promise) {
+        self.cv = await self.cv;
+      } else if (!self.cv.Mat) {
+        await new Promise<void>((resolve) => {
+          self.cv.onRuntimeInitialized = () => resolve();
+        });
+      }
+    });
+
+    // Allow a later call to retry after a failed load
+    openCVPromise.catch(() => {
+      openCVPromise = null;
+    });
+  }
+
+  return openCVPromise;
+};
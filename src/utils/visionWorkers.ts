@@ -0,0 +1,180 @@
+// This file runs detection and plate OCR in a shared pool of vision workers,
+// so the detection page stays responsive while frames are processed.
+
+import { createWorkerPool, WorkerPool } from './workerPool';
+import { DetectionBox, DetectorFrame, DetectorSettings, VehicleDetector } from './detectors';
+import { MotionAlgorithm } from './motionDetection';
+import { DetectedPlate } from './numberPlateDetection';
+import { PreprocessingMode } from './preprocessing';
+import { AssetState, updateAssetState, VisionAsset } from './visionAssets';
+
+export type VisionRequest =
+  | { type: 'load'; cameraId: string; settings: DetectorSettings }
+  | { type: 'detect'; cameraId: string; settings: DetectorSettings; frame: ImageData }
+  | { type: 'readPlate'; crop: ImageData; offset: { x: number; y: number }; preprocessing: PreprocessingMode }
+  | { type: 'classifyHelmet'; crop: ImageData }
+  | { type: 'motionAlgorithms' }
+  | { type: 'release'; cameraId: string };
+
+export type VisionResult = DetectionBox[] | DetectedPlate | MotionAlgorithm[] | number | null;
+
+// Enough queued jobs for a frame's plate reads; anything beyond that is dropped
+const MAX_QUEUED_JOBS = 8;
+
+let visionPool: WorkerPool<VisionRequest, VisionResult> | null = null;
+
+/**
+ * Get the shared vision worker pool, starting it on first use
+ * @returns Vision worker pool
+ */
+export const getVisionPool = (): WorkerPool<VisionRequest, VisionResult> => {
+  if (!visionPool) {
+    // Leave a core for the UI thread
+    const size = Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1));
+
+    visionPool = createWorkerPool<VisionRequest, VisionResult>(
+      () => new Worker(new URL('../workers/vision.worker.ts', import.meta.url), { type: 'module' }),
+      {
+        size,
+        maxQueue: MAX_QUEUED_JOBS,
+        // Workers report asset load progress; mirror it into this thread's readiness state
+        onEvent: (data) => {
+          const { asset, state } = data as { asset: VisionAsset; state: AssetState };
+          updateAssetState(asset, state);
+        },
+      }
+    );
+  }
+
+  return visionPool;
+};
+
+/**
+ * Copy the pixels of a frame, or a region of it, into image data that can be transferred to a worker
+ * @param frame Frame to copy
+ * @param region Region to copy; the whole frame if omitted
+ * @returns Image data
+ */
+const getImageData = (
+  frame: DetectorFrame,
+  region?: { x: number; y: number; width: number; height: number }
+): ImageData => {
+  if (frame instanceof ImageData && !region) {
+    // Copy so that transferring the buffer does not detach the caller's frame
+    return new ImageData(new Uint8ClampedArray(frame.data), frame.width, frame.height);
+  }
+
+  let canvas: HTMLCanvasElement;
+  if (frame instanceof HTMLCanvasElement) {
+    canvas = frame;
+  } else {
+    canvas = document.createElement('canvas');
+    canvas.width = frame.width;
+    canvas.height = frame.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Could not get canvas context');
+    }
+    if (frame instanceof ImageData) {
+      ctx.putImageData(frame, 0, 0);
+    } else {
+      ctx.drawImage(frame, 0, 0);
+    }
+  }
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+
+  const { x, y, width, height } = region || { x: 0, y: 0, width: canvas.width, height: canvas.height };
+  return ctx.getImageData(x, y, width, height);
+};
+
+/**
+ * Get the background models the workers' OpenCV build provides
+ * @returns Promise with the available motion algorithms
+ */
+export const getMotionAlgorithmsInWorker = async (): Promise<MotionAlgorithm[]> => {
+  return await getVisionPool().submit({ type: 'motionAlgorithms' }) as MotionAlgorithm[];
+};
+
+/**
+ * Create a detector that runs in the vision worker pool
+ * @param cameraId Camera the frames come from; its jobs always run on the same worker
+ * @param settings Detector settings of the camera
+ * @returns Vehicle detector
+ */
+export const createWorkerDetector = (cameraId: string, settings: DetectorSettings): VehicleDetector => {
+  const detectorSettings: DetectorSettings = {
+    detectorBackend: settings.detectorBackend,
+    detectionMode: settings.detectionMode,
+    motionAlgorithm: settings.motionAlgorithm,
+    preprocessing: settings.preprocessing,
+  };
+
+  return {
+    name: settings.detectorBackend === 'tfjs' ? 'TF.js COCO-SSD' : 'OpenCV',
+    load: async () => {
+      await getVisionPool().submit(
+        { type: 'load', cameraId, settings: detectorSettings },
+        { group: cameraId, pinned: true }
+      );
+    },
+    detect: async (frame: DetectorFrame) => {
+      const imageData = getImageData(frame);
+      return await getVisionPool().submit(
+        { type: 'detect', cameraId, settings: detectorSettings, frame: imageData },
+        { group: cameraId, pinned: true, transfer: [imageData.data.buffer] }
+      ) as DetectionBox[];
+    },
+    dispose: () => {
+      const pool = getVisionPool();
+      pool.cancel(cameraId);
+      pool.submit({ type: 'release', cameraId }, { pinned: true, group: cameraId })
+        .catch(() => undefined);
+    },
+  };
+};
+
+/**
+ * Read a number plate in the vision worker pool
+ * @param cameraId Camera the frame comes from, used to cancel its jobs
+ * @param frame Canvas containing the frame
+ * @param region Region of the frame containing the vehicle
+ * @param preprocessing Preprocessing profile of the camera, or 'auto'
+ * @returns Promise with the plate, or null if none was read
+ */
+export const readPlateInWorker = async (
+  cameraId: string,
+  frame: HTMLCanvasElement,
+  region: { x: number; y: number; width: number; height: number },
+  preprocessing: PreprocessingMode
+): Promise<DetectedPlate | null> => {
+  const crop = getImageData(frame, region);
+
+  return await getVisionPool().submit(
+    { type: 'readPlate', crop, offset: { x: region.x, y: region.y }, preprocessing },
+    { group: cameraId, transfer: [crop.data.buffer] }
+  ) as DetectedPlate | null;
+};
+
+/**
+ * Classify a rider's head region in the vision worker pool
+ * @param cameraId Camera the frame comes from, used to cancel its jobs
+ * @param frame Canvas containing the frame
+ * @param region Head region of the frame
+ * @returns Promise with the probability that the rider wears no helmet
+ */
+export const classifyHelmetInWorker = async (
+  cameraId: string,
+  frame: HTMLCanvasElement,
+  region: { x: number; y: number; width: number; height: number }
+): Promise<number> => {
+  const crop = getImageData(frame, region);
+
+  return await getVisionPool().submit(
+    { type: 'classifyHelmet', crop },
+    { group: cameraId, transfer: [crop.data.buffer] }
+  ) as number;
+};
@@ -0,0 +1,385 @@
+// This file manages the watchlist of stolen or wanted vehicles supplied by the
+// police, matches recognised plates against it allowing for OCR errors, and
+// logs every sighting of a listed vehicle.
+
+import { firestore } from '../firebase';
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  Timestamp,
+  updateDoc,
+  writeBatch,
+} from 'firebase/firestore';
+import { EvidenceImage, uploadWatchlistFrame } from './evidence';
+import { getEditDistance, isOcrConfusion, normaliseRegistrationNumber } from './registrationNumber';
+
+/**
+ * Interface for a vehicle on the watchlist
+ */
+export interface WatchlistEntry {
+  id: string;
+  /** Canonical registration number */
+  vehicleNumber: string;
+  /** Why the vehicle is wanted, e.g. 'Reported stolen, FIR 123/2024' */
+  reason: string;
+  /** Null for entries that stay until removed */
+  expiresAt: Timestamp | null;
+  addedAt: Timestamp;
+}
+
+/**
+ * A watchlist entry before it is written to Firestore, e.g. from a CSV import
+ */
+export interface WatchlistEntryInput {
+  vehicleNumber: string;
+  reason: string;
+  expiresAt: Date | null;
+}
+
+/**
+ * Interface for a recognised plate that matched the watchlist
+ */
+export interface WatchlistMatch {
+  entry: WatchlistEntry;
+  /** Edit distance between the read plate and the listed number; 0 for an exact match */
+  distance: number;
+}
+
+/**
+ * Interface for a logged sighting of a watchlisted vehicle
+ */
+export interface WatchlistHit {
+  id: string;
+  entryId: string;
+  /** Number on the watchlist */
+  watchedNumber: string;
+  /** Number as read by OCR */
+  readNumber: string;
+  distance: number;
+  reason: string;
+  location: string;
+  detectedAt: Timestamp;
+  frame?: EvidenceImage;
+}
+
+/**
+ * Interface for the result of parsing a watchlist CSV
+ */
+export interface WatchlistImport {
+  entries: WatchlistEntryInput[];
+  /** Line numbers, from 1, of rows without a usable vehicle number or expiry date */
+  invalidLines: number[];
+}
+
+// Listed numbers within this weighted edit distance of a read plate are alerted on
+const MAX_MATCH_DISTANCE = 1;
+
+// Cost of substituting characters OCR commonly confuses, e.g. O for 0; any other edit costs 1
+const CONFUSION_COST = 0.3;
+
+// Firestore allows at most 500 writes in a batch
+const BATCH_SIZE = 500;
+
+/**
+ * Strip a registration number down to the characters compared when matching
+ * @param vehicleNumber Registration number
+ * @returns Letters and digits only
+ */
+const compactNumber = (vehicleNumber: string): string => {
+  return vehicleNumber.toUpperCase().replace(/[^A-Z0-9]/g, '');
+};
+
+/**
+ * Get the edit distance between two plates, with OCR confusions costing less than other edits
+ * @param read Plate as read
+ * @param listed Number on the watchlist
+ * @returns Weighted Levenshtein distance
+ */
+export const getPlateDistance = (read: string, listed: string): number => {
+  return getEditDistance(compactNumber(read), compactNumber(listed), (a, b) => isOcrConfusion(a, b) ? CONFUSION_COST : 1);
+};
+
+/**
+ * Check whether a watchlist entry is still in force
+ * @param entry Watchlist entry
+ * @param at Time to check at
+ * @returns True if the entry has no expiry or has not expired yet
+ */
+export const isWatchlistEntryActive = (entry: WatchlistEntry, at: Date = new Date()): boolean => {
+  return !entry.expiresAt || entry.expiresAt.toDate() > at;
+};
+
+/**
+ * Match a recognised plate against the watchlist
+ * @param vehicleNumber Plate as read
+ * @param entries Watchlist entries
+ * @param at Time the plate was read, to skip expired entries
+ * @returns Closest active entry within the match distance, or null if none is close enough
+ */
+export const matchWatchlist = (
+  vehicleNumber: string,
+  entries: WatchlistEntry[],
+  at: Date = new Date()
+): WatchlistMatch | null => {
+  let best: WatchlistMatch | null = null;
+
+  for (const entry of entries) {
+    if (!isWatchlistEntryActive(entry, at)) {
+      continue;
+    }
+
+    const distance = getPlateDistance(vehicleNumber, entry.vehicleNumber);
+    if (distance <= MAX_MATCH_DISTANCE && (!best || distance < best.distance)) {
+      best = { entry, distance };
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Split CSV text into rows of trimmed cells
+ *
+ * Quoted cells may hold commas and line breaks, with quotes inside them doubled.
+ * @param text CSV text
+ * @returns Rows, each with the line number, from 1, it starts on
+ */
+const parseCSVRows = (text: string): { line: number; cells: string[] }[] => {
+  const rows: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    rows.push({ line: rowLine, cells: [...cells, cell].map(value => value.trim()) });
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (char === '\n') {
+      line++;
+    }
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && !cell.trim()) {
+      // Only a quote opening a cell starts a quoted value; spaces before it are dropped
+      quoted = true;
+      cell = '';
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n') {
+      endRow();
+      rowLine = line;
+    } else if (char !== '\r') {
+      cell += char;
+    }
+  }
+
+  if (cell || cells.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
+
+/**
+ * Parse a watchlist CSV with columns for the vehicle number, reason and optional expiry date
+ *
+ * A header row is skipped if its first cell is not a plausible vehicle number.
+ * Expiry dates are anything Date can parse; a plain date such as 2025-03-31
+ * keeps the entry in force until the end of that day.
+ * @param text CSV text
+ * @returns Entries to import and the lines that could not be read
+ */
+export const parseWatchlistCSV = (text: string): WatchlistImport => {
+  const entries: WatchlistEntryInput[] = [];
+  const invalidLines: number[] = [];
+
+  parseCSVRows(text).forEach(({ line, cells }, index) => {
+    if (cells.every(cell => !cell)) {
+      return;
+    }
+
+    const [number = '', reason = '', expiry = ''] = cells;
+
+    if (index === 0 && !/\d/.test(number)) {
+      return;
+    }
+
+    const expiresAt = expiry ? new Date(/^\d{4}-\d{2}-\d{2}$/.test(expiry) ? `${expiry}T23:59:59` : expiry) : null;
+
+    if (compactNumber(number).length < 4 || (expiresAt && isNaN(expiresAt.getTime()))) {
+      invalidLines.push(line);
+      return;
+    }
+
+    entries.push({ vehicleNumber: normaliseRegistrationNumber(number), reason, expiresAt });
+  });
+
+  return { entries, invalidLines };
+};
+
+/**
+ * Follow the watchlist as it changes, so that new entries are matched straight away
+ * @param listener Called with the current entries on every change
+ * @param onError Called if the watchlist cannot be read
+ * @returns Function that stops following the watchlist
+ */
+export const subscribeWatchlist = (
+  listener: (entries: WatchlistEntry[]) => void,
+  onError?: (error: Error) => void
+): (() => void) => {
+  const q = query(collection(firestore, 'watchlist'), orderBy('addedAt', 'desc'));
+
+  return onSnapshot(
+    q,
+    (querySnapshot) => {
+      listener(querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as WatchlistEntry));
+    },
+    (error) => {
+      console.error('Error following watchlist:', error);
+      onError?.(error);
+    }
+  );
+};
+
+/**
+ * Get the Firestore fields of a new watchlist entry
+ * @param input Entry details
+ * @returns Document fields
+ */
+const getEntryFields = (input: WatchlistEntryInput) => ({
+  vehicleNumber: normaliseRegistrationNumber(input.vehicleNumber),
+  reason: input.reason,
+  expiresAt: input.expiresAt ? Timestamp.fromDate(input.expiresAt) : null,
+  addedAt: serverTimestamp(),
+});
+
+/**
+ * Add a vehicle to the watchlist
+ * @param input Vehicle number, reason and expiry
+ * @returns Promise with the new entry ID
+ */
+export const addWatchlistEntry = async (input: WatchlistEntryInput): Promise<string> => {
+  try {
+    const docRef = await addDoc(collection(firestore, 'watchlist'), getEntryFields(input));
+    return docRef.id;
+  } catch (error) {
+    console.error('Error adding watchlist entry:', error);
+    throw error;
+  }
+};
+
+/**
+ * Add many vehicles to the watchlist, e.g. from a CSV import
+ * @param inputs Entries to add
+ * @returns Promise that resolves when every entry is written
+ */
+export const importWatchlistEntries = async (inputs: WatchlistEntryInput[]): Promise<void> => {
+  try {
+    for (let start = 0; start < inputs.length; start += BATCH_SIZE) {
+      const batch = writeBatch(firestore);
+      inputs.slice(start, start + BATCH_SIZE).forEach((input) => {
+        batch.set(doc(collection(firestore, 'watchlist')), getEntryFields(input));
+      });
+      await batch.commit();
+    }
+  } catch (error) {
+    console.error('Error importing watchlist:', error);
+    throw error;
+  }
+};
+
+/**
+ * Remove a vehicle from the watchlist
+ * @param entryId Watchlist entry ID
+ * @returns Promise that resolves when the entry is removed
+ */
+export const removeWatchlistEntry = async (entryId: string): Promise<void> => {
+  try {
+    await deleteDoc(doc(firestore, 'watchlist', entryId));
+  } catch (error) {
+    console.error('Error removing watchlist entry:', error);
+    throw error;
+  }
+};
+
+/**
+ * Log a sighting of a watchlisted vehicle
+ * @param match Matched watchlist entry
+ * @param readNumber Plate as read
+ * @param location Camera location
+ * @param frame Captioned frame the vehicle was seen in, if one was captured
+ * @returns Logged hit, or null on failure
+ */
+export const recordWatchlistHit = async (
+  match: WatchlistMatch,
+  readNumber: string,
+  location: string,
+  frame: Blob | null = null
+): Promise<WatchlistHit | null> => {
+  try {
+    const fields = {
+      entryId: match.entry.id,
+      watchedNumber: match.entry.vehicleNumber,
+      readNumber,
+      distance: match.distance,
+      reason: match.entry.reason,
+      location,
+    };
+    const hitRef = await addDoc(collection(firestore, 'watchlistHits'), { ...fields, detectedAt: serverTimestamp() });
+    const hit: WatchlistHit = { id: hitRef.id, ...fields, detectedAt: Timestamp.now() };
+
+    // The hit stands without its frame, so a failed upload is logged rather than thrown
+    if (frame) {
+      try {
+        hit.frame = await uploadWatchlistFrame(hitRef.id, frame);
+        await updateDoc(hitRef, { frame: hit.frame });
+      } catch (error) {
+        console.error('Error attaching watchlist frame:', error);
+      }
+    }
+
+    return hit;
+  } catch (error) {
+    console.error('Error recording watchlist hit:', error);
+    return null;
+  }
+};
+
+/**
+ * Get logged watchlist hits, newest first
+ * @returns Promise with the hits
+ */
+export const getWatchlistHits = async (): Promise<WatchlistHit[]> => {
+  try {
+    const q = query(collection(firestore, 'watchlistHits'), orderBy('detectedAt', 'desc'));
+    const querySnapshot = await getDocs(q);
+
+    return querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as WatchlistHit);
+  } catch (error) {
+    console.error('Error fetching watchlist hits:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,273 @@
+// This file contains a small pool of Web Workers with a bounded job queue.
+// Jobs are dropped rather than queued without limit, so a slow pipeline sheds
+// frames instead of falling further and further behind.
+
+export interface WorkerPoolOptions {
+  /** Number of workers to start */
+  size: number;
+  /** Maximum number of jobs waiting for a worker */
+  maxQueue: number;
+  /** Called with messages a worker posts outside of a job, e.g. progress updates */
+  onEvent?: (data: unknown) => void;
+}
+
+export interface JobOptions {
+  /** Group the job belongs to (e.g. a camera), used for cancellation and pinning */
+  group?: string;
+  /** Always run jobs of this group on the same worker, for workers that keep per-group state */
+  pinned?: boolean;
+  /** Buffers to transfer to the worker instead of copying */
+  transfer?: Transferable[];
+}
+
+export interface WorkerPoolMetrics {
+  workers: number;
+  queued: number;
+  running: number;
+  completed: number;
+  failed: number;
+  dropped: number;
+  cancelled: number;
+  /** Exponential moving average of job latency (queue wait + run time) in ms */
+  averageLatencyMs: number;
+  lastLatencyMs: number;
+}
+
+/**
+ * Error a job rejects with when it is dropped or cancelled
+ */
+export class WorkerPoolError extends Error {
+  constructor(public readonly reason: 'dropped' | 'cancelled') {
+    super(reason === 'dropped' ? 'Worker pool queue is full' : 'Job cancelled');
+    this.name = 'WorkerPoolError';
+  }
+}
+
+/**
+ * Check whether an error only means a job was dropped or cancelled
+ * @param error Error thrown by a pool job
+ * @returns True if the error is a drop or cancellation rather than a failure
+ */
+export const isWorkerPoolError = (error: unknown): error is WorkerPoolError => {
+  return error instanceof WorkerPoolError;
+};
+
+interface WorkerMessage<Res> {
+  id: number;
+  result?: Res;
+  error?: string;
+}
+
+interface Job<Req, Res> {
+  id: number;
+  request: Req;
+  options: JobOptions;
+  submittedAt: number;
+  cancelled: boolean;
+  resolve: (result: Res) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker<Req, Res> {
+  worker: Worker;
+  job: Job<Req, Res> | null;
+}
+
+const LATENCY_SMOOTHING = 0.2;
+
+/**
+ * Get the worker a pinned group always runs on
+ * @param group Job group
+ * @param size Pool size
+ * @returns Worker index
+ */
+const getPinnedWorkerIndex = (group: string, size: number): number => {
+  let hash = 0;
+  for (let i = 0; i < group.length; i++) {
+    hash = (hash * 31 + group.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash) % size;
+};
+
+/**
+ * Create a worker pool
+ * @param createWorker Factory for a single worker
+ * @param options Pool size and queue limit
+ * @returns Worker pool instance
+ */
+export const createWorkerPool = <Req, Res>(
+  createWorker: () => Worker,
+  options: WorkerPoolOptions
+) => {
+  const queue: Job<Req, Res>[] = [];
+  const listeners = new Set<(metrics: WorkerPoolMetrics) => void>();
+  let nextJobId = 1;
+
+  const metrics: WorkerPoolMetrics = {
+    workers: options.size,
+    queued: 0,
+    running: 0,
+    completed: 0,
+    failed: 0,
+    dropped: 0,
+    cancelled: 0,
+    averageLatencyMs: 0,
+    lastLatencyMs: 0,
+  };
+
+  const notify = () => {
+    metrics.queued = queue.length;
+    metrics.running = workers.filter(w => w.job).length;
+    const snapshot = { ...metrics };
+    listeners.forEach(listener => listener(snapshot));
+  };
+
+  const recordLatency = (job: Job<Req, Res>) => {
+    const latency = performance.now() - job.submittedAt;
+    metrics.lastLatencyMs = latency;
+    metrics.averageLatencyMs = metrics.averageLatencyMs === 0
+      ? latency
+      : metrics.averageLatencyMs * (1 - LATENCY_SMOOTHING) + latency * LATENCY_SMOOTHING;
+  };
+
+  const handleMessage = (poolWorker: PoolWorker<Req, Res>, message: WorkerMessage<Res>) => {
+    const job = poolWorker.job;
+    poolWorker.job = null;
+
+    // A cancelled job has already been settled; just free the worker
+    if (job && job.id === message.id && !job.cancelled) {
+      recordLatency(job);
+
+      if (message.error !== undefined) {
+        metrics.failed++;
+        job.reject(new Error(message.error));
+      } else {
+        metrics.completed++;
+        job.resolve(message.result as Res);
+      }
+    }
+
+    dispatch();
+  };
+
+  const workers: PoolWorker<Req, Res>[] = Array.from({ length: options.size }, () => {
+    const poolWorker: PoolWorker<Req, Res> = { worker: createWorker(), job: null };
+    poolWorker.worker.onmessage = (event: MessageEvent<WorkerMessage<Res>>) => {
+      if (typeof event.data?.id !== 'number') {
+        options.onEvent?.(event.data);
+        return;
+      }
+      handleMessage(poolWorker, event.data);
+    };
+    poolWorker.worker.onerror = (event) => {
+      console.error('Vision worker error:', event.message);
+      handleMessage(poolWorker, { id: poolWorker.job?.id ?? -1, error: event.message || 'Worker error' });
+    };
+    return poolWorker;
+  });
+
+  /**
+   * Hand queued jobs to idle workers, respecting pinning
+   */
+  const dispatch = () => {
+    for (let i = 0; i < queue.length; i++) {
+      const job = queue[i];
+      const poolWorker = job.options.pinned && job.options.group
+        ? workers[getPinnedWorkerIndex(job.options.group, workers.length)]
+        : workers.find(w => !w.job);
+
+      if (!poolWorker || poolWorker.job) {
+        continue;
+      }
+
+      queue.splice(i, 1);
+      i--;
+      poolWorker.job = job;
+      poolWorker.worker.postMessage({ id: job.id, request: job.request }, job.options.transfer || []);
+    }
+
+    notify();
+  };
+
+  /**
+   * Submit a job to the pool
+   * @param request Request posted to the worker
+   * @param jobOptions Group, pinning and transferables
+   * @returns Promise with the worker's result; rejects with a WorkerPoolError if dropped or cancelled
+   */
+  const submit = (request: Req, jobOptions: JobOptions = {}): Promise<Res> => {
+    if (queue.length >= options.maxQueue) {
+      metrics.dropped++;
+      notify();
+      return Promise.reject(new WorkerPoolError('dropped'));
+    }
+
+    return new Promise<Res>((resolve, reject) => {
+      queue.push({
+        id: nextJobId++,
+        request,
+        options: jobOptions,
+        submittedAt: performance.now(),
+        cancelled: false,
+        resolve,
+        reject,
+      });
+      dispatch();
+    });
+  };
+
+  /**
+   * Cancel queued and running jobs; running jobs finish in the worker but their results are discarded
+   * @param group Only cancel jobs of this group; cancels everything if omitted
+   */
+  const cancel = (group?: string) => {
+    const matches = (job: Job<Req, Res>) => group === undefined || job.options.group === group;
+
+    for (let i = queue.length - 1; i >= 0; i--) {
+      if (matches(queue[i])) {
+        const [job] = queue.splice(i, 1);
+        metrics.cancelled++;
+        job.reject(new WorkerPoolError('cancelled'));
+      }
+    }
+
+    workers.forEach(poolWorker => {
+      const job = poolWorker.job;
+      // The worker stays busy until it replies, but nobody is waiting for the result
+      if (job && !job.cancelled && matches(job)) {
+        job.cancelled = true;
+        metrics.cancelled++;
+        job.reject(new WorkerPoolError('cancelled'));
+      }
+    });
+
+    notify();
+  };
+
+  /**
+   * Subscribe to metrics updates
+   * @param listener Called with a snapshot whenever the pool state changes
+   * @returns Function that unsubscribes the listener
+   */
+  const subscribe = (listener: (metrics: WorkerPoolMetrics) => void) => {
+    listeners.add(listener);
+    listener({ ...metrics });
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const terminate = () => {
+    cancel();
+    workers.forEach(poolWorker => poolWorker.worker.terminate());
+  };
+
+  return {
+    submit,
+    cancel,
+    subscribe,
+    terminate,
+  };
+};
+
+export type WorkerPool<Req, Res> = ReturnType<typeof createWorkerPool<Req, Res>>;
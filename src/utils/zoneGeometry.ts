@@ -0,0 +1,125 @@
+// This file contains the geometry used to decide whether a tracked vehicle has
+// entered a no-entry zone. All coordinates are normalised to the frame (0..1),
+// so a zone drawn on one resolution still applies to another.
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface EntryLine {
+  start: Point;
+  end: Point;
+  /**
+   * Side of the line a vehicle moves into when crossing in the forbidden
+   * direction, as seen walking from start to end
+   */
+  forbiddenSide: 'left' | 'right';
+}
+
+export interface ZoneConfig {
+  polygon: Point[];
+  entryLine: EntryLine | null;
+}
+
+/**
+ * Check whether a point lies inside a polygon (ray casting)
+ * @param point Point to test
+ * @param polygon Polygon vertices
+ * @returns True if the point is inside the polygon
+ */
+export const isPointInPolygon = (point: Point, polygon: Point[]): boolean => {
+  let inside = false;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+
+    const intersects = (a.y > point.y) !== (b.y > point.y) &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x;
+
+    if (intersects) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+};
+
+/**
+ * Get the side of a line a point lies on
+ * @param point Point to test
+ * @param start Line start
+ * @param end Line end
+ * @returns 'left' or 'right' as seen walking from start to end, or null if on the line
+ */
+export const getSideOfLine = (point: Point, start: Point, end: Point): 'left' | 'right' | null => {
+  // Screen coordinates grow downwards, so a positive cross product is on the right
+  const cross = (end.x - start.x) * (point.y - start.y) - (end.y - start.y) * (point.x - start.x);
+
+  if (cross === 0) {
+    return null;
+  }
+
+  return cross > 0 ? 'right' : 'left';
+};
+
+const segmentsIntersect = (p1: Point, p2: Point, q1: Point, q2: Point): boolean => {
+  const d1 = getSideOfLine(p1, q1, q2);
+  const d2 = getSideOfLine(p2, q1, q2);
+  const d3 = getSideOfLine(q1, p1, p2);
+  const d4 = getSideOfLine(q2, p1, p2);
+
+  return d1 !== d2 && d3 !== d4;
+};
+
+/**
+ * Check whether a movement crosses the entry line in its forbidden direction
+ * @param from Previous position
+ * @param to Current position
+ * @param line Entry line
+ * @returns True if the movement is a forbidden crossing
+ */
+export const isForbiddenCrossing = (from: Point, to: Point, line: EntryLine): boolean => {
+  if (!segmentsIntersect(from, to, line.start, line.end)) {
+    return false;
+  }
+
+  return getSideOfLine(to, line.start, line.end) === line.forbiddenSide;
+};
+
+/**
+ * Get the ground contact point of a bounding box, normalised to the frame
+ * @param box Bounding box in pixels
+ * @param frameWidth Frame width in pixels
+ * @param frameHeight Frame height in pixels
+ * @returns Bottom-centre point of the box
+ */
+export const getGroundPoint = (
+  box: { x: number; y: number; width: number; height: number },
+  frameWidth: number,
+  frameHeight: number
+): Point => ({
+  x: (box.x + box.width / 2) / frameWidth,
+  y: (box.y + box.height) / frameHeight,
+});
+
+/**
+ * Check whether a vehicle movement is an entry into a no-entry zone
+ * @param from Previous ground point
+ * @param to Current ground point
+ * @param zone Zone configuration
+ * @returns True if the vehicle has entered the zone in the forbidden direction
+ */
+export const isZoneEntry = (from: Point, to: Point, zone: ZoneConfig): boolean => {
+  if (zone.polygon.length >= 3 && !isPointInPolygon(to, zone.polygon)) {
+    return false;
+  }
+
+  if (zone.entryLine) {
+    return isForbiddenCrossing(from, to, zone.entryLine);
+  }
+
+  // Without an entry line, moving from outside to inside the polygon counts
+  return zone.polygon.length >= 3 && !isPointInPolygon(from, zone.polygon);
+};
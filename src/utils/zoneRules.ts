@@ -0,0 +1,142 @@
+// This file decides whether a vehicle may be in a zone, from the allowed and
+// restricted areas of each vehicle type and the time windows in which each
+// restriction applies.
+
+import vehicleData from '../data/vehicleData.json';
+import zoneRules from '../data/zoneRules.json';
+import { getVehicleDataType, VehicleDataType } from './speedEstimation';
+
+export type ZoneCategory = keyof typeof zoneRules.categories;
+
+export interface TimeWindow {
+  /** Days of the week the window applies on, 0 = Sunday */
+  days: number[];
+  /** Local time of day as HH:MM; a window that ends before it starts runs overnight */
+  start: string;
+  end: string;
+}
+
+/**
+ * Interface for the rule a vehicle broke, as recorded on its challan
+ */
+export interface ZoneRuleMatch {
+  id: string;
+  description: string;
+  category: ZoneCategory;
+}
+
+interface RestrictionSchedule {
+  id: string;
+  description: string;
+  category: string;
+  vehicleTypes: string[];
+  windows: TimeWindow[];
+}
+
+const schedules: RestrictionSchedule[] = zoneRules.schedules;
+
+/**
+ * Get the human-readable name of a zone category
+ * @param category Zone category
+ * @returns Category label
+ */
+export const getZoneCategoryLabel = (category: ZoneCategory): string => {
+  return zoneRules.categories[category];
+};
+
+export const getAllZoneCategories = (): ZoneCategory[] => {
+  return Object.keys(zoneRules.categories) as ZoneCategory[];
+};
+
+/**
+ * Get every camera location, in the order they are listed in the zone rules
+ * @returns Location names
+ */
+export const getAllLocations = (): string[] => {
+  return Object.keys(zoneRules.locations);
+};
+
+/**
+ * Get the zone category a location is mapped to
+ * @param location Camera location name
+ * @returns Zone category, or null if the location is not mapped
+ */
+export const getDefaultZoneCategory = (location: string): ZoneCategory | null => {
+  const category = (zoneRules.locations as Record<string, string>)[location];
+  return category && category in zoneRules.categories ? category as ZoneCategory : null;
+};
+
+/**
+ * Convert an HH:MM time to minutes after midnight
+ * @param time Time of day
+ * @returns Minutes after midnight
+ */
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Check whether a moment falls inside a time window
+ * @param window Time window
+ * @param at Moment to check, in local time
+ * @returns True if the window is open
+ */
+export const isWithinWindow = (window: TimeWindow, at: Date): boolean => {
+  const minutes = at.getHours() * 60 + at.getMinutes();
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+
+  if (start <= end) {
+    return window.days.includes(at.getDay()) && minutes >= start && minutes < end;
+  }
+
+  // Overnight windows belong to the day they start on
+  if (minutes >= start) {
+    return window.days.includes(at.getDay());
+  }
+
+  return minutes < end && window.days.includes((at.getDay() + 6) % 7);
+};
+
+/**
+ * Find the rule, if any, that a vehicle breaks by being in a zone
+ * @param vehicleType Vehicle type from classifyVehicleType
+ * @param category Zone category of the camera location
+ * @param at Time the vehicle was seen
+ * @returns Broken rule, or null if the vehicle is allowed in the zone
+ */
+export const evaluateZoneRules = (vehicleType: string, category: ZoneCategory, at: Date): ZoneRuleMatch | null => {
+  const type: VehicleDataType = getVehicleDataType(vehicleType);
+  const { allowedAreas, restrictedAreas } = vehicleData.vehicles[type];
+
+  if (allowedAreas.includes(category) && !restrictedAreas.includes(category)) {
+    return null;
+  }
+
+  // A restriction with a schedule only applies while one of its windows is open
+  const scheduled = schedules.filter(schedule => schedule.category === category && schedule.vehicleTypes.includes(type));
+
+  if (scheduled.length === 0) {
+    return {
+      id: `${type}-${category}`,
+      description: `${vehicleData.vehicles[type].description} vehicles are not allowed in this ${getZoneCategoryLabel(category).toLowerCase()}`,
+      category,
+    };
+  }
+
+  const active = scheduled.find(schedule => schedule.windows.some(window => isWithinWindow(window, at)));
+
+  return active ? { id: active.id, description: active.description, category } : null;
+};
+
+/**
+ * Get the vehicle types that may not be in a zone at a given time
+ * @param category Zone category
+ * @param at Time to check
+ * @returns Restricted vehicle types
+ */
+export const getRestrictedVehicleTypes = (category: ZoneCategory, at: Date): VehicleDataType[] => {
+  return (Object.keys(vehicleData.vehicles) as VehicleDataType[])
+    .filter(type => evaluateZoneRules(type, category, at) !== null);
+};
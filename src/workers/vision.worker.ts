@@ -0,0 +1,108 @@
+// This worker runs vehicle detection and plate OCR off the main thread. It is
+// started by the vision worker pool and answers one request at a time.
+
+import { createVehicleDetector, DetectorSettings, VehicleDetector } from '../utils/detectors';
+import { createHelmetClassifier, HelmetClassifier } from '../utils/helmetDetection';
+import { detectNumberPlate } from '../utils/numberPlateDetection';
+import { getAvailableMotionAlgorithms } from '../utils/motionDetection';
+import { initTesseract } from '../utils/ocr';
+import { loadOpenCV, subscribeVisionReadiness } from '../utils/visionAssets';
+import type { VisionRequest, VisionResult } from '../utils/visionWorkers';
+
+interface CameraDetector {
+  settingsKey: string;
+  detector: VehicleDetector;
+}
+
+// Detectors keep state across frames (e.g. the background model), so each
+// camera keeps its own; the pool pins a camera's frames to this worker
+const detectors = new Map<string, CameraDetector>();
+
+// The helmet model holds no per-camera state, so every camera shares one, loaded on first use
+let helmetClassifier: HelmetClassifier | null = null;
+
+// Forward load progress so the page can show readiness
+subscribeVisionReadiness((readiness, asset) => {
+  self.postMessage({ asset, state: readiness[asset] });
+});
+
+/**
+ * Get the detector for a camera, replacing it if the camera's settings changed
+ * @param cameraId Camera the frames come from
+ * @param settings Detector settings of the camera
+ * @returns Loaded detector
+ */
+const getDetector = async (cameraId: string, settings: DetectorSettings): Promise<VehicleDetector> => {
+  const settingsKey = `${settings.detectorBackend}:${settings.detectionMode}:${settings.motionAlgorithm}:${settings.preprocessing}`;
+  const existing = detectors.get(cameraId);
+
+  if (existing && existing.settingsKey === settingsKey) {
+    return existing.detector;
+  }
+
+  existing?.detector.dispose();
+  const detector = createVehicleDetector(settings);
+  detectors.set(cameraId, { settingsKey, detector });
+  await detector.load();
+
+  return detector;
+};
+
+/**
+ * Handle a single request
+ * @param request Request posted by the pool
+ * @returns Result posted back to the pool
+ */
+const handleRequest = async (request: VisionRequest): Promise<VisionResult> => {
+  await loadOpenCV();
+
+  switch (request.type) {
+    case 'load':
+      // Warm up OCR as well, so the first plate read does not wait for it
+      await Promise.all([getDetector(request.cameraId, request.settings), initTesseract()]);
+      return null;
+
+    case 'detect': {
+      const detector = await getDetector(request.cameraId, request.settings);
+      return detector.detect(request.frame);
+    }
+
+    case 'readPlate': {
+      const { crop, offset, preprocessing } = request;
+      const plate = await detectNumberPlate(crop, { x: 0, y: 0, width: crop.width, height: crop.height }, preprocessing);
+
+      if (!plate) {
+        return null;
+      }
+
+      return {
+        ...plate,
+        box: { ...plate.box, x: plate.box.x + offset.x, y: plate.box.y + offset.y },
+      };
+    }
+
+    case 'classifyHelmet':
+      helmetClassifier = helmetClassifier || createHelmetClassifier();
+      return helmetClassifier.classify(request.crop);
+
+    case 'motionAlgorithms':
+      return getAvailableMotionAlgorithms();
+
+    case 'release':
+      detectors.get(request.cameraId)?.detector.dispose();
+      detectors.delete(request.cameraId);
+      return null;
+  }
+};
+
+self.onmessage = async (event: MessageEvent<{ id: number; request: VisionRequest }>) => {
+  const { id, request } = event.data;
+
+  try {
+    const result = await handleRequest(request);
+    self.postMessage({ id, result });
+  } catch (error) {
+    console.error('Error in vision worker:', error);
+    self.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+};
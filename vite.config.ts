@@ -7,4 +7,8 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  worker: {
+    // The vision worker lazy-loads TF.js, which needs code splitting
+    format: 'es',
+  },
 });